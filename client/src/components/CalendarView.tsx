@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Calendar, momentLocalizer, View } from "react-big-calendar";
 import moment from "moment";
@@ -9,8 +9,15 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { CalendarIcon, TrendingUp, MapPin, DollarSign, Upload, FileUp, BarChart3, PieChart, Activity, Download, HelpCircle } from "lucide-react";
+import { CalendarIcon, TrendingUp, MapPin, DollarSign, Upload, FileUp, BarChart3, PieChart, Activity, Download, HelpCircle, Plus, Pencil, RefreshCw, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { RouteOptimizerPreview } from "@/components/RouteOptimizerPreview";
+import { ScheduleDryRunTable, type ScheduleDryRun } from "@/components/ScheduleDryRunTable";
+import { ImportHistory } from "@/components/ImportHistory";
+import { ScheduleEntryEditor } from "@/components/ScheduleEntryEditor";
+import { ScheduleColumnMapper } from "@/components/ScheduleColumnMapper";
+import { applyColumnMapping, type ScheduleColumnMapping } from "@shared/scheduleMapping";
+import type { Job, ScheduleImportTemplate } from "@shared/schema";
 import "react-big-calendar/lib/css/react-big-calendar.css";
 
 // Enhanced color palette for better visual design
@@ -32,11 +39,35 @@ interface ScheduleEntry {
   date: string;
   startAddress: string;
   endAddress: string;
+  stops?: string[] | null;
   notes: string;
   calculatedDistance?: number;
+  commuteMiles?: number | null;
   calculatedAmount?: number;
   isHotelStay?: boolean;
+  isOffDay?: boolean;
   processingStatus: string;
+  errorMessage?: string | null;
+}
+
+interface ScheduleDayResult {
+  date: string;
+  status: 'calculated' | 'off_day' | 'error';
+  distance: number;
+  amount: number;
+  errorMessage?: string;
+}
+
+// Pre-flight count of the routing calls an import would make
+interface ScheduleEstimate {
+  days: number;
+  legs: number;
+  cachedLegs: number;
+  uncachedLegs: number;
+  estimatedCost: number;
+  remainingCalls: number | null;
+  withinBudget: boolean;
+  addressIssues: number;
 }
 
 interface CalendarEvent {
@@ -53,8 +84,12 @@ export function CalendarView() {
   const [activeTab, setActiveTab] = useState<'calendar' | 'import'>('calendar');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [importData, setImportData] = useState<any>(null);
-  const [processingProgress, setProcessingProgress] = useState(0);
-  const [processingStatus, setProcessingStatus] = useState('');
+  const [columnMapping, setColumnMapping] = useState<ScheduleColumnMapping>({});
+  const [importTemplate, setImportTemplate] = useState<ScheduleImportTemplate | null>(null);
+  const [calendarRange, setCalendarRange] = useState<{ start: string; end: string } | null>(null);
+  const [processingJob, setProcessingJob] = useState<Job | null>(null);
+  const [editingEntry, setEditingEntry] = useState<ScheduleEntry | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
   const queryClient = useQueryClient();
 
   const { data: scheduleData = [] } = useQuery<ScheduleEntry[]>({
@@ -67,9 +102,11 @@ export function CalendarView() {
 
   const { data: analytics = {} } = useQuery<{
     totalDistance?: number;
+    commuteDistance?: number;
     totalAmount?: number; 
     tripDays?: number;
     avgDailyDistance?: number;
+    currentMileageRate?: number;
     monthlyTrends?: Array<{
       month: string;
       distance: number;
@@ -82,13 +119,23 @@ export function CalendarView() {
   });
 
   // Convert schedule entries to calendar events
-  const scheduleEvents: CalendarEvent[] = scheduleData.map(entry => ({
+  const toScheduleEvent = (entry: ScheduleEntry): CalendarEvent => ({
     id: entry.id,
     title: `${entry.calculatedDistance?.toFixed(1) || 0} mi - $${entry.calculatedAmount?.toFixed(2) || '0.00'}`,
     start: new Date(entry.date),
     end: new Date(entry.date),
     resource: entry
-  }));
+  });
+  const scheduleEvents: CalendarEvent[] = scheduleData.map(toScheduleEvent);
+
+  // Trip endpoints are coordinates, labeled with a saved place when one matched
+  const formatTripLocation = (location: any): string => {
+    if (!location) return 'Unknown';
+    if (location.placeName || location.address) return location.placeName || location.address;
+    const latitude = location.latitude ?? location.lat;
+    const longitude = location.longitude ?? location.lng;
+    return latitude != null && longitude != null ? `${latitude.toFixed(5)}, ${longitude.toFixed(5)}` : 'Unknown';
+  };
 
   // Convert trip data to calendar events if no schedule data exists
   const tripEvents: CalendarEvent[] = scheduleData.length === 0 ? trips.map(trip => ({
@@ -99,11 +146,11 @@ export function CalendarView() {
     resource: {
       id: trip.id,
       date: trip.startTime,
-      startAddress: trip.startLocation || 'Unknown',
-      endAddress: trip.endLocation || 'Unknown', 
+      startAddress: formatTripLocation(trip.startLocation),
+      endAddress: formatTripLocation(trip.endLocation),
       notes: `${trip.purpose} trip`,
       calculatedDistance: trip.distance,
-      calculatedAmount: (trip.distance || 0) * 0.655,
+      calculatedAmount: (trip.distance || 0) * (trip.mileageRate || 0),
       isHotelStay: false,
       processingStatus: 'completed'
     }
@@ -116,6 +163,40 @@ export function CalendarView() {
     setSelectedEvent(event);
   };
 
+  const openEditor = (entry: ScheduleEntry | null) => {
+    setEditingEntry(entry);
+    setEditorOpen(true);
+  };
+
+  const recalculateEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("POST", `/api/schedule/${entryId}/recalculate`);
+      return response.json() as Promise<ScheduleEntry>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      setSelectedEvent(toScheduleEvent(entry));
+    }
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      await apiRequest("DELETE", `/api/schedule/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      setSelectedEvent(null);
+    }
+  });
+
+  const handleDeleteEntry = (entry: ScheduleEntry) => {
+    if (confirm(`Delete the entry for ${moment(entry.date).format('MMMM DD, YYYY')}?`)) {
+      deleteEntryMutation.mutate(entry.id);
+    }
+  };
+
   const eventStyleGetter = (event: CalendarEvent) => {
     const isHotelStay = event.resource.isHotelStay;
     const isTripEvent = event.id.startsWith('trip-');
@@ -133,9 +214,14 @@ export function CalendarView() {
 
   // File upload and processing mutations
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, dateRange }: { file: File; dateRange?: { start: string; end: string } | null }) => {
       const formData = new FormData();
       formData.append('schedule', file);
+      // Calendar files are expanded within this range
+      if (dateRange) {
+        formData.append('rangeStart', dateRange.start);
+        formData.append('rangeEnd', dateRange.end);
+      }
       const response = await fetch('/api/schedule/import', {
         method: 'POST',
         body: formData
@@ -148,80 +234,155 @@ export function CalendarView() {
     },
     onSuccess: (data) => {
       setImportData(data);
+      setImportTemplate(data.template);
+      setCalendarRange(data.dateRange);
+      setColumnMapping(data.template ? data.template.mapping : data.columnMapping);
+    }
+  });
+
+  const estimateMutation = useMutation({
+    mutationFn: async (estimateData: any) => {
+      const response = await apiRequest("POST", "/api/schedule/estimate", estimateData);
+      return response.json() as Promise<ScheduleEstimate>;
     }
   });
 
   const processMutation = useMutation({
     mutationFn: async (processData: any) => {
-      return await apiRequest("POST", "/api/schedule/process", processData);
+      const response = await apiRequest("POST", "/api/schedule/jobs", processData);
+      return response.json() as Promise<Job>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
-      setImportData(null);
-      setUploadedFile(null);
-      setActiveTab('calendar');
-      setProcessingProgress(0);
-      setProcessingStatus('');
+    onSuccess: (job) => {
+      setProcessingJob(job);
     }
   });
 
-  // Progress simulation during processing
-  useEffect(() => {
-    if (processMutation.isPending) {
-      setProcessingProgress(0);
-      setProcessingStatus('Starting route calculations...');
-      
-      const interval = setInterval(() => {
-        setProcessingProgress(prev => {
-          const next = prev + Math.random() * 8 + 2; // Increment by 2-10% each time
-          if (next >= 95) {
-            setProcessingStatus('Finalizing schedule entries...');
-            return 95; // Cap at 95% until actually complete
-          } else if (next >= 80) {
-            setProcessingStatus('Processing final routes...');
-            return next;
-          } else if (next >= 50) {
-            setProcessingStatus('Calculating distances and costs...');
-            return next;
-          } else if (next >= 20) {
-            setProcessingStatus('Calling Google Maps API...');
-            return next;
-          } else {
-            setProcessingStatus('Analyzing schedule data...');
-            return next;
-          }
-        });
-      }, 2000); // Update every 2 seconds
-
-      return () => clearInterval(interval);
-    } else {
-      setProcessingProgress(0);
-      setProcessingStatus('');
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/schedule/jobs/${jobId}/cancel`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: (job) => {
+      setProcessingJob(job);
+    }
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (processData: any) => {
+      const response = await apiRequest("POST", "/api/schedule/process", { ...processData, dryRun: true });
+      return response.json() as Promise<ScheduleDryRun>;
+    }
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/schedule/jobs/${jobId}/resume`);
+      return response.json() as Promise<Job>;
+    },
+    onSuccess: (job) => {
+      setProcessingJob(job);
     }
-  }, [processMutation.isPending]);
+  });
+
+  // Rows and header mapping as the processor will see them after the column mapping is applied
+  const mappedImport = useMemo(
+    () => importData ? applyColumnMapping(importData.data, columnMapping) : null,
+    [importData, columnMapping]
+  );
+
+  useEffect(() => {
+    if (!mappedImport) return;
+    dryRunMutation.reset();
+    estimateMutation.mutate({ data: mappedImport.data, headerMapping: mappedImport.headerMapping });
+  }, [mappedImport]);
+
+  const processingJobId = processingJob?.id;
+
+  // Stream real progress from the background job
+  useEffect(() => {
+    if (!processingJobId) return;
+
+    const events = new EventSource(`/api/schedule/jobs/${processingJobId}/events`, { withCredentials: true });
+    events.addEventListener('progress', (event) => {
+      const job: Job = JSON.parse((event as MessageEvent).data);
+      setProcessingJob(job);
+
+      // The stream stays open while paused so a resumed job keeps reporting here
+      if (job.status === 'paused') {
+        queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/schedule/imports"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+      }
+
+      if (['completed', 'failed', 'cancelled'].includes(job.status)) {
+        events.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/schedule/imports"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+        setImportData(null);
+        setUploadedFile(null);
+
+        const failedDays = ((job.results as ScheduleDayResult[]) || []).filter(day => day.status === 'error');
+        if (job.status === 'completed' && failedDays.length === 0) {
+          setProcessingJob(null);
+          setActiveTab('calendar');
+        }
+      }
+    });
+    events.onerror = () => {
+      // Let the browser retry while the job is still running
+      if (events.readyState === EventSource.CLOSED) {
+        setProcessingJob(null);
+      }
+    };
+
+    return () => events.close();
+  }, [processingJobId]);
+
+  const isProcessing = processMutation.isPending ||
+    (processingJob !== null && ['queued', 'running'].includes(processingJob.status));
+  const jobResults = (processingJob?.results as ScheduleDayResult[]) || [];
+  const failedDays = jobResults.filter(day => day.status === 'error');
+  const processingProgress = processingJob?.totalCount
+    ? ((processingJob.processedCount || 0) / processingJob.totalCount) * 100
+    : 0;
+  const lastProcessedDay = jobResults[jobResults.length - 1];
+  const processingStatus = !processingJob || processingJob.status === 'queued'
+    ? 'Waiting to start...'
+    : lastProcessedDay
+      ? `Processed ${lastProcessedDay.date} (${processingJob.processedCount} of ${processingJob.totalCount} days)`
+      : 'Starting route calculations...';
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setUploadedFile(file);
-      uploadMutation.mutate(file);
+      uploadMutation.mutate({ file });
     }
   };
 
+  const buildProcessRequest = (file: File) => {
+    // Create a simple hash from file properties for redundancy checking
+    const hash = btoa(`${file.name}-${file.size}-${file.lastModified}`).substring(0, 32);
+
+    return {
+      data: mappedImport!.data,
+      headerMapping: mappedImport!.headerMapping,
+      fileHash: hash,
+      fileName: file.name,
+      forceReprocess: true // Allow reprocessing during development
+    };
+  };
+
   const handleProcessSchedule = () => {
     if (importData && uploadedFile) {
-      // Create a simple hash from file properties for redundancy checking
-      const hash = btoa(`${uploadedFile.name}-${uploadedFile.size}-${uploadedFile.lastModified}`).substring(0, 32);
-      
-      processMutation.mutate({
-        data: importData.data,
-        headerMapping: importData.headerMapping,
-        mileageRate: 0.655,
-        fileHash: hash,
-        fileName: uploadedFile.name,
-        forceReprocess: true // Allow reprocessing during development
-      });
+      processMutation.mutate(buildProcessRequest(uploadedFile));
+    }
+  };
+
+  const handlePreviewSchedule = () => {
+    if (importData && uploadedFile) {
+      dryRunMutation.mutate(buildProcessRequest(uploadedFile));
     }
   };
 
@@ -257,6 +418,9 @@ export function CalendarView() {
                 {analytics?.totalDistance?.toFixed(1) || '0.0'}
                 <span className="text-lg text-muted-foreground ml-1">miles</span>
               </div>
+              {(analytics?.commuteDistance || 0) > 0 && (
+                <div className="text-xs text-blue-600 mt-1">{analytics.commuteDistance!.toFixed(1)} mi non-deductible commute</div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -273,7 +437,7 @@ export function CalendarView() {
               <div className="text-3xl font-bold text-gray-900">
                 ${analytics?.totalAmount?.toFixed(2) || '0.00'}
               </div>
-              <div className="text-xs text-green-600 mt-1">@$0.655/mile</div>
+              <div className="text-xs text-green-600 mt-1">@${analytics?.currentMileageRate?.toFixed(3) || '0.000'}/mile</div>
             </div>
           </CardContent>
         </Card>
@@ -355,7 +519,7 @@ export function CalendarView() {
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Cost per Mile</span>
-                <span className="font-semibold">$0.655</span>
+                <span className="font-semibold">${analytics?.currentMileageRate?.toFixed(3) || '0.000'}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Total API Calls</span>
@@ -489,6 +653,15 @@ export function CalendarView() {
             <Download className="w-4 h-4 mr-2" />
             Export IRS Report
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => openEditor(null)}
+            data-testid="add-schedule-entry"
+            className="w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Day
+          </Button>
         </div>
       </div>
 
@@ -588,9 +761,14 @@ export function CalendarView() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">Trip Details</h3>
-              {selectedEvent.resource.isHotelStay && (
-                <Badge variant="secondary">Hotel Stay</Badge>
-              )}
+              <div className="flex gap-2">
+                {selectedEvent.resource.isOffDay && (
+                  <Badge variant="outline">Off Day</Badge>
+                )}
+                {selectedEvent.resource.isHotelStay && (
+                  <Badge variant="secondary">Hotel Stay</Badge>
+                )}
+              </div>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -602,6 +780,11 @@ export function CalendarView() {
               <div>
                 <label className="text-sm font-medium text-muted-foreground">Distance</label>
                 <p>{selectedEvent.resource.calculatedDistance?.toFixed(1) || '0'} miles</p>
+                {(selectedEvent.resource.commuteMiles || 0) > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    incl. {selectedEvent.resource.commuteMiles!.toFixed(1)} mi commute (not deductible)
+                  </p>
+                )}
               </div>
               
               <div>
@@ -614,6 +797,9 @@ export function CalendarView() {
                 <Badge variant={selectedEvent.resource.processingStatus === 'calculated' ? 'default' : 'destructive'}>
                   {selectedEvent.resource.processingStatus}
                 </Badge>
+                {selectedEvent.resource.processingStatus === 'error' && selectedEvent.resource.errorMessage && (
+                  <p className="text-xs text-red-600 mt-1">{selectedEvent.resource.errorMessage}</p>
+                )}
               </div>
               
               <div className="md:col-span-2">
@@ -621,6 +807,12 @@ export function CalendarView() {
                 <p className="text-sm">
                   <span className="font-medium">From:</span> {selectedEvent.resource.startAddress}
                   <br />
+                  {(selectedEvent.resource.stops || []).map((stop, index) => (
+                    <span key={index}>
+                      <span className="font-medium">Stop:</span> {stop}
+                      <br />
+                    </span>
+                  ))}
                   <span className="font-medium">To:</span> {selectedEvent.resource.endAddress}
                 </p>
               </div>
@@ -633,14 +825,51 @@ export function CalendarView() {
               )}
             </div>
             
-            <Button 
-              variant="outline" 
-              onClick={() => setSelectedEvent(null)}
-              className="mt-4"
-              data-testid="close-event-details"
-            >
-              Close
-            </Button>
+            {(recalculateEntryMutation.error || deleteEntryMutation.error) && (
+              <p className="text-sm text-red-600 mt-4">
+                {(recalculateEntryMutation.error || deleteEntryMutation.error)!.message}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2 mt-4">
+              {!selectedEvent.id.startsWith('trip-') && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => openEditor(selectedEvent.resource)}
+                    data-testid="edit-schedule-entry"
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => recalculateEntryMutation.mutate(selectedEvent.resource.id)}
+                    disabled={recalculateEntryMutation.isPending}
+                    data-testid="recalculate-schedule-entry"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    {recalculateEntryMutation.isPending ? 'Recalculating...' : 'Recalculate'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDeleteEntry(selectedEvent.resource)}
+                    disabled={deleteEntryMutation.isPending}
+                    data-testid="delete-schedule-entry"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              )}
+              <Button 
+                variant="outline" 
+                onClick={() => setSelectedEvent(null)}
+                data-testid="close-event-details"
+              >
+                Close
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
@@ -671,14 +900,14 @@ export function CalendarView() {
                     <input
                       id="schedule-upload"
                       type="file"
-                      accept=".xlsx,.xls,.csv"
+                      accept=".xlsx,.xls,.csv,.ics"
                       onChange={handleFileUpload}
                       className="hidden"
                       data-testid="schedule-file-input"
                     />
                   </div>
                   <p className="text-sm text-muted-foreground mt-2">
-                    Supports Excel (.xlsx, .xls) and CSV (.csv) files
+                    Supports Excel (.xlsx, .xls), CSV (.csv) and calendar (.ics) files
                   </p>
                 </div>
 
@@ -796,7 +1025,7 @@ export function CalendarView() {
                   </div>
                 )}
 
-                {processMutation.isPending && (
+                {isProcessing && (
                   <Card className="bg-blue-50 border-blue-200">
                     <CardContent className="p-6">
                       <div className="space-y-4">
@@ -809,16 +1038,89 @@ export function CalendarView() {
                         
                         <div className="space-y-2">
                           <p className="text-sm text-blue-800">{processingStatus}</p>
-                          <p className="text-xs text-blue-600">
-                            Estimated time: {processingProgress < 95 ? `${Math.max(5, Math.round((100 - processingProgress) * 0.8))} seconds` : 'Almost done!'}
-                          </p>
+                          {failedDays.length > 0 && (
+                            <p className="text-xs text-red-600">{failedDays.length} day(s) failed so far</p>
+                          )}
                         </div>
                         
-                        <div className="flex items-center gap-2 text-xs text-blue-600">
-                          <Activity className="w-3 h-3 animate-pulse" />
-                          <span>Please wait while we calculate routes and distances...</span>
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 text-xs text-blue-600">
+                            <Activity className="w-3 h-3 animate-pulse" />
+                            <span>{processingJob?.cancelRequested ? 'Stopping after the current day...' : 'You can leave this page; processing continues in the background.'}</span>
+                          </div>
+                          {processingJob && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => cancelMutation.mutate(processingJob.id)}
+                              disabled={cancelMutation.isPending || Boolean(processingJob.cancelRequested)}
+                              data-testid="cancel-processing-btn"
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {processingJob && !isProcessing && (
+                  <Card className={['completed', 'paused'].includes(processingJob.status) ? 'border-amber-200' : 'border-red-200'}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-medium">
+                          {processingJob.status === 'completed' && 'Processing finished with errors'}
+                          {processingJob.status === 'cancelled' && 'Processing cancelled'}
+                          {processingJob.status === 'failed' && 'Processing failed'}
+                          {processingJob.status === 'paused' && 'Processing paused'}
+                        </h4>
+                        <div className="flex gap-2">
+                          {processingJob.status === 'paused' && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => resumeMutation.mutate(processingJob.id)}
+                                disabled={resumeMutation.isPending}
+                                data-testid="resume-processing-btn"
+                              >
+                                Resume
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => cancelMutation.mutate(processingJob.id)}
+                                disabled={cancelMutation.isPending}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                          {processingJob.status !== 'paused' && (
+                            <Button variant="ghost" size="sm" onClick={() => setProcessingJob(null)}>
+                              Dismiss
+                            </Button>
+                          )}
                         </div>
                       </div>
+                      <p className="text-sm text-muted-foreground">
+                        {processingJob.processedCount} of {processingJob.totalCount} days processed.
+                        {processingJob.errorMessage && ` ${processingJob.errorMessage}`}
+                      </p>
+                      {resumeMutation.error && (
+                        <p className="text-sm text-red-600">{resumeMutation.error.message}</p>
+                      )}
+                      {failedDays.length > 0 && (
+                        <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                          {failedDays.map(day => (
+                            <div key={day.date} className="flex justify-between gap-4">
+                              <span className="font-medium">{day.date}</span>
+                              <span className="text-red-600 text-right">{day.errorMessage || 'Unknown error'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 )}
@@ -828,31 +1130,107 @@ export function CalendarView() {
                     <CardContent className="p-4">
                       <h4 className="font-medium mb-2">File Preview</h4>
                       <p className="text-sm text-muted-foreground mb-4">
-                        Found {importData.totalRows} entries. Review the detected columns:
+                        Found {importData.totalRows} entries. Review how the columns are read:
                       </p>
+
+                      {calendarRange && uploadedFile && (
+                        <div className="flex flex-wrap items-end gap-2 mb-4" data-testid="calendar-range">
+                          <div>
+                            <label className="text-xs text-muted-foreground">Events from</label>
+                            <Input
+                              type="date"
+                              value={calendarRange.start}
+                              onChange={(e) => setCalendarRange({ ...calendarRange, start: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs text-muted-foreground">to</label>
+                            <Input
+                              type="date"
+                              value={calendarRange.end}
+                              onChange={(e) => setCalendarRange({ ...calendarRange, end: e.target.value })}
+                            />
+                          </div>
+                          <Button
+                            variant="outline"
+                            onClick={() => uploadMutation.mutate({ file: uploadedFile, dateRange: calendarRange })}
+                            disabled={uploadMutation.isPending || !calendarRange.start || !calendarRange.end}
+                          >
+                            {uploadMutation.isPending ? 'Loading...' : 'Reload events'}
+                          </Button>
+                        </div>
+                      )}
                       
-                      <div className="space-y-2 text-sm">
-                        <div><strong>Date Column:</strong> {importData.headerMapping.date || 'Not detected'}</div>
-                        <div><strong>Start Address:</strong> {importData.headerMapping.startAddress || 'Not detected'}</div>
-                        <div><strong>Notes:</strong> {importData.headerMapping.notes || 'Not detected'}</div>
-                      </div>
+                      <ScheduleColumnMapper
+                        headers={importData.headers}
+                        sampleRow={importData.data[0]}
+                        mapping={columnMapping}
+                        onChange={setColumnMapping}
+                        template={importTemplate}
+                        onTemplateChange={setImportTemplate}
+                      />
+
+                      {estimateMutation.data && (
+                        <div className={`mt-4 p-3 rounded-lg text-sm ${estimateMutation.data.withinBudget ? 'bg-muted' : 'bg-yellow-50 border border-yellow-200 text-yellow-800'}`} data-testid="import-estimate">
+                          <div>
+                            About {estimateMutation.data.uncachedLegs} API calls for {estimateMutation.data.days} days
+                            {estimateMutation.data.cachedLegs > 0 && ` (${estimateMutation.data.cachedLegs} legs already cached)`}
+                            {estimateMutation.data.estimatedCost > 0 && `, est. $${estimateMutation.data.estimatedCost.toFixed(2)}`}
+                          </div>
+                          {!estimateMutation.data.withinBudget && (
+                            <div className="mt-1">
+                              ⚠️ Only {estimateMutation.data.remainingCalls} calls are left in this month's API budget. Raise the budget in Settings to process this file.
+                            </div>
+                          )}
+                          {estimateMutation.data.addressIssues > 0 && (
+                            <div className="mt-1 text-amber-700">
+                              ⚠️ {estimateMutation.data.addressIssues} row(s) have incomplete or ambiguous addresses. Preview the changes to see them before processing.
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <RouteOptimizerPreview data={mappedImport!.data} headerMapping={mappedImport!.headerMapping} />
                       
+                      <Button
+                        variant="outline"
+                        onClick={handlePreviewSchedule}
+                        disabled={isProcessing || dryRunMutation.isPending}
+                        className="w-full mt-4"
+                        data-testid="preview-schedule-btn"
+                      >
+                        {dryRunMutation.isPending ? 'Building preview...' : 'Preview Changes (Dry Run)'}
+                      </Button>
+                      {dryRunMutation.error && (
+                        <p className="text-sm text-red-600 mt-2">{dryRunMutation.error.message}</p>
+                      )}
+                      {dryRunMutation.data && <ScheduleDryRunTable dryRun={dryRunMutation.data} />}
+
                       <Button 
                         onClick={handleProcessSchedule}
-                        disabled={processMutation.isPending}
+                        disabled={isProcessing || estimateMutation.data?.withinBudget === false}
                         className="w-full mt-4"
                         data-testid="process-schedule-btn"
                       >
-                        {processMutation.isPending ? 'Processing...' : 'Process Schedule Data'}
+                        {isProcessing ? 'Processing...' : 'Process Schedule Data'}
                       </Button>
                     </CardContent>
                   </Card>
                 )}
+
+                <ImportHistory />
               </div>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      <ScheduleEntryEditor
+        entry={editingEntry}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        onSaved={() => setSelectedEvent(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Undo2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { ImportBatch } from "@shared/schema";
+
+type ImportBatchSummary = ImportBatch & { entryCount: number; mergedCount: number };
+
+export function ImportHistory() {
+  const queryClient = useQueryClient();
+  const { data: imports = [] } = useQuery<ImportBatchSummary[]>({
+    queryKey: ["/api/schedule/imports"],
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await apiRequest("DELETE", `/api/schedule/imports/${batchId}`);
+      return response.json() as Promise<{ deleted: number; restored: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/imports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+    }
+  });
+
+  const handleRevert = (batch: ImportBatchSummary) => {
+    const merged = batch.mergedCount > 0 ? ` and restore ${batch.mergedCount} day(s) it was combined into` : '';
+    if (confirm(`Undo this import? This will delete ${batch.entryCount - batch.mergedCount} day(s) it created${merged}.`)) {
+      revertMutation.mutate(batch.id);
+    }
+  };
+
+  if (imports.length === 0) return null;
+
+  return (
+    <Card data-testid="import-history">
+      <CardContent className="p-4 space-y-3">
+        <h4 className="font-medium">Import History</h4>
+        {revertMutation.error && (
+          <p className="text-sm text-red-600">{revertMutation.error.message}</p>
+        )}
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {imports.map(batch => (
+            <div key={batch.id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{batch.fileName || 'Schedule import'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {batch.createdAt ? new Date(batch.createdAt).toLocaleString() : ''}
+                  {batch.status === 'active' && ` · ${batch.entryCount} day(s)${batch.mergedCount > 0 ? `, ${batch.mergedCount} combined` : ''}`}
+                </div>
+              </div>
+              {batch.status === 'reverted' ? (
+                <Badge variant="secondary">Reverted</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevert(batch)}
+                  disabled={revertMutation.isPending}
+                  data-testid={`revert-import-${batch.id}`}
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Split, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  EXPENSE_CATEGORIES,
+  getDeductibleAmount,
+  groupLineItemsByCategory,
+  MEALS_DEDUCTIBLE_SHARE,
+  normalizeLineItems,
+  type ExpenseCategory,
+  type ReceiptLineItem
+} from "@shared/receiptLineItems";
+import type { Expense, Receipt } from "@shared/schema";
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  gas: "Gas",
+  parking: "Parking",
+  tolls: "Tolls",
+  meals: "Meals",
+  lodging: "Lodging",
+  other: "Other"
+};
+
+// Form values as typed; numbers are parsed when the items are saved
+interface LineItemRow {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  total: string;
+  category: ExpenseCategory;
+}
+
+function toRow(item: ReceiptLineItem): LineItemRow {
+  return {
+    description: item.description,
+    quantity: item.quantity.toString(),
+    unitPrice: item.unitPrice?.toFixed(2) ?? "",
+    total: item.total.toFixed(2),
+    category: item.category
+  };
+}
+
+// Rows without a description or a total are left out
+function toItems(rows: LineItemRow[]): ReceiptLineItem[] {
+  return rows.flatMap(row => {
+    const quantity = parseFloat(row.quantity) || 1;
+    const unitPrice = parseFloat(row.unitPrice);
+    const total = parseFloat(row.total);
+    if (!row.description.trim() || isNaN(total)) return [];
+    return [{
+      description: row.description.trim(),
+      quantity: quantity > 0 ? quantity : 1,
+      unitPrice: isNaN(unitPrice) ? null : unitPrice,
+      total,
+      category: row.category
+    }];
+  });
+}
+
+interface ReceiptLineItemsEditorProps {
+  receipt: Receipt;
+  onSaved: (receipt: Receipt) => void;
+}
+
+// Line items of one receipt, grouped by category so a mixed receipt like a hotel folio can be split into expenses
+export function ReceiptLineItemsEditor({ receipt, onSaved }: ReceiptLineItemsEditorProps) {
+  const queryClient = useQueryClient();
+  const extracted = (receipt.extractedData || {}) as Record<string, any>;
+  const [rows, setRows] = useState<LineItemRow[]>(() => normalizeLineItems(extracted.items).map(toRow));
+
+  const items = toItems(rows);
+  const receiptTotal = typeof extracted.amount === "number" ? extracted.amount : null;
+  const groups = groupLineItemsByCategory(items, receiptTotal);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/receipts/${receipt.id}/items`, { items });
+      return response.json();
+    },
+    onSuccess: (updated: Receipt) => {
+      invalidate();
+      onSaved(updated);
+    }
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/receipts/${receipt.id}/split`, { items });
+      return response.json();
+    },
+    onSuccess: (split: { receipt: Receipt; expenses: Expense[] }) => {
+      invalidate();
+      onSaved(split.receipt);
+    }
+  });
+
+  const updateRow = (index: number, changes: Partial<LineItemRow>) => {
+    setRows(rows.map((row, i) => {
+      if (i !== index) return row;
+      const updated = { ...row, ...changes };
+      // Quantity or unit price edits carry through to the line total
+      if ((changes.quantity !== undefined || changes.unitPrice !== undefined) && updated.unitPrice) {
+        const quantity = parseFloat(updated.quantity) || 1;
+        const unitPrice = parseFloat(updated.unitPrice);
+        if (!isNaN(unitPrice)) updated.total = (quantity * unitPrice).toFixed(2);
+      }
+      return updated;
+    }));
+  };
+
+  const handleSplit = () => {
+    if (receipt.expenseId && !confirm('This receipt is already linked to an expense. Splitting updates it and adds one expense per category. Continue?')) {
+      return;
+    }
+    splitMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-3" data-testid="receipt-line-items">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Line Items</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRows([...rows, { description: "", quantity: "1", unitPrice: "", total: "", category: "other" }])}
+          data-testid="add-line-item"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Item
+        </Button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-sm text-muted-foreground">No line items were found on this receipt.</p>
+      )}
+
+      {rows.map((row, index) => (
+        <div key={index} className="border rounded-md p-2 space-y-2" data-testid={`line-item-${index}`}>
+          <div className="flex gap-2">
+            <Input
+              value={row.description}
+              onChange={(e) => updateRow(index, { description: e.target.value })}
+              placeholder="Description"
+              data-testid={`line-item-description-${index}`}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRows(rows.filter((_, i) => i !== index))}
+              className="text-destructive hover:text-destructive"
+              data-testid={`remove-line-item-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <Input
+              type="number"
+              step="1"
+              value={row.quantity}
+              onChange={(e) => updateRow(index, { quantity: e.target.value })}
+              placeholder="Qty"
+              data-testid={`line-item-quantity-${index}`}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              value={row.unitPrice}
+              onChange={(e) => updateRow(index, { unitPrice: e.target.value })}
+              placeholder="Each"
+              data-testid={`line-item-unit-price-${index}`}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              value={row.total}
+              onChange={(e) => updateRow(index, { total: e.target.value })}
+              placeholder="Total"
+              data-testid={`line-item-total-${index}`}
+            />
+            <Select value={row.category} onValueChange={(value) => updateRow(index, { category: value as ExpenseCategory })}>
+              <SelectTrigger data-testid={`line-item-category-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPENSE_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      {groups.length > 0 && (
+        <div className="rounded-md bg-muted p-3 space-y-1 text-sm" data-testid="line-item-groups">
+          {groups.map(group => (
+            <div key={group.category} className="flex justify-between">
+              <span>{CATEGORY_LABELS[group.category]} ({group.items.length})</span>
+              <span>
+                ${group.amount.toFixed(2)}
+                {group.category === "meals" && (
+                  <span className="text-muted-foreground"> • ${getDeductibleAmount(group).toFixed(2)} deductible ({MEALS_DEDUCTIBLE_SHARE * 100}%)</span>
+                )}
+              </span>
+            </div>
+          ))}
+          {receiptTotal !== null && (
+            <p className="text-xs text-muted-foreground">Tax and other differences from the ${receiptTotal.toFixed(2)} total are shared across categories.</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="flex-1"
+          data-testid="save-line-items"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Items'}
+        </Button>
+        <Button
+          onClick={handleSplit}
+          disabled={items.length === 0 || splitMutation.isPending}
+          className="flex-1"
+          data-testid="split-receipt"
+        >
+          <Split className="w-4 h-4 mr-1" />
+          {splitMutation.isPending ? 'Splitting...' : 'Split by Category'}
+        </Button>
+      </div>
+      {splitMutation.isSuccess && (
+        <p className="text-sm text-green-700">Receipt split into {splitMutation.data.expenses.length} expenses.</p>
+      )}
+      {(saveMutation.error || splitMutation.error) && (
+        <p className="text-sm text-red-600">{(saveMutation.error || splitMutation.error)!.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Receipt } from "@shared/schema";
+
+type ReviewField = "merchant" | "amount" | "date" | "tax";
+
+interface ReceiptConfidence {
+  source: "ai" | "ocr";
+  fields: Partial<Record<ReviewField, number>>;
+}
+
+// Matches the server's review threshold
+const LOW_CONFIDENCE = 0.7;
+
+const FIELD_LABELS: Record<ReviewField, string> = {
+  merchant: "Merchant",
+  amount: "Amount",
+  date: "Date",
+  tax: "Tax"
+};
+
+function toDateInput(value: unknown): string {
+  if (!value) return "";
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) return "";
+  // Local calendar day; extracted dates like 03/04/2026 parse as local midnight
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function ReceiptReviewCard({ receipt }: { receipt: Receipt }) {
+  const queryClient = useQueryClient();
+  const extracted = (receipt.extractedData || {}) as Record<string, any>;
+  const confidence = receipt.confidence as ReceiptConfidence | null;
+  const [values, setValues] = useState<Record<ReviewField, string>>({
+    merchant: extracted.merchant || "",
+    amount: extracted.amount?.toString() || "",
+    date: toDateInput(extracted.date),
+    tax: extracted.tax?.toString() || ""
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/receipts/${receipt.id}/review`, {
+        merchant: values.merchant.trim() || null,
+        amount: parseFloat(values.amount),
+        date: values.date,
+        tax: values.tax ? parseFloat(values.tax) : null
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts/review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+    }
+  });
+
+  const renderConfidence = (field: ReviewField) => {
+    const score = confidence?.fields[field];
+    if (score === undefined) {
+      return <Badge variant="outline" className="text-xs">Not found</Badge>;
+    }
+    return (
+      <Badge variant={score < LOW_CONFIDENCE ? "destructive" : "secondary"} className="text-xs">
+        {Math.round(score * 100)}%
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3" data-testid={`review-receipt-${receipt.id}`}>
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>Uploaded {new Date(receipt.uploadDate).toLocaleDateString()}</span>
+        {confidence && <span>Read by {confidence.source === 'ai' ? 'AI' : 'OCR'}</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.keys(FIELD_LABELS) as ReviewField[]).map(field => (
+          <div key={field}>
+            <div className="flex items-center justify-between mb-1">
+              <Label className="text-sm font-medium">{FIELD_LABELS[field]}</Label>
+              {renderConfidence(field)}
+            </div>
+            <Input
+              type={field === 'date' ? 'date' : field === 'merchant' ? 'text' : 'number'}
+              step={field === 'amount' || field === 'tax' ? '0.01' : undefined}
+              value={values[field]}
+              onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+              data-testid={`review-${field}-${receipt.id}`}
+            />
+          </div>
+        ))}
+      </div>
+      <Button
+        size="sm"
+        onClick={() => confirmMutation.mutate()}
+        disabled={!values.amount || !values.date || confirmMutation.isPending}
+        data-testid={`confirm-review-${receipt.id}`}
+      >
+        <Check className="w-4 h-4 mr-1" />
+        {confirmMutation.isPending ? 'Saving...' : 'Confirm'}
+      </Button>
+      {confirmMutation.error && (
+        <p className="text-sm text-red-600">{confirmMutation.error.message}</p>
+      )}
+    </div>
+  );
+}
+
+// Receipts whose extracted fields scored low; confirming them records the corrections
+export function ReceiptReviewQueue() {
+  const { data: receipts = [] } = useQuery<Receipt[]>({
+    queryKey: ["/api/receipts/review"],
+  });
+
+  if (receipts.length === 0) return null;
+
+  return (
+    <Card data-testid="receipt-review-queue">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Needs Review</h3>
+          <Badge variant="secondary">{receipts.length}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          These receipts could not be read reliably. Check the highlighted fields and confirm.
+        </p>
+        {receipts.map(receipt => (
+          <ReceiptReviewCard key={receipt.id} receipt={receipt} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Route } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_OPTIMIZE_STOPS } from "@shared/routeOptimization";
+import { parseRowDate } from "@shared/scheduleMapping";
+
+// Mirrors the server's routeOptimizer result
+interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number;
+  duration: number;
+}
+
+interface RouteOptimization {
+  method: "exact" | "2-opt";
+  stops: { address: string; label: string }[];
+  optimizedOrder: number[];
+  originalMiles: number;
+  optimizedMiles: number;
+  milesSaved: number;
+  optimizedLegs: RouteLeg[];
+  apiCallsMade: number;
+  cacheHits: number;
+}
+
+interface RouteOptimizationEstimate {
+  pairs: number;
+  cachedPairs: number;
+  uncachedPairs: number;
+  estimatedCost: number;
+  remainingCalls: number | null;
+  withinBudget: boolean;
+}
+
+interface RouteOptimizerPreviewProps {
+  data: any[];
+  headerMapping: { date?: string; startAddress?: string };
+}
+
+export function RouteOptimizerPreview({ data, headerMapping }: RouteOptimizerPreviewProps) {
+  const [selectedDate, setSelectedDate] = useState<string>("");
+
+  // Stops per day in file order, for days that visit more than one place
+  const stopsByDate = useMemo(() => {
+    const days = new Map<string, string[]>();
+    if (!headerMapping.date || !headerMapping.startAddress) return days;
+    for (const row of data) {
+      const date = parseRowDate(row[headerMapping.date]);
+      const address = String(row[headerMapping.startAddress] ?? '').trim();
+      if (isNaN(date.getTime()) || !address) continue;
+      const key = date.toDateString();
+      if (!days.has(key)) days.set(key, []);
+      days.get(key)!.push(address);
+    }
+    Array.from(days.keys()).forEach(key => {
+      if (days.get(key)!.length < 2) days.delete(key);
+    });
+    return days;
+  }, [data, headerMapping]);
+
+  // Billed calls are estimated and confirmed before any are made; null when the user declines
+  const optimizeMutation = useMutation({
+    mutationFn: async (stops: string[]) => {
+      const estimateResponse = await apiRequest("POST", "/api/routes/optimize/estimate", { stops });
+      const estimate = await estimateResponse.json() as RouteOptimizationEstimate;
+      if (!estimate.withinBudget) {
+        throw new Error(`Optimizing this route needs about ${estimate.uncachedPairs} API calls but only ${estimate.remainingCalls} fit in this month's budget.`);
+      }
+      if (estimate.estimatedCost > 0 && !confirm(
+        `Optimizing this route needs ${estimate.uncachedPairs} routing API calls (about $${estimate.estimatedCost.toFixed(2)}); ${estimate.cachedPairs} are cached. Continue?`
+      )) {
+        return null;
+      }
+      const response = await apiRequest("POST", "/api/routes/optimize", { stops, confirmedApiCalls: estimate.uncachedPairs });
+      return response.json() as Promise<RouteOptimization>;
+    }
+  });
+
+  if (stopsByDate.size === 0) return null;
+
+  const stops = stopsByDate.get(selectedDate) || [];
+  const result = optimizeMutation.data;
+
+  const handleDateChange = (date: string) => {
+    setSelectedDate(date);
+    optimizeMutation.reset();
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3" data-testid="route-optimizer-preview">
+      <div>
+        <h4 className="font-medium">Optimize a Day's Route</h4>
+        <p className="text-sm text-muted-foreground">
+          Check whether visiting a day's stops in a different order would drive fewer miles.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={selectedDate} onValueChange={handleDateChange}>
+          <SelectTrigger className="flex-1" data-testid="optimize-date-select">
+            <SelectValue placeholder="Select a day" />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from(stopsByDate.entries()).map(([date, dayStops]) => (
+              <SelectItem key={date} value={date}>
+                {date} ({dayStops.length} stops)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => optimizeMutation.mutate(stops)}
+          disabled={stops.length < 2 || stops.length > MAX_OPTIMIZE_STOPS || optimizeMutation.isPending}
+          data-testid="optimize-route-btn"
+        >
+          <Route className="w-4 h-4 mr-2" />
+          {optimizeMutation.isPending ? 'Optimizing...' : 'Optimize route'}
+        </Button>
+      </div>
+
+      {stops.length > MAX_OPTIMIZE_STOPS && (
+        <p className="text-sm text-amber-600">Routes with more than {MAX_OPTIMIZE_STOPS} stops can't be optimized.</p>
+      )}
+
+      {optimizeMutation.error && (
+        <p className="text-sm text-red-600">{optimizeMutation.error.message}</p>
+      )}
+
+      {result && (
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-muted-foreground">File order</div>
+              <div className="font-medium">{result.originalMiles.toFixed(1)} mi</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Optimized</div>
+              <div className="font-medium">{result.optimizedMiles.toFixed(1)} mi</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Saved</div>
+              <div className="font-medium text-green-600">{result.milesSaved.toFixed(1)} mi</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{result.method === 'exact' ? 'Shortest route' : 'Approximate (2-opt)'}</Badge>
+            <span className="text-xs text-muted-foreground">
+              {result.apiCallsMade} API calls, {result.cacheHits} cached
+            </span>
+          </div>
+
+          {result.milesSaved > 0 ? (
+            <ol className="space-y-1">
+              {result.optimizedLegs.map((leg, index) => (
+                <li key={index} className="flex justify-between gap-4">
+                  <span className="truncate">{leg.from} → {leg.to}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">{leg.distance.toFixed(1)} mi</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-muted-foreground">The stops are already in the shortest order found.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { applyColumnMapping, SCHEDULE_FIELDS, type ScheduleColumnMapping, type ScheduleField, type ScheduleFieldMapping } from "@shared/scheduleMapping";
+import type { ScheduleImportTemplate } from "@shared/schema";
+
+const FIELD_LABELS: Record<ScheduleField, string> = {
+  date: "Date",
+  startAddress: "Address",
+  notes: "Notes"
+};
+
+const NO_COLUMN = "__none__";
+
+interface ScheduleColumnMapperProps {
+  headers: string[];
+  sampleRow?: Record<string, any>;
+  mapping: ScheduleColumnMapping;
+  onChange: (mapping: ScheduleColumnMapping) => void;
+  template: ScheduleImportTemplate | null;
+  onTemplateChange: (template: ScheduleImportTemplate | null) => void;
+}
+
+export function ScheduleColumnMapper({ headers, sampleRow, mapping, onChange, template, onTemplateChange }: ScheduleColumnMapperProps) {
+  const [templateName, setTemplateName] = useState(template?.name || "");
+
+  useEffect(() => {
+    setTemplateName(template?.name || "");
+  }, [template?.id]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: templateName.trim(), headers, mapping };
+      const response = template
+        ? await apiRequest("PATCH", `/api/schedule/templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/schedule/templates", body);
+      return response.json() as Promise<ScheduleImportTemplate>;
+    },
+    onSuccess: (saved) => onTemplateChange(saved)
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      await apiRequest("DELETE", `/api/schedule/templates/${templateId}`);
+    },
+    onSuccess: () => onTemplateChange(null)
+  });
+
+  const sample = sampleRow ? applyColumnMapping([sampleRow], mapping) : null;
+  const getSampleValue = (field: ScheduleField) => {
+    const column = sample?.headerMapping[field];
+    return column ? String(sample!.data[0][column] ?? '') : '';
+  };
+
+  const updateField = (field: ScheduleField, updates: Partial<ScheduleFieldMapping>) => {
+    const current = mapping[field] || { columns: [] };
+    onChange({ ...mapping, [field]: { ...current, ...updates } });
+  };
+
+  const setColumn = (field: ScheduleField, index: number, column: string) => {
+    const columns = [...(mapping[field]?.columns || [])];
+    if (column === NO_COLUMN) {
+      columns.splice(index, 1);
+    } else {
+      columns[index] = column;
+    }
+    updateField(field, { columns });
+  };
+
+  const renderField = (field: ScheduleField) => {
+    const fieldMapping = mapping[field] || { columns: [] };
+    const columns = fieldMapping.columns.length > 0 ? fieldMapping.columns : [NO_COLUMN];
+    const sampleValue = getSampleValue(field);
+
+    return (
+      <div key={field} className="space-y-2 border rounded-md p-3" data-testid={`column-mapping-${field}`}>
+        <Label className="text-sm font-medium">{FIELD_LABELS[field]}</Label>
+        {columns.map((column, index) => (
+          <div key={index} className="flex gap-2">
+            <Select value={column} onValueChange={(value) => setColumn(field, index, value)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select a column" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>Not mapped</SelectItem>
+                {headers.map(header => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {index > 0 && (
+              <Button variant="ghost" size="icon" onClick={() => setColumn(field, index, NO_COLUMN)}>
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {field !== 'date' && fieldMapping.columns.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateField(field, { columns: [...fieldMapping.columns, headers[0]] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Combine another column
+          </Button>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {field === 'date' ? (
+            <Input
+              value={fieldMapping.dateFormat || ''}
+              onChange={(e) => updateField(field, { dateFormat: e.target.value || undefined })}
+              placeholder="Date format, e.g. M/D/YY"
+            />
+          ) : (
+            <Input
+              value={fieldMapping.separator ?? ''}
+              onChange={(e) => updateField(field, { separator: e.target.value || undefined })}
+              placeholder="Separator (default: , )"
+            />
+          )}
+          <Input
+            value={fieldMapping.constant || ''}
+            onChange={(e) => updateField(field, { constant: e.target.value || undefined })}
+            placeholder={field === 'startAddress' ? 'Fixed value, e.g. state' : 'Fixed value'}
+          />
+        </div>
+        {sampleValue && (
+          <p className="text-xs text-muted-foreground truncate">First row: {sampleValue}</p>
+        )}
+      </div>
+    );
+  };
+
+  const templateError = saveTemplateMutation.error || deleteTemplateMutation.error;
+
+  return (
+    <div className="space-y-3" data-testid="schedule-column-mapper">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium">Column Mapping</h4>
+        {template && <Badge variant="secondary">Template: {template.name}</Badge>}
+      </div>
+
+      {SCHEDULE_FIELDS.map(renderField)}
+
+      <div className="flex flex-wrap gap-2">
+        <Input
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="Template name, e.g. Dispatch export"
+          className="flex-1 min-w-[12rem]"
+          data-testid="template-name"
+        />
+        <Button
+          variant="outline"
+          onClick={() => saveTemplateMutation.mutate()}
+          disabled={!templateName.trim() || saveTemplateMutation.isPending}
+          data-testid="save-import-template"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {template ? 'Update template' : 'Save as template'}
+        </Button>
+        {template && (
+          <Button
+            variant="ghost"
+            onClick={() => deleteTemplateMutation.mutate(template.id)}
+            disabled={deleteTemplateMutation.isPending}
+            data-testid="delete-import-template"
+          >
+            Forget template
+          </Button>
+        )}
+      </div>
+      {templateError && (
+        <p className="text-sm text-red-600">{templateError.message}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Files with the same columns will use a saved template automatically.
+      </p>
+    </div>
+  );
+}
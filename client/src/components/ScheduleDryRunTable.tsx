@@ -0,0 +1,152 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+// Mirrors the server's previewSchedulePlan result
+interface DryRunLeg {
+  from: string;
+  to: string;
+  status: "cached" | "uncached" | "skipped";
+  distance: number | null;
+  commute: boolean;
+  error?: string;
+}
+
+interface AddressIssue {
+  address: string;
+  status: "incomplete" | "ambiguous";
+  reason: string;
+}
+
+interface DryRunDay {
+  date: string;
+  status: "process" | "off_day";
+  stops: string[];
+  notes: string[];
+  hotelStay: boolean;
+  mergesWithExisting: boolean;
+  addressIssues: AddressIssue[];
+  legs: DryRunLeg[];
+  miles: number | null;
+  commuteMiles: number | null;
+  estimatedAmount: number | null;
+}
+
+export interface ScheduleDryRun {
+  days: DryRunDay[];
+  skippedDates: string[];
+  totals: {
+    days: number;
+    offDays: number;
+    hotelStays: number;
+    legs: number;
+    cachedLegs: number;
+    uncachedLegs: number;
+    skippedLegs: number;
+    knownMiles: number;
+    knownAmount: number;
+    daysMissingMiles: number;
+    estimatedCost: number;
+    addressIssues: number;
+  };
+  remainingCalls: number | null;
+  withinBudget: boolean;
+}
+
+function formatMiles(miles: number | null): string {
+  return miles === null ? '—' : miles.toFixed(1);
+}
+
+export function ScheduleDryRunTable({ dryRun }: { dryRun: ScheduleDryRun }) {
+  const { totals } = dryRun;
+
+  return (
+    <div className="mt-4 space-y-3" data-testid="schedule-dry-run">
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div><strong>Days:</strong> {totals.days} ({totals.offDays} off, {totals.hotelStays} hotel)</div>
+        <div><strong>Already imported:</strong> {dryRun.skippedDates.length} days</div>
+        <div><strong>Legs:</strong> {totals.cachedLegs} cached, {totals.uncachedLegs} to compute, {totals.skippedLegs} skipped</div>
+        <div><strong>API cost:</strong> ${totals.estimatedCost.toFixed(2)}</div>
+        <div><strong>Miles:</strong> {totals.knownMiles.toFixed(1)}{totals.daysMissingMiles > 0 && '+'}</div>
+        <div><strong>Amount:</strong> ${totals.knownAmount.toFixed(2)}{totals.daysMissingMiles > 0 && '+'}</div>
+      </div>
+      {totals.daysMissingMiles > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Miles for {totals.daysMissingMiles} day(s) are only known after their uncached legs are routed.
+        </p>
+      )}
+      {totals.addressIssues > 0 && (
+        <p className="text-xs text-amber-700">
+          {totals.addressIssues} address(es) are incomplete or ambiguous and may be routed to the wrong place or fail. Fix the column mapping or the file before processing.
+        </p>
+      )}
+
+      <div className="max-h-96 overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Route</TableHead>
+              <TableHead className="text-right">Miles</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dryRun.days.map(day => (
+              <TableRow key={day.date}>
+                <TableCell className="whitespace-nowrap align-top">{day.date}</TableCell>
+                <TableCell className="align-top space-y-1">
+                  {day.status === 'off_day'
+                    ? <Badge variant="secondary">Off day</Badge>
+                    : <Badge variant="outline">Process</Badge>}
+                  {day.hotelStay && <Badge variant="outline" className="border-orange-300 text-orange-700">Hotel</Badge>}
+                  {day.mergesWithExisting && <Badge variant="outline">Merges</Badge>}
+                  {day.status === 'process' && day.addressIssues.length > 0 && (
+                    <Badge variant="outline" className="border-amber-300 text-amber-700">Check address</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="align-top">
+                  {day.status === 'off_day' ? (
+                    <span className="text-muted-foreground">{day.notes.join(', ')}</span>
+                  ) : (
+                    <div className="space-y-0.5 text-xs">
+                      {day.addressIssues.map((issue, index) => (
+                        <div key={`issue-${index}`} className="text-amber-700">
+                          {issue.address || '(blank)'}: {issue.reason}
+                        </div>
+                      ))}
+                      {day.legs.map((leg, index) => (
+                        <div key={index} className={leg.status === 'skipped' ? 'text-muted-foreground line-through' : ''}>
+                          {leg.from} → {leg.to}
+                          <span className="ml-1 text-muted-foreground">
+                            ({leg.status}{leg.commute && ', commute'}{leg.distance !== null && leg.status !== 'skipped' && `, ${leg.distance.toFixed(1)} mi`})
+                          </span>
+                          {leg.error && <span className="ml-1 text-red-600">{leg.error}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right align-top">
+                  {formatMiles(day.miles)}
+                  {!!day.commuteMiles && (
+                    <div className="text-xs text-muted-foreground">{day.commuteMiles.toFixed(1)} commute</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right align-top">
+                  {day.estimatedAmount === null ? '—' : `$${day.estimatedAmount.toFixed(2)}`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {dryRun.skippedDates.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Skipped, already imported: {dryRun.skippedDates.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import moment from "moment";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+// The fields the editor reads from an existing day
+export interface EditableScheduleEntry {
+  id: string;
+  date: string;
+  startAddress: string;
+  endAddress?: string | null;
+  stops?: string[] | null;
+  notes?: string | null;
+  isHotelStay?: boolean | null;
+  isOffDay?: boolean | null;
+}
+
+interface ScheduleEntryEditorProps {
+  entry: EditableScheduleEntry | null; // null adds a new day
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export function ScheduleEntryEditor({ entry, open, onOpenChange, onSaved }: ScheduleEntryEditorProps) {
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState("");
+  const [startAddress, setStartAddress] = useState("");
+  const [stops, setStops] = useState<string[]>([]);
+  const [endAddress, setEndAddress] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isHotelStay, setIsHotelStay] = useState(false);
+  const [isOffDay, setIsOffDay] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDate(entry ? moment(entry.date).format('YYYY-MM-DD') : moment().format('YYYY-MM-DD'));
+    setStartAddress(entry?.startAddress || "");
+    setStops(entry?.stops || []);
+    setEndAddress(entry?.endAddress || "");
+    setNotes(entry?.notes || "");
+    setIsHotelStay(!!entry?.isHotelStay);
+    setIsOffDay(!!entry?.isOffDay);
+  }, [entry, open]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        date: moment(date, 'YYYY-MM-DD').toDate().toISOString(),
+        startAddress: startAddress.trim(),
+        stops: stops.map(stop => stop.trim()).filter(Boolean),
+        endAddress: endAddress.trim() || null,
+        notes: notes.trim() || null,
+        isHotelStay,
+        isOffDay,
+        recalculate: true
+      };
+      if (entry) {
+        await apiRequest("PATCH", `/api/schedule/${entry.id}`, body);
+      } else {
+        await apiRequest("POST", "/api/schedule", body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      onSaved?.();
+      onOpenChange(false);
+    }
+  });
+
+  const updateStop = (index: number, value: string) => {
+    setStops(current => current.map((stop, i) => i === index ? value : stop));
+  };
+
+  const removeStop = (index: number) => {
+    setStops(current => current.filter((_, i) => i !== index));
+  };
+
+  const canSave = !!date && !!startAddress.trim() && !saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" data-testid="schedule-entry-editor">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Day' : 'Add Day'}</DialogTitle>
+          <DialogDescription>
+            Saving recalculates the day's miles with your distance provider. Saved place names can be used as addresses.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="text-sm">Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="entry-date" />
+          </div>
+
+          <div>
+            <Label className="text-sm">Start</Label>
+            <Input
+              value={startAddress}
+              onChange={(e) => setStartAddress(e.target.value)}
+              placeholder="Address or place name"
+              data-testid="entry-start-address"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Stops</Label>
+            {stops.map((stop, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={stop}
+                  onChange={(e) => updateStop(index, e.target.value)}
+                  placeholder={`Stop ${index + 1}`}
+                  data-testid={`entry-stop-${index}`}
+                />
+                <Button variant="ghost" size="icon" onClick={() => removeStop(index)} data-testid={`remove-stop-${index}`}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setStops([...stops, ""])} data-testid="add-stop">
+              <Plus className="w-4 h-4 mr-1" />
+              Add stop
+            </Button>
+          </div>
+
+          <div>
+            <Label className="text-sm">End</Label>
+            <Input
+              value={endAddress}
+              onChange={(e) => setEndAddress(e.target.value)}
+              placeholder={isHotelStay ? "Hotel address" : "Leave blank to end at the last stop"}
+              data-testid="entry-end-address"
+            />
+          </div>
+
+          <div>
+            <Label className="text-sm">Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} data-testid="entry-notes" />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Hotel stay (the day ends at the hotel)</Label>
+            <Switch checked={isHotelStay} onCheckedChange={setIsHotelStay} data-testid="entry-hotel-stay" />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Off day (no business miles)</Label>
+            <Switch checked={isOffDay} onCheckedChange={setIsOffDay} data-testid="entry-off-day" />
+          </div>
+
+          {saveMutation.error && (
+            <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!canSave} data-testid="save-schedule-entry">
+              {saveMutation.isPending ? 'Saving...' : 'Save & Recalculate'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,7 +6,8 @@ import { MapPin, Clock, DollarSign } from "lucide-react";
 import type { Trip, Expense } from "@shared/schema";
 
 export function DashboardTab() {
-  const { data: trips = [] } = useQuery<Trip[]>({
+  // Each trip carries the mileage rate in effect on its date
+  const { data: trips = [] } = useQuery<Array<Trip & { mileageRate: number }>>({
     queryKey: ["/api/trips"],
   });
 
@@ -127,7 +128,7 @@ export function DashboardTab() {
                 <div className="text-right">
                   <div className="font-medium flex items-center gap-1">
                     <DollarSign className="w-4 h-4" />
-                    {((trip.distance || 0) * 0.655).toFixed(2)}
+                    {((trip.distance || 0) * trip.mileageRate).toFixed(2)}
                   </div>
                   <div className="text-sm text-muted-foreground">Mileage</div>
                 </div>
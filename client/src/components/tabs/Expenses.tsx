@@ -7,15 +7,21 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Save, Camera, Image, Fuel, Utensils, Car, Eye, Edit2, Trash2, X } from "lucide-react";
+import { Save, Camera, Image, Fuel, Utensils, Car, Eye, Edit2, Trash2, X, Link2 } from "lucide-react";
 import { useCamera } from "@/hooks/useCamera";
 import { apiRequest } from "@/lib/queryClient";
 import { localImageStorage } from "@/lib/localImageStorage";
-import type { Expense } from "@shared/schema";
+import { ReceiptReviewQueue } from "@/components/ReceiptReviewQueue";
+import { ReceiptLineItemsEditor } from "@/components/ReceiptLineItemsEditor";
+import { MEALS_DEDUCTIBLE_SHARE } from "@shared/receiptLineItems";
+import type { Expense, Vehicle } from "@shared/schema";
+
+const NO_EXPENSE = "__none__";
 
 export function ExpensesTab() {
   const [amount, setAmount] = useState("");
   const [category, setCategory] = useState("gas");
+  const [expenseVehicleId, setExpenseVehicleId] = useState("");
   const [merchant, setMerchant] = useState("");
   const [notes, setNotes] = useState("");
   const [expenseDate, setExpenseDate] = useState(new Date().toISOString().split('T')[0]);
@@ -24,6 +30,10 @@ export function ExpensesTab() {
   const [editingReceipt, setEditingReceipt] = useState<any>(null);
   const [editMerchant, setEditMerchant] = useState("");
   const [editAmount, setEditAmount] = useState("");
+  // Receipt the quick entry form was filled from; the saved expense is linked to it
+  const [scannedReceiptId, setScannedReceiptId] = useState<string | null>(null);
+  const [receiptMatchStatus, setReceiptMatchStatus] = useState<string | null>(null);
+  const [receiptNeedsReview, setReceiptNeedsReview] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [editExpenseAmount, setEditExpenseAmount] = useState("");
   const [editExpenseCategory, setEditExpenseCategory] = useState("");
@@ -41,6 +51,10 @@ export function ExpensesTab() {
     queryKey: ["/api/receipts"],
   });
 
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
   const deleteReceiptMutation = useMutation({
     mutationFn: async (receiptId: string) => {
       const response = await fetch(`/api/receipts/${receiptId}`, {
@@ -77,8 +91,11 @@ export function ExpensesTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      setScannedReceiptId(null);
       setAmount("");
       setCategory("");
+      setExpenseVehicleId("");
       setMerchant("");
       setNotes("");
       setExpenseDate(new Date().toISOString().split('T')[0]);
@@ -106,15 +123,32 @@ export function ExpensesTab() {
     },
   });
 
+  const linkReceiptMutation = useMutation({
+    mutationFn: async ({ receiptId, expenseId }: { receiptId: string; expenseId: string | null }) => {
+      const response = expenseId
+        ? await apiRequest("POST", `/api/receipts/${receiptId}/link`, { expenseId })
+        : await apiRequest("POST", `/api/receipts/${receiptId}/unlink`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      setEditingReceipt(null);
+    },
+  });
+
   const handleSaveExpense = () => {
     if (!amount || !category) return;
     
     createExpenseMutation.mutate({
       amount: parseFloat(amount),
       category,
+      // Fuel without a vehicle is assigned to the default vehicle by the server
+      vehicleId: category === 'gas' ? expenseVehicleId || null : null,
       merchant: merchant || null,
       notes: notes || null,
       date: new Date(expenseDate).toISOString(),
+      receiptId: scannedReceiptId,
     });
   };
 
@@ -212,9 +246,18 @@ export function ExpensesTab() {
       
       if (response.ok) {
         const receiptData = await response.json();
+        setReceiptMatchStatus(receiptData.match?.status || null);
+        setReceiptNeedsReview(receiptData.reviewStatus === 'needs_review');
         
-        // Pre-fill expense form with extracted OCR data
-        if (receiptData.extractedData) {
+        // Matched to an expense already on file; nothing to enter
+        if (receiptData.match?.status === 'linked') {
+          queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+        } else if (receiptData.extractedData) {
+          // Pre-fill expense form with extracted OCR data
+          setScannedReceiptId(receiptData.id);
+          if (receiptData.match?.proposal) {
+            setCategory(receiptData.match.proposal.category);
+          }
           if (receiptData.extractedData.amount) {
             setAmount(receiptData.extractedData.amount.toString());
           }
@@ -234,6 +277,7 @@ export function ExpensesTab() {
         }
         
         queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/receipts/review"] });
         setUploadSuccess(true);
         
         // Clear success message after 5 seconds
@@ -327,6 +371,22 @@ export function ExpensesTab() {
               </div>
             </div>
             
+            {category === 'gas' && vehicles.length > 0 && (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Vehicle</Label>
+                <Select value={expenseVehicleId} onValueChange={setExpenseVehicleId}>
+                  <SelectTrigger data-testid="expense-vehicle">
+                    <SelectValue placeholder="Default vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
             <div>
               <Label className="text-sm font-medium mb-2 block">Merchant</Label>
               <Input
@@ -422,8 +482,15 @@ export function ExpensesTab() {
               <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                 <p className="text-sm text-green-800 font-medium">✓ Receipt processed successfully!</p>
                 <p className="text-xs text-green-600 mt-1">
-                  Form has been pre-filled with extracted data. Check the Expenses tab to see your receipt.
+                  {receiptMatchStatus === 'linked'
+                    ? 'Receipt was matched to an existing expense and linked to it.'
+                    : 'Form has been pre-filled with extracted data. Saving the expense links it to this receipt.'}
                 </p>
+                {receiptNeedsReview && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Some fields could not be read reliably. Please check them before saving.
+                  </p>
+                )}
               </div>
             )}
             
@@ -435,12 +502,14 @@ export function ExpensesTab() {
             )}
             
             <p className="text-xs text-muted-foreground">
-              OCR will automatically extract merchant, date, amount, and tax information
+              Photos, HEIC images and PDFs are accepted. OCR will automatically extract merchant, date, amount, and tax information
             </p>
           </div>
         </CardContent>
       </Card>
 
+      <ReceiptReviewQueue />
+
       {/* Recent Receipts */}
       {receipts.length > 0 && (
         <Card data-testid="recent-receipts">
@@ -451,9 +520,9 @@ export function ExpensesTab() {
               {receipts.slice(0, 6).map((receipt: any) => (
                 <Card key={receipt.id} className="overflow-hidden shadow-sm">
                   <div className="aspect-[3/4] bg-muted relative">
-                    {receipt.imageUrl ? (
+                    {receipt.pageThumbnails?.[0] || receipt.imageUrl ? (
                       <img 
-                        src={receipt.imageUrl} 
+                        src={receipt.pageThumbnails?.[0] || receipt.imageUrl} 
                         alt="Receipt scan" 
                         className="w-full h-full object-cover"
                       />
@@ -462,6 +531,11 @@ export function ExpensesTab() {
                         <div className="text-muted-foreground text-xs">No Image</div>
                       </div>
                     )}
+                    {receipt.pageThumbnails?.length > 1 && (
+                      <Badge variant="secondary" className="absolute bottom-2 left-2 text-xs">
+                        {receipt.pageThumbnails.length} pages
+                      </Badge>
+                    )}
                     <div className="absolute top-2 right-2 flex gap-1">
                       <Button
                         size="sm"
@@ -493,7 +567,12 @@ export function ExpensesTab() {
                     <div className="text-xs text-muted-foreground">
                       {new Date(receipt.uploadDate).toLocaleDateString()}
                     </div>
-                    {receipt.extractedData && (
+                    {receipt.expenseId ? (
+                      <Badge variant="secondary" className="text-xs mt-1">
+                        <Link2 className="w-3 h-3 mr-1" />
+                        Linked
+                      </Badge>
+                    ) : receipt.extractedData && (
                       <Badge variant="secondary" className="text-xs mt-1">
                         OCR Processed
                       </Badge>
@@ -515,7 +594,7 @@ export function ExpensesTab() {
       {/* Edit Receipt Modal */}
       {editingReceipt && (
         <Card className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" data-testid="edit-receipt-modal">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+          <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">Edit Receipt</h3>
               <Button
@@ -550,6 +629,35 @@ export function ExpensesTab() {
                   data-testid="edit-amount-input"
                 />
               </div>
+
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Linked Expense</Label>
+                <Select
+                  value={editingReceipt.expenseId || NO_EXPENSE}
+                  onValueChange={(value) => linkReceiptMutation.mutate({
+                    receiptId: editingReceipt.id,
+                    expenseId: value === NO_EXPENSE ? null : value
+                  })}
+                  disabled={linkReceiptMutation.isPending}
+                >
+                  <SelectTrigger data-testid="edit-receipt-expense">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EXPENSE}>Not linked</SelectItem>
+                    {expenses.map((expense) => (
+                      <SelectItem key={expense.id} value={expense.id}>
+                        {new Date(expense.date).toLocaleDateString()} • {expense.merchant || expense.category} • ${expense.amount.toFixed(2)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {linkReceiptMutation.error && (
+                  <p className="text-sm text-red-600 mt-1">{linkReceiptMutation.error.message}</p>
+                )}
+              </div>
+
+              <ReceiptLineItemsEditor key={editingReceipt.id} receipt={editingReceipt} onSaved={setEditingReceipt} />
               
               <div className="flex gap-2 pt-2">
                 <Button
@@ -674,6 +782,9 @@ export function ExpensesTab() {
                     </div>
                     <div className="text-right">
                       <div className="font-medium">${expense.amount.toFixed(2)}</div>
+                      {expense.category === 'meals' && (
+                        <div className="text-xs text-muted-foreground">{MEALS_DEDUCTIBLE_SHARE * 100}% deductible</div>
+                      )}
                       {expense.receiptId && (
                         <Badge variant="secondary" className="text-xs mt-1">
                           Receipt
@@ -104,9 +104,9 @@ export function ReceiptsTab() {
             {filteredReceipts.map((receipt: any) => (
               <Card key={receipt.id} className="overflow-hidden shadow-sm">
                 <div className="aspect-[3/4] bg-muted relative">
-                  {receipt.imageUrl ? (
+                  {receipt.pageThumbnails?.[0] || receipt.imageUrl ? (
                     <img 
-                      src={receipt.imageUrl} 
+                      src={receipt.pageThumbnails?.[0] || receipt.imageUrl} 
                       alt="Receipt scan" 
                       className="w-full h-full object-cover"
                     />
@@ -115,6 +115,11 @@ export function ReceiptsTab() {
                       <div className="text-muted-foreground text-xs">No Image</div>
                     </div>
                   )}
+                  {receipt.pageThumbnails?.length > 1 && (
+                    <Badge variant="secondary" className="absolute bottom-2 left-2 text-xs">
+                      {receipt.pageThumbnails.length} pages
+                    </Badge>
+                  )}
                   <Button
                     size="sm"
                     variant="secondary"
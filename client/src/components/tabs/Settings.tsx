@@ -5,24 +5,64 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { Eye, EyeOff, Download, FileX, Trash2, ExternalLink, Share2, Users, LogOut, Camera, MapPin, Settings, CheckCircle, XCircle, AlertCircle, Edit3 } from "lucide-react";
+import { Eye, EyeOff, Download, FileX, Trash2, ExternalLink, Share2, Users, LogOut, Camera, MapPin, Settings, CheckCircle, XCircle, AlertCircle, Edit3, Car, Star, Crosshair } from "lucide-react";
 import { useTheme } from "@/components/ThemeProvider";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { localImageStorage } from "@/lib/localImageStorage";
-import type { AppSettings, YearlyRate } from "@shared/schema";
+import type { AppSettings, YearlyRate, Vehicle, Place } from "@shared/schema";
+
+interface VehicleUsageSummary {
+  vehicleId: string | null;
+  year: number;
+  startOdometer: number | null;
+  endOdometer: number | null;
+  totalMiles: number | null;
+  businessMiles: number;
+  businessUsePercent: number | null;
+}
+
+interface ApiBudgetStatus {
+  callLimit: number | null;
+  costLimit: number | null;
+  billedCalls: number;
+  billedCost: number;
+  percentUsed: number | null;
+  alert: boolean;
+  exceeded: boolean;
+}
 
 export function SettingsTab() {
   const [showApiKey, setShowApiKey] = useState(false);
   const [showOpenAIKey, setShowOpenAIKey] = useState(false);
   const [apiKey, setApiKey] = useState("");
   const [openaiApiKey, setOpenaiApiKey] = useState("");
+  const [receiptProvider, setReceiptProvider] = useState("openai");
+  const [receiptServiceUrl, setReceiptServiceUrl] = useState("");
+  const [receiptServiceApiKey, setReceiptServiceApiKey] = useState("");
+  const [receiptModel, setReceiptModel] = useState("");
+  const [receiptPrompt, setReceiptPrompt] = useState("");
   const [mileageRate, setMileageRate] = useState("0.655");
   const [defaultStartAddress, setDefaultStartAddress] = useState("");
   const [defaultEndAddress, setDefaultEndAddress] = useState("");
+  const [defaultStartPlaceId, setDefaultStartPlaceId] = useState("");
+  const [commutePolicy, setCommutePolicy] = useState("home_office");
+  const [normalCommuteMiles, setNormalCommuteMiles] = useState("");
+  const [defaultEndPlaceId, setDefaultEndPlaceId] = useState("");
+  const [distanceProvider, setDistanceProvider] = useState("google");
+  const [routingServiceUrl, setRoutingServiceUrl] = useState("");
+  const [geocodingServiceUrl, setGeocodingServiceUrl] = useState("");
+  const [geocodingProvider, setGeocodingProvider] = useState("none");
+  const [roadFactor, setRoadFactor] = useState("1.2");
+  const [routeCacheTtlDays, setRouteCacheTtlDays] = useState("90");
+  const [monthlyApiCallBudget, setMonthlyApiCallBudget] = useState("");
+  const [monthlyApiCostBudget, setMonthlyApiCostBudget] = useState("");
+  const [apiBudgetAlertPercent, setApiBudgetAlertPercent] = useState("80");
   const [shareCode, setShareCode] = useState("");
   const [importShareCode, setImportShareCode] = useState("");
   const [cameraPermission, setCameraPermission] = useState<PermissionState | null>(null);
@@ -30,9 +70,24 @@ export function SettingsTab() {
   const [showErrorLog, setShowErrorLog] = useState(false);
   const [newYear, setNewYear] = useState("");
   const [newRate, setNewRate] = useState("");
+  const [newEffectiveDate, setNewEffectiveDate] = useState("");
+  const [newMedicalRate, setNewMedicalRate] = useState("");
+  const [newMovingRate, setNewMovingRate] = useState("");
   const [editingRate, setEditingRate] = useState<string | null>(null);
   const [editRate, setEditRate] = useState("");
   const [editYear, setEditYear] = useState("");
+  const [editMedicalRate, setEditMedicalRate] = useState("");
+  const [editMovingRate, setEditMovingRate] = useState("");
+  const [newVehicleName, setNewVehicleName] = useState("");
+  const [newVehicleMake, setNewVehicleMake] = useState("");
+  const [newVehicleModel, setNewVehicleModel] = useState("");
+  const [newVehiclePlate, setNewVehiclePlate] = useState("");
+  const [newVehicleInServiceDate, setNewVehicleInServiceDate] = useState("");
+  const [newPlaceName, setNewPlaceName] = useState("");
+  const [newPlaceAddress, setNewPlaceAddress] = useState("");
+  const [newPlaceRadius, setNewPlaceRadius] = useState("150");
+  const [newPlaceCoordinates, setNewPlaceCoordinates] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [odometerDrafts, setOdometerDrafts] = useState<Record<string, { startOdometer: string; endOdometer: string }>>({});
   
   const { theme, toggleTheme } = useTheme();
   const { user } = useAuth();
@@ -46,14 +101,45 @@ export function SettingsTab() {
     queryKey: ["/api/yearly-rates"],
   });
 
+  const { data: places = [] } = useQuery<Place[]>({
+    queryKey: ["/api/places"],
+  });
+
+  const currentYear = new Date().getFullYear();
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const { data: vehicleUsage = [] } = useQuery<VehicleUsageSummary[]>({
+    queryKey: [`/api/vehicles/usage?year=${currentYear}`],
+  });
+
   // Update form data when settings are loaded - using useEffect instead of render-time logic
   useEffect(() => {
     if (settings) {
       setApiKey(settings.googleApiKey || "");
       setOpenaiApiKey(settings.openaiApiKey || "");
+      setReceiptProvider(settings.receiptProvider || "openai");
+      setReceiptServiceUrl(settings.receiptServiceUrl || "");
+      setReceiptServiceApiKey(settings.receiptServiceApiKey || "");
+      setReceiptModel(settings.receiptModel || "");
+      setReceiptPrompt(settings.receiptPrompt || "");
       setMileageRate(settings.mileageRate?.toString() || "0.655");
       setDefaultStartAddress(settings.defaultStartAddress || "");
       setDefaultEndAddress(settings.defaultEndAddress || "");
+      setDefaultStartPlaceId(settings.defaultStartPlaceId || "");
+      setCommutePolicy(settings.commutePolicy || "home_office");
+      setNormalCommuteMiles(settings.normalCommuteMiles?.toString() || "");
+      setDefaultEndPlaceId(settings.defaultEndPlaceId || "");
+      setDistanceProvider(settings.distanceProvider || "google");
+      setRoutingServiceUrl(settings.routingServiceUrl || "");
+      setGeocodingServiceUrl(settings.geocodingServiceUrl || "");
+      setGeocodingProvider(settings.geocodingProvider || "none");
+      setRoadFactor(settings.roadFactor?.toString() || "1.2");
+      setRouteCacheTtlDays(settings.routeCacheTtlDays?.toString() ?? "90");
+      setMonthlyApiCallBudget(settings.monthlyApiCallBudget?.toString() ?? "");
+      setMonthlyApiCostBudget(settings.monthlyApiCostBudget?.toString() ?? "");
+      setApiBudgetAlertPercent(settings.apiBudgetAlertPercent?.toString() ?? "80");
     }
   }, [settings]);
 
@@ -85,9 +171,10 @@ export function SettingsTab() {
   });
 
   const currentMonth = new Date().toISOString().slice(0, 7);
-  const { data: apiUsage } = useQuery<{totalCalls: number, totalCost: number, usage: any[], month: string}>({
+  const { data: apiUsage } = useQuery<{totalCalls: number, totalCost: number, cacheHits: number, usage: any[], budget: ApiBudgetStatus, month: string}>({
     queryKey: ["/api/usage", currentMonth],
   });
+  const budget = apiUsage?.budget;
 
   const saveSettingsMutation = useMutation({
     mutationFn: async (settingsData: any) => {
@@ -96,6 +183,7 @@ export function SettingsTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
     },
   });
 
@@ -127,7 +215,7 @@ export function SettingsTab() {
   });
 
   const createYearlyRateMutation = useMutation({
-    mutationFn: async (rateData: { year: number; mileageRate: number }) => {
+    mutationFn: async (rateData: { year: number; mileageRate: number; medicalRate: number | null; movingRate: number | null; effectiveDate: string | null }) => {
       const response = await apiRequest("POST", "/api/yearly-rates", rateData);
       return response.json();
     },
@@ -135,12 +223,15 @@ export function SettingsTab() {
       queryClient.invalidateQueries({ queryKey: ["/api/yearly-rates"] });
       setNewYear("");
       setNewRate("");
+      setNewEffectiveDate("");
+      setNewMedicalRate("");
+      setNewMovingRate("");
     },
   });
 
   const updateYearlyRateMutation = useMutation({
-    mutationFn: async ({ id, year, mileageRate }: { id: string; year: number; mileageRate: number }) => {
-      const response = await apiRequest("PUT", `/api/yearly-rates/${id}`, { year, mileageRate });
+    mutationFn: async ({ id, ...rateData }: { id: string; year: number; mileageRate: number; medicalRate: number | null; movingRate: number | null }) => {
+      const response = await apiRequest("PUT", `/api/yearly-rates/${id}`, rateData);
       return response.json();
     },
     onSuccess: () => {
@@ -151,6 +242,17 @@ export function SettingsTab() {
     },
   });
 
+  const recomputeAmountsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/yearly-rates/recompute");
+      return response.json() as Promise<{ updatedCount: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+    },
+  });
+
   const deleteYearlyRateMutation = useMutation({
     mutationFn: async (id: string) => {
       const response = await apiRequest("DELETE", `/api/yearly-rates/${id}`);
@@ -161,6 +263,78 @@ export function SettingsTab() {
     },
   });
 
+  const createPlaceMutation = useMutation({
+    mutationFn: async (placeData: { name: string; address: string | null; latitude: number | null; longitude: number | null; radiusMeters: number }) => {
+      const response = await apiRequest("POST", "/api/places", placeData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/places"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      setNewPlaceName("");
+      setNewPlaceAddress("");
+      setNewPlaceRadius("150");
+      setNewPlaceCoordinates(null);
+    },
+  });
+
+  const deletePlaceMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/places/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/places"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
+  const createVehicleMutation = useMutation({
+    mutationFn: async (vehicleData: { name: string; make: string | null; model: string | null; licensePlate: string | null; placedInServiceDate: string | null }) => {
+      const response = await apiRequest("POST", "/api/vehicles", vehicleData);
+      return response.json() as Promise<Vehicle>;
+    },
+    onSuccess: (vehicle) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      // The first vehicle becomes the default for new trips
+      if (vehicles.length === 0) {
+        saveSettingsMutation.mutate({ defaultVehicleId: vehicle.id });
+      }
+      setNewVehicleName("");
+      setNewVehicleMake("");
+      setNewVehicleModel("");
+      setNewVehiclePlate("");
+      setNewVehicleInServiceDate("");
+    },
+  });
+
+  const deleteVehicleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/vehicles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/vehicles/usage?year=${currentYear}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
+  const saveOdometerMutation = useMutation({
+    mutationFn: async ({ vehicleId, startOdometer, endOdometer }: { vehicleId: string; startOdometer: string; endOdometer: string }) => {
+      const response = await apiRequest("PUT", `/api/vehicles/${vehicleId}/odometer/${currentYear}`, { startOdometer, endOdometer });
+      return response.json();
+    },
+    onSuccess: (_reading, { vehicleId }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vehicles/usage?year=${currentYear}`] });
+      setOdometerDrafts(drafts => {
+        const { [vehicleId]: _saved, ...rest } = drafts;
+        return rest;
+      });
+    },
+  });
+
   const generateShareCodeMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch('/api/share/generate', {
@@ -196,13 +370,33 @@ export function SettingsTab() {
     saveSettingsMutation.mutate({
       googleApiKey: apiKey,
       openaiApiKey: openaiApiKey,
-      mileageRate: 0.655, // Keep fallback rate for backend compatibility
+      receiptProvider,
+      receiptServiceUrl: receiptServiceUrl || null,
+      receiptServiceApiKey: receiptServiceApiKey || null,
+      // Blank uses the server's default model and prompt
+      receiptModel: receiptModel.trim() || null,
+      receiptPrompt: receiptPrompt.trim() || null,
+      mileageRate: parseFloat(mileageRate) || null, // Used for years without a yearly rate
       darkMode: theme === 'dark',
-      autoDetectionEnabled: true,
+      autoDetectionEnabled: settings?.autoDetectionEnabled ?? true,
       pushNotifications: true,
       autoBackup: true,
       defaultStartAddress,
       defaultEndAddress,
+      defaultStartPlaceId: defaultStartPlaceId || null,
+      defaultEndPlaceId: defaultEndPlaceId || null,
+      commutePolicy,
+      normalCommuteMiles: parseFloat(normalCommuteMiles) || null,
+      distanceProvider,
+      routingServiceUrl: routingServiceUrl || null,
+      geocodingServiceUrl: geocodingServiceUrl || null,
+      geocodingProvider,
+      roadFactor: parseFloat(roadFactor) || 1.2,
+      routeCacheTtlDays: parseInt(routeCacheTtlDays) || 0,
+      // Blank means no limit; 0 is a real limit that blocks all billed calls
+      monthlyApiCallBudget: monthlyApiCallBudget.trim() === "" ? null : Math.max(0, parseInt(monthlyApiCallBudget) || 0),
+      monthlyApiCostBudget: monthlyApiCostBudget.trim() === "" ? null : Math.max(0, parseFloat(monthlyApiCostBudget) || 0),
+      apiBudgetAlertPercent: parseInt(apiBudgetAlertPercent) || 80,
     });
   };
 
@@ -220,7 +414,10 @@ export function SettingsTab() {
     if (!newYear || !newRate) return;
     createYearlyRateMutation.mutate({
       year: parseInt(newYear),
-      mileageRate: parseFloat(newRate)
+      mileageRate: parseFloat(newRate),
+      medicalRate: newMedicalRate ? parseFloat(newMedicalRate) : null,
+      movingRate: newMovingRate ? parseFloat(newMovingRate) : null,
+      effectiveDate: newEffectiveDate || null
     });
   };
 
@@ -228,6 +425,8 @@ export function SettingsTab() {
     setEditingRate(rate.id);
     setEditYear(rate.year.toString());
     setEditRate(rate.mileageRate.toString());
+    setEditMedicalRate(rate.medicalRate?.toString() || "");
+    setEditMovingRate(rate.movingRate?.toString() || "");
   };
 
   const handleSaveYearlyRate = () => {
@@ -235,7 +434,9 @@ export function SettingsTab() {
     updateYearlyRateMutation.mutate({
       id: editingRate,
       year: parseInt(editYear),
-      mileageRate: parseFloat(editRate)
+      mileageRate: parseFloat(editRate),
+      medicalRate: editMedicalRate ? parseFloat(editMedicalRate) : null,
+      movingRate: editMovingRate ? parseFloat(editMovingRate) : null
     });
   };
 
@@ -245,6 +446,62 @@ export function SettingsTab() {
     }
   };
 
+  const handleCreatePlace = () => {
+    if (!newPlaceName.trim() || (!newPlaceAddress.trim() && !newPlaceCoordinates)) return;
+    createPlaceMutation.mutate({
+      name: newPlaceName.trim(),
+      address: newPlaceAddress.trim() || null,
+      latitude: newPlaceCoordinates?.latitude ?? null,
+      longitude: newPlaceCoordinates?.longitude ?? null,
+      radiusMeters: parseFloat(newPlaceRadius) || 150
+    });
+  };
+
+  const handleUseCurrentLocation = () => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => setNewPlaceCoordinates({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => console.error('Failed to get current location:', error),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleDeletePlace = (id: string) => {
+    if (confirm('Delete this place? Trips will no longer be labeled with it.')) {
+      deletePlaceMutation.mutate(id);
+    }
+  };
+
+  const handleCreateVehicle = () => {
+    if (!newVehicleName.trim()) return;
+    createVehicleMutation.mutate({
+      name: newVehicleName.trim(),
+      make: newVehicleMake || null,
+      model: newVehicleModel || null,
+      licensePlate: newVehiclePlate || null,
+      placedInServiceDate: newVehicleInServiceDate || null
+    });
+  };
+
+  const handleDeleteVehicle = (id: string) => {
+    if (confirm('Delete this vehicle? Trips and expenses logged with it will become unassigned.')) {
+      deleteVehicleMutation.mutate(id);
+    }
+  };
+
+  // Unsaved edits take precedence over the stored readings
+  const getOdometerDraft = (vehicleId: string) => {
+    if (odometerDrafts[vehicleId]) return odometerDrafts[vehicleId];
+    const usage = vehicleUsage.find(summary => summary.vehicleId === vehicleId);
+    return {
+      startOdometer: usage?.startOdometer?.toString() ?? "",
+      endOdometer: usage?.endOdometer?.toString() ?? ""
+    };
+  };
+
+  const updateOdometerDraft = (vehicleId: string, field: "startOdometer" | "endOdometer", value: string) => {
+    setOdometerDrafts(drafts => ({ ...drafts, [vehicleId]: { ...getOdometerDraft(vehicleId), [field]: value } }));
+  };
+
   const requestCameraPermission = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ video: true });
@@ -319,8 +576,6 @@ export function SettingsTab() {
     }
   };
 
-  const apiUsagePercentage = 49.88; // Mock data
-
   return (
     <div className="p-4 space-y-6" data-testid="settings-tab">
       {/* API Configuration */}
@@ -329,6 +584,90 @@ export function SettingsTab() {
           <h3 className="text-lg font-semibold mb-4">API Configuration</h3>
           
           <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Distance Provider</Label>
+              <Select value={distanceProvider} onValueChange={setDistanceProvider}>
+                <SelectTrigger data-testid="distance-provider-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="google">Google Directions</SelectItem>
+                  <SelectItem value="osrm">OSRM (self-hosted)</SelectItem>
+                  <SelectItem value="graphhopper">GraphHopper (self-hosted)</SelectItem>
+                  <SelectItem value="haversine">Straight-line estimate</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Self-hosted and straight-line providers never send addresses to Google
+              </p>
+            </div>
+
+            {(distanceProvider === "osrm" || distanceProvider === "graphhopper") && (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Routing Service URL</Label>
+                <Input
+                  type="url"
+                  placeholder="http://localhost:5001"
+                  value={routingServiceUrl}
+                  onChange={(e) => setRoutingServiceUrl(e.target.value)}
+                  className="w-full"
+                  data-testid="routing-service-url-input"
+                />
+              </div>
+            )}
+
+            {distanceProvider === "haversine" && (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Road Factor</Label>
+                <Input
+                  type="number"
+                  step="0.05"
+                  min="1"
+                  value={roadFactor}
+                  onChange={(e) => setRoadFactor(e.target.value)}
+                  className="w-32"
+                  data-testid="road-factor-input"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Multiplier applied to straight-line distance to approximate road miles
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Trip Address Lookup</Label>
+              <Select value={geocodingProvider} onValueChange={setGeocodingProvider}>
+                <SelectTrigger data-testid="geocoding-provider-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Off (keep coordinates)</SelectItem>
+                  <SelectItem value="google">Google Geocoding</SelectItem>
+                  <SelectItem value="nominatim">Nominatim (self-hosted)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Adds street addresses to tracked trips when they end. Results are cached, so repeat locations are free.
+              </p>
+            </div>
+
+            {(distanceProvider !== "google" || geocodingProvider === "nominatim") && (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Geocoding Service URL</Label>
+                <Input
+                  type="url"
+                  placeholder="http://localhost:8080 (Nominatim-compatible)"
+                  value={geocodingServiceUrl}
+                  onChange={(e) => setGeocodingServiceUrl(e.target.value)}
+                  className="w-full"
+                  data-testid="geocoding-service-url-input"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Used to turn schedule addresses into coordinates and trip coordinates into addresses
+                </p>
+              </div>
+            )}
+
             <div>
               <Label className="text-sm font-medium mb-2 block">Google Directions API Key</Label>
               <div className="flex gap-2">
@@ -351,7 +690,7 @@ export function SettingsTab() {
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Required for automatic route calculations
+                Required when Google is the distance provider or trip address lookup
               </p>
             </div>
             
@@ -380,6 +719,81 @@ export function SettingsTab() {
                 Enables advanced AI-powered receipt analysis for better accuracy
               </p>
             </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Receipt Extraction</Label>
+              <Select value={receiptProvider} onValueChange={setReceiptProvider}>
+                <SelectTrigger data-testid="receipt-provider-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="openai">OpenAI (Tesseract without a key)</SelectItem>
+                  <SelectItem value="openai_compatible">OpenAI-compatible server (self-hosted)</SelectItem>
+                  <SelectItem value="tesseract">Tesseract OCR only</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Receipts fall back to Tesseract when the model cannot be reached
+              </p>
+            </div>
+
+            {receiptProvider === "openai_compatible" && (
+              <>
+                <div>
+                  <Label className="text-sm font-medium mb-2 block">Receipt Service URL</Label>
+                  <Input
+                    type="url"
+                    placeholder="http://localhost:11434/v1"
+                    value={receiptServiceUrl}
+                    onChange={(e) => setReceiptServiceUrl(e.target.value)}
+                    className="w-full"
+                    data-testid="receipt-service-url-input"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-medium mb-2 block">Receipt Service API Key (Optional)</Label>
+                  <Input
+                    type="password"
+                    placeholder="Only if the server requires one"
+                    value={receiptServiceApiKey}
+                    onChange={(e) => setReceiptServiceApiKey(e.target.value)}
+                    className="w-full"
+                    data-testid="receipt-service-api-key-input"
+                  />
+                </div>
+              </>
+            )}
+
+            {receiptProvider !== "tesseract" && (
+              <>
+                <div>
+                  <Label className="text-sm font-medium mb-2 block">Receipt Model</Label>
+                  <Input
+                    placeholder="gpt-4o"
+                    value={receiptModel}
+                    onChange={(e) => setReceiptModel(e.target.value)}
+                    className="w-full"
+                    data-testid="receipt-model-input"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Must accept image input
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium mb-2 block">Receipt Prompt</Label>
+                  <Textarea
+                    placeholder="Leave blank for the default prompt"
+                    value={receiptPrompt}
+                    onChange={(e) => setReceiptPrompt(e.target.value)}
+                    className="h-24 resize-none"
+                    data-testid="receipt-prompt-input"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Ask for JSON with merchant, total_amount, date, tax_amount, merchant_address, phone_number and line_items
+                  </p>
+                </div>
+              </>
+            )}
             
             <div className="space-y-3 pt-4 border-t border-border">
               <div className="flex items-center justify-between">
@@ -391,23 +805,97 @@ export function SettingsTab() {
               
               <div className="space-y-2">
                 <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>Google Directions API</span>
-                  <span>{apiUsage ? `${apiUsage.totalCalls} requests` : '0 requests'}</span>
+                  <span>Billed Google requests</span>
+                  <span data-testid="api-billed-usage">
+                    {budget ? `${budget.billedCalls} requests · $${budget.billedCost.toFixed(2)}` : '0 requests'}
+                  </span>
                 </div>
-                <Progress 
-                  value={apiUsage ? Math.min((apiUsage.totalCalls / 40000) * 100, 100) : 0} 
-                  className="h-2" 
-                />
+                {budget?.percentUsed != null && (
+                  <>
+                    <Progress value={Math.min(budget.percentUsed, 100)} className="h-2" />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        Budget: {[
+                          budget.callLimit != null && `${budget.callLimit.toLocaleString()} calls`,
+                          budget.costLimit != null && `$${budget.costLimit.toFixed(2)}`
+                        ].filter(Boolean).join(' or ')}/month
+                      </span>
+                      <span>{budget.percentUsed.toFixed(1)}% used</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>Free tier limit: 40,000/month</span>
-                  <span>{apiUsage ? `${(40000 - apiUsage.totalCalls).toLocaleString()} remaining` : '40,000 remaining'}</span>
+                  <span>Route cache hits</span>
+                  <span data-testid="route-cache-hits">{apiUsage?.cacheHits ?? 0} requests saved</span>
                 </div>
               </div>
+
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Route cache lifetime (days)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={routeCacheTtlDays}
+                  onChange={(e) => setRouteCacheTtlDays(e.target.value)}
+                  className="w-24"
+                  data-testid="route-cache-ttl-input"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Previously calculated routes are reused for this long. Set to 0 to always call the provider.
+              </p>
               
-              {apiUsage && apiUsage.totalCalls > 35000 && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-sm">Monthly call budget</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="No limit"
+                    value={monthlyApiCallBudget}
+                    onChange={(e) => setMonthlyApiCallBudget(e.target.value)}
+                    data-testid="api-call-budget-input"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">Monthly spend budget ($)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No limit"
+                    value={monthlyApiCostBudget}
+                    onChange={(e) => setMonthlyApiCostBudget(e.target.value)}
+                    data-testid="api-cost-budget-input"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Warn at (% of budget)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={apiBudgetAlertPercent}
+                  onChange={(e) => setApiBudgetAlertPercent(e.target.value)}
+                  className="w-24"
+                  data-testid="api-budget-alert-input"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Imports that would go over the budget are refused, and running imports pause until you raise it or the month ends.
+              </p>
+
+              {budget?.exceeded ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-xs text-red-800">
+                    ⚠️ Monthly API budget reached. Google requests are blocked until next month or until you raise the budget.
+                  </p>
+                </div>
+              ) : budget?.alert && (
                 <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                   <p className="text-xs text-yellow-800">
-                    ⚠️ Approaching API limit. Consider upgrading your Google Cloud plan.
+                    ⚠️ {budget.percentUsed!.toFixed(0)}% of this month's API budget used.
                   </p>
                 </div>
               )}
@@ -415,14 +903,29 @@ export function SettingsTab() {
             
             <div>
               <Label className="text-sm font-medium mb-2 block">Default Start Address</Label>
-              <Input
-                type="text"
-                placeholder="Your home or office address"
-                value={defaultStartAddress}
-                onChange={(e) => setDefaultStartAddress(e.target.value)}
-                className="w-full"
-                data-testid="default-start-address-input"
-              />
+              {places.length > 0 && (
+                <Select value={defaultStartPlaceId || "custom"} onValueChange={(value) => setDefaultStartPlaceId(value === "custom" ? "" : value)}>
+                  <SelectTrigger className="mb-2" data-testid="default-start-place-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">Enter an address</SelectItem>
+                    {places.map((place) => (
+                      <SelectItem key={place.id} value={place.id}>{place.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {!defaultStartPlaceId && (
+                <Input
+                  type="text"
+                  placeholder="Your home or office address"
+                  value={defaultStartAddress}
+                  onChange={(e) => setDefaultStartAddress(e.target.value)}
+                  className="w-full"
+                  data-testid="default-start-address-input"
+                />
+              )}
               <p className="text-xs text-muted-foreground mt-1">
                 Default starting point for daily routes
               </p>
@@ -430,19 +933,65 @@ export function SettingsTab() {
             
             <div>
               <Label className="text-sm font-medium mb-2 block">Default End Address</Label>
-              <Input
-                type="text"
-                placeholder="Leave blank to use start address"
-                value={defaultEndAddress}
-                onChange={(e) => setDefaultEndAddress(e.target.value)}
-                className="w-full"
-                data-testid="default-end-address-input"
-              />
+              {places.length > 0 && (
+                <Select value={defaultEndPlaceId || "custom"} onValueChange={(value) => setDefaultEndPlaceId(value === "custom" ? "" : value)}>
+                  <SelectTrigger className="mb-2" data-testid="default-end-place-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">Enter an address</SelectItem>
+                    {places.map((place) => (
+                      <SelectItem key={place.id} value={place.id}>{place.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {!defaultEndPlaceId && (
+                <Input
+                  type="text"
+                  placeholder="Leave blank to use start address"
+                  value={defaultEndAddress}
+                  onChange={(e) => setDefaultEndAddress(e.target.value)}
+                  className="w-full"
+                  data-testid="default-end-address-input"
+                />
+              )}
               <p className="text-xs text-muted-foreground mt-1">
                 Default ending point for daily routes (optional)
               </p>
             </div>
 
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Commuting</Label>
+              <Select value={commutePolicy} onValueChange={setCommutePolicy}>
+                <SelectTrigger data-testid="commute-policy-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="home_office">Home is my principal place of business</SelectItem>
+                  <SelectItem value="first_last_leg">First and last legs are commuting</SelectItem>
+                  <SelectItem value="beyond_normal_commute">Deduct only miles beyond my normal commute</SelectItem>
+                </SelectContent>
+              </Select>
+              {commutePolicy === "beyond_normal_commute" && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Input
+                    type="number"
+                    step="0.1"
+                    placeholder="0"
+                    value={normalCommuteMiles}
+                    onChange={(e) => setNormalCommuteMiles(e.target.value)}
+                    className="w-24"
+                    data-testid="normal-commute-miles-input"
+                  />
+                  <span className="text-sm text-muted-foreground">miles one way</span>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">
+                The IRS treats driving between home and your first or last stop as non-deductible commuting unless home is your principal place of business. Applies to schedules processed after saving.
+              </p>
+            </div>
+
             <Button 
               onClick={handleSaveSettings}
               disabled={saveSettingsMutation.isPending}
@@ -491,16 +1040,31 @@ export function SettingsTab() {
           <div className="mb-4 p-3 bg-accent/10 border border-accent/20 rounded-lg">
             <p className="text-sm text-accent font-medium mb-1">⚠️ Important for Accurate Calculations</p>
             <p className="text-xs text-muted-foreground">
-              Set specific mileage rates for each year to ensure accurate tax deductions. Without yearly rates, the system falls back to a default rate of $0.655 per mile, which may not reflect current IRS standards.
+              Set specific mileage rates for each year to ensure accurate tax deductions. Without yearly rates, the system falls back to the rate below, which may not reflect current IRS standards.
             </p>
           </div>
           <p className="text-sm text-muted-foreground mb-4">
-            Add the IRS standard mileage rates for each tax year. The system automatically uses the correct rate based on your trip dates.
+            Add the IRS standard mileage rates for each tax year. The system automatically uses the correct rate based on your trip dates. For mid-year changes, add a second rate for the same year with the date it takes effect. Charity miles always use the statutory $0.14 rate and personal miles are not deductible.
           </p>
           
           <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="fallback-rate" className="text-sm">Fallback rate</Label>
+              <span className="text-sm">$</span>
+              <Input
+                id="fallback-rate"
+                type="number"
+                step="0.001"
+                value={mileageRate}
+                onChange={(e) => setMileageRate(e.target.value)}
+                className="w-24"
+                data-testid="fallback-rate-input"
+              />
+              <span className="text-xs text-muted-foreground">Saved with your settings</span>
+            </div>
+
             {/* Add New Rate */}
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
               <Input
                 type="number"
                 placeholder="Year (e.g., 2024)"
@@ -514,13 +1078,39 @@ export function SettingsTab() {
                 <Input
                   type="number"
                   step="0.001"
-                  placeholder="Rate"
+                  placeholder="Business"
                   value={newRate}
                   onChange={(e) => setNewRate(e.target.value)}
                   className="w-24"
                   data-testid="new-rate-input"
                 />
               </div>
+              <Input
+                type="number"
+                step="0.001"
+                placeholder="Medical"
+                value={newMedicalRate}
+                onChange={(e) => setNewMedicalRate(e.target.value)}
+                className="w-24"
+                data-testid="new-medical-rate-input"
+              />
+              <Input
+                type="number"
+                step="0.001"
+                placeholder="Moving"
+                value={newMovingRate}
+                onChange={(e) => setNewMovingRate(e.target.value)}
+                className="w-24"
+                data-testid="new-moving-rate-input"
+              />
+              <Input
+                type="date"
+                value={newEffectiveDate}
+                onChange={(e) => setNewEffectiveDate(e.target.value)}
+                className="w-40"
+                title="Effective date (optional, defaults to January 1st)"
+                data-testid="new-effective-date-input"
+              />
               <Button
                 onClick={handleCreateYearlyRate}
                 disabled={!newYear || !newRate || createYearlyRateMutation.isPending}
@@ -539,9 +1129,9 @@ export function SettingsTab() {
                 </p>
               ) : (
                 yearlyRates
-                  .sort((a, b) => b.year - a.year)
+                  .sort((a, b) => b.year - a.year || new Date(b.effectiveDate || 0).getTime() - new Date(a.effectiveDate || 0).getTime())
                   .map((rate) => (
-                    <div key={rate.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div key={rate.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
                       {editingRate === rate.id ? (
                         <div className="flex items-center gap-2 flex-1">
                           <Input
@@ -562,6 +1152,24 @@ export function SettingsTab() {
                               data-testid={`edit-rate-${rate.id}`}
                             />
                           </div>
+                          <Input
+                            type="number"
+                            step="0.001"
+                            placeholder="Medical"
+                            value={editMedicalRate}
+                            onChange={(e) => setEditMedicalRate(e.target.value)}
+                            className="w-24"
+                            data-testid={`edit-medical-rate-${rate.id}`}
+                          />
+                          <Input
+                            type="number"
+                            step="0.001"
+                            placeholder="Moving"
+                            value={editMovingRate}
+                            onChange={(e) => setEditMovingRate(e.target.value)}
+                            className="w-24"
+                            data-testid={`edit-moving-rate-${rate.id}`}
+                          />
                           <Button
                             onClick={handleSaveYearlyRate}
                             disabled={updateYearlyRateMutation.isPending}
@@ -584,6 +1192,17 @@ export function SettingsTab() {
                           <div className="flex items-center gap-4">
                             <span className="font-medium">{rate.year}</span>
                             <span className="text-muted-foreground">${rate.mileageRate.toFixed(3)} per mile</span>
+                            {rate.medicalRate != null && (
+                              <span className="text-xs text-muted-foreground">Medical ${rate.medicalRate.toFixed(3)}</span>
+                            )}
+                            {rate.movingRate != null && (
+                              <span className="text-xs text-muted-foreground">Moving ${rate.movingRate.toFixed(3)}</span>
+                            )}
+                            {rate.effectiveDate && (
+                              <span className="text-xs text-muted-foreground">
+                                from {new Date(rate.effectiveDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
                             <Button
@@ -610,6 +1229,275 @@ export function SettingsTab() {
                   ))
               )}
             </div>
+
+            {/* Recalculate saved schedule entries with the current rates */}
+            <div className="flex items-center justify-between gap-2 pt-2 border-t">
+              <p className="text-xs text-muted-foreground">
+                {recomputeAmountsMutation.isSuccess
+                  ? `${recomputeAmountsMutation.data.updatedCount} schedule entries updated.`
+                  : 'After changing a rate, recalculate saved schedule entries to apply it.'}
+              </p>
+              <Button
+                onClick={() => recomputeAmountsMutation.mutate()}
+                disabled={recomputeAmountsMutation.isPending}
+                variant="outline"
+                size="sm"
+                data-testid="recompute-amounts"
+              >
+                {recomputeAmountsMutation.isPending ? 'Recalculating...' : 'Recalculate Entries'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Saved Places */}
+      <Card data-testid="saved-places">
+        <CardContent className="pt-6">
+          <h3 className="text-lg font-semibold mb-4">Saved Places</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Trips that start or end within a place's radius are labeled with its name. Schedule files can use a place name instead of the full address.
+          </p>
+
+          <div className="space-y-4">
+            {/* Add New Place */}
+            <div className="flex flex-wrap gap-2">
+              <Input
+                placeholder="Name (e.g., Office)"
+                value={newPlaceName}
+                onChange={(e) => setNewPlaceName(e.target.value)}
+                className="w-40"
+                data-testid="new-place-name-input"
+              />
+              <Input
+                placeholder="Address"
+                value={newPlaceAddress}
+                onChange={(e) => setNewPlaceAddress(e.target.value)}
+                className="flex-1 min-w-48"
+                data-testid="new-place-address-input"
+              />
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  value={newPlaceRadius}
+                  onChange={(e) => setNewPlaceRadius(e.target.value)}
+                  className="w-20"
+                  title="Radius in meters"
+                  data-testid="new-place-radius-input"
+                />
+                <span className="text-sm text-muted-foreground">m</span>
+              </div>
+              <Button
+                onClick={handleUseCurrentLocation}
+                variant={newPlaceCoordinates ? "secondary" : "outline"}
+                size="sm"
+                title="Use current location"
+                data-testid="new-place-current-location"
+              >
+                <Crosshair className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={handleCreatePlace}
+                disabled={!newPlaceName.trim() || (!newPlaceAddress.trim() && !newPlaceCoordinates) || createPlaceMutation.isPending}
+                size="sm"
+                data-testid="add-place"
+              >
+                Add Place
+              </Button>
+            </div>
+            {newPlaceCoordinates && (
+              <p className="text-xs text-muted-foreground">
+                Pinned at {newPlaceCoordinates.latitude.toFixed(5)}, {newPlaceCoordinates.longitude.toFixed(5)}
+              </p>
+            )}
+
+            {/* Existing Places */}
+            <div className="space-y-2">
+              {places.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  No saved places. Add Home, Office or frequent clients above.
+                </p>
+              ) : (
+                places.map((place) => (
+                  <div key={place.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg" data-testid={`place-${place.id}`}>
+                    <div className="flex items-center gap-3 min-w-0">
+                      <MapPin className="w-5 h-5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium">{place.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {place.address || `${place.latitude?.toFixed(5)}, ${place.longitude?.toFixed(5)}`}
+                          {place.latitude != null ? ` · ${place.radiusMeters} m radius` : ' · not pinned, used for schedules only'}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      onClick={() => handleDeletePlace(place.id)}
+                      variant="outline"
+                      size="sm"
+                      disabled={deletePlaceMutation.isPending}
+                      data-testid={`delete-place-${place.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Vehicles */}
+      <Card data-testid="vehicles">
+        <CardContent className="pt-6">
+          <h3 className="text-lg font-semibold mb-4">Vehicles</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            The IRS expects a separate mileage log for each vehicle. Record the odometer at the start and end of {currentYear} to calculate the business-use percentage. New trips and fuel expenses use the default vehicle unless you pick another one.
+          </p>
+
+          <div className="space-y-4">
+            {/* Add New Vehicle */}
+            <div className="flex flex-wrap gap-2">
+              <Input
+                placeholder="Name (e.g., Work truck)"
+                value={newVehicleName}
+                onChange={(e) => setNewVehicleName(e.target.value)}
+                className="w-48"
+                data-testid="new-vehicle-name-input"
+              />
+              <Input
+                placeholder="Make"
+                value={newVehicleMake}
+                onChange={(e) => setNewVehicleMake(e.target.value)}
+                className="w-28"
+                data-testid="new-vehicle-make-input"
+              />
+              <Input
+                placeholder="Model"
+                value={newVehicleModel}
+                onChange={(e) => setNewVehicleModel(e.target.value)}
+                className="w-28"
+                data-testid="new-vehicle-model-input"
+              />
+              <Input
+                placeholder="Plate"
+                value={newVehiclePlate}
+                onChange={(e) => setNewVehiclePlate(e.target.value)}
+                className="w-28"
+                data-testid="new-vehicle-plate-input"
+              />
+              <Input
+                type="date"
+                value={newVehicleInServiceDate}
+                onChange={(e) => setNewVehicleInServiceDate(e.target.value)}
+                className="w-40"
+                title="Date placed in service"
+                data-testid="new-vehicle-in-service-input"
+              />
+              <Button
+                onClick={handleCreateVehicle}
+                disabled={!newVehicleName.trim() || createVehicleMutation.isPending}
+                size="sm"
+                data-testid="add-vehicle"
+              >
+                Add Vehicle
+              </Button>
+            </div>
+
+            {/* Existing Vehicles */}
+            <div className="space-y-2">
+              {vehicles.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  No vehicles yet. Trips are reported as unassigned until you add one.
+                </p>
+              ) : (
+                vehicles.map((vehicle) => {
+                  const isDefault = settings?.defaultVehicleId === vehicle.id;
+                  const usage = vehicleUsage.find(summary => summary.vehicleId === vehicle.id);
+                  const draft = getOdometerDraft(vehicle.id);
+                  return (
+                    <div key={vehicle.id} className="p-3 border rounded-lg space-y-3" data-testid={`vehicle-${vehicle.id}`}>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-3">
+                          <Car className="w-5 h-5 text-muted-foreground" />
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{vehicle.name}</span>
+                              {isDefault && <Badge variant="secondary">Default</Badge>}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {[vehicle.make, vehicle.model, vehicle.licensePlate].filter(Boolean).join(' · ')}
+                              {vehicle.placedInServiceDate && ` · in service since ${new Date(vehicle.placedInServiceDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {!isDefault && (
+                            <Button
+                              onClick={() => saveSettingsMutation.mutate({ defaultVehicleId: vehicle.id })}
+                              variant="outline"
+                              size="sm"
+                              disabled={saveSettingsMutation.isPending}
+                              title="Use as default vehicle"
+                              data-testid={`default-vehicle-${vehicle.id}`}
+                            >
+                              <Star className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => handleDeleteVehicle(vehicle.id)}
+                            variant="outline"
+                            size="sm"
+                            disabled={deleteVehicleMutation.isPending}
+                            data-testid={`delete-vehicle-${vehicle.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Label className="text-xs text-muted-foreground">{currentYear} odometer</Label>
+                        <Input
+                          type="number"
+                          placeholder="Start"
+                          value={draft.startOdometer}
+                          onChange={(e) => updateOdometerDraft(vehicle.id, "startOdometer", e.target.value)}
+                          className="w-28"
+                          data-testid={`start-odometer-${vehicle.id}`}
+                        />
+                        <Input
+                          type="number"
+                          placeholder="End"
+                          value={draft.endOdometer}
+                          onChange={(e) => updateOdometerDraft(vehicle.id, "endOdometer", e.target.value)}
+                          className="w-28"
+                          data-testid={`end-odometer-${vehicle.id}`}
+                        />
+                        {odometerDrafts[vehicle.id] && (
+                          <Button
+                            onClick={() => saveOdometerMutation.mutate({ vehicleId: vehicle.id, ...draft })}
+                            disabled={saveOdometerMutation.isPending}
+                            size="sm"
+                            data-testid={`save-odometer-${vehicle.id}`}
+                          >
+                            Save
+                          </Button>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          {usage?.businessUsePercent != null
+                            ? `${usage.businessUsePercent.toFixed(1)}% business use (${usage.businessMiles.toFixed(1)} of ${usage.totalMiles?.toFixed(0)} mi)`
+                            : `${(usage?.businessMiles ?? 0).toFixed(1)} business miles logged`}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            {saveOdometerMutation.isError && (
+              <p className="text-xs text-destructive">{saveOdometerMutation.error.message}</p>
+            )}
           </div>
         </CardContent>
       </Card>
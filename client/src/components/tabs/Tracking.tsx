@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,15 +8,23 @@ import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Play, Wifi, Signal } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Play, Wifi, Signal, Upload, Download } from "lucide-react";
 import { useGeolocation } from "@/hooks/useGeolocation";
+import { useTripRecorder } from "@/hooks/useTripRecorder";
+import { useTripDetection } from "@/hooks/useTripDetection";
 import { apiRequest } from "@/lib/queryClient";
-import type { Trip } from "@shared/schema";
+import { DEFAULT_DWELL_MINUTES, shouldKeepDetectedTrip, type GpsFix } from "@/lib/tripDetection";
+import type { AppSettings, Trip, Vehicle } from "@shared/schema";
 
 export function TrackingTab() {
   const [autoDetection, setAutoDetection] = useState(true);
   const [sensitivity, setSensitivity] = useState([3]);
+  const [dwellMinutes, setDwellMinutes] = useState(DEFAULT_DWELL_MINUTES);
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
   const [tripPurpose, setTripPurpose] = useState("business");
+  const [tripVehicleId, setTripVehicleId] = useState("");
   const [notes, setNotes] = useState("");
   
   const queryClient = useQueryClient();
@@ -26,6 +34,35 @@ export function TrackingTab() {
     queryKey: ["/api/trips/active"],
   });
 
+  const { data: settings } = useQuery<AppSettings | null>({
+    queryKey: ["/api/settings"],
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setAutoDetection(settings.autoDetectionEnabled ?? true);
+      setSensitivity([settings.detectionSensitivity ?? 3]);
+      setDwellMinutes(settings.autoStopDwellMinutes ?? DEFAULT_DWELL_MINUTES);
+      setTripVehicleId(settings.defaultVehicleId || "");
+    }
+  }, [settings]);
+
+  const saveDetectionSettingsMutation = useMutation({
+    mutationFn: async (detectionSettings: Partial<AppSettings>) => {
+      const response = await apiRequest("POST", "/api/settings", detectionSettings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
+  const { flush: flushTripPoints, recordedCount } = useTripRecorder(activeTrip?.id, position);
+
   const startTripMutation = useMutation({
     mutationFn: async (tripData: any) => {
       const response = await apiRequest("POST", "/api/trips", tripData);
@@ -38,13 +75,20 @@ export function TrackingTab() {
   });
 
   const stopTripMutation = useMutation({
-    mutationFn: async (tripId: string) => {
+    mutationFn: async ({ tripId, endFix }: { tripId: string; endFix?: GpsFix }) => {
+      // Upload remaining breadcrumbs so the server measures the whole route
+      await flushTripPoints();
+      const endPosition = endFix || (position ? {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        timestamp: Date.now(),
+      } : null);
       const response = await apiRequest("PATCH", `/api/trips/${tripId}`, {
-        endTime: new Date(),
+        endTime: endPosition ? new Date(endPosition.timestamp) : new Date(),
         isActive: false,
-        endLocation: position ? {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
+        endLocation: endPosition ? {
+          latitude: endPosition.latitude,
+          longitude: endPosition.longitude,
         } : null,
       });
       return response.json();
@@ -55,6 +99,100 @@ export function TrackingTab() {
     },
   });
 
+  // Detected trips below the minimum distance or duration are discarded, see shouldKeepDetectedTrip
+  const discardTripMutation = useMutation({
+    mutationFn: async (tripId: string) => {
+      const response = await apiRequest("DELETE", `/api/trips/${tripId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips/active"] });
+    },
+  });
+
+  const { state: detectionState, thresholds } = useTripDetection({
+    enabled: autoDetection,
+    sensitivity: sensitivity[0],
+    dwellMinutes,
+    position,
+    activeTrip,
+    onStart: (fix) => {
+      if (activeTrip || startTripMutation.isPending) return;
+      startTripMutation.mutate({
+        startLocation: {
+          latitude: fix.latitude,
+          longitude: fix.longitude,
+        },
+        startTime: new Date(fix.timestamp),
+        purpose: tripPurpose,
+        vehicleId: tripVehicleId || null,
+        notes,
+        autoDetected: true,
+      });
+    },
+    onStop: (event) => {
+      if (!activeTrip?.autoDetected) return;
+      if (shouldKeepDetectedTrip(event)) {
+        stopTripMutation.mutate({ tripId: activeTrip.id, endFix: event.fix });
+      } else {
+        discardTripMutation.mutate(activeTrip.id);
+      }
+    },
+  });
+
+  const importTrackMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('track', file);
+      formData.append('purpose', tripPurpose);
+      if (tripVehicleId) {
+        formData.append('vehicleId', tripVehicleId);
+      }
+      const response = await fetch('/api/trips/import', {
+        method: 'POST',
+        body: formData
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Import failed');
+      }
+      return result as { message: string; tripsImported: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    },
+  });
+
+  const handleTrackFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importTrackMutation.mutate(file);
+    }
+    event.target.value = '';
+  };
+
+  const handleExportTracks = (format: 'gpx' | 'kml') => {
+    const params = new URLSearchParams();
+    if (exportFrom) params.set('from', exportFrom);
+    if (exportTo) params.set('to', exportTo);
+    window.location.href = `/api/trips/export.${format}?${params.toString()}`;
+  };
+
+  const handleAutoDetectionChange = (enabled: boolean) => {
+    setAutoDetection(enabled);
+    saveDetectionSettingsMutation.mutate({ autoDetectionEnabled: enabled });
+  };
+
+  const handleSensitivityCommit = (value: number[]) => {
+    saveDetectionSettingsMutation.mutate({ detectionSensitivity: value[0] });
+  };
+
+  const handleDwellChange = (value: string) => {
+    setDwellMinutes(parseInt(value));
+    saveDetectionSettingsMutation.mutate({ autoStopDwellMinutes: parseInt(value) });
+  };
+
   const handleStartTrip = () => {
     if (!position) return;
     
@@ -65,6 +203,7 @@ export function TrackingTab() {
       },
       startTime: new Date(),
       purpose: tripPurpose,
+      vehicleId: tripVehicleId || null,
       notes,
       autoDetected: false,
     });
@@ -72,7 +211,7 @@ export function TrackingTab() {
 
   const handleStopTrip = () => {
     if (activeTrip) {
-      stopTripMutation.mutate(activeTrip.id);
+      stopTripMutation.mutate({ tripId: activeTrip.id });
     }
   };
 
@@ -85,7 +224,7 @@ export function TrackingTab() {
             <h3 className="text-lg font-semibold">Auto Detection</h3>
             <Switch
               checked={autoDetection}
-              onCheckedChange={setAutoDetection}
+              onCheckedChange={handleAutoDetectionChange}
               data-testid="auto-detection-toggle"
             />
           </div>
@@ -99,6 +238,7 @@ export function TrackingTab() {
               <Slider
                 value={sensitivity}
                 onValueChange={setSensitivity}
+                onValueCommit={handleSensitivityCommit}
                 max={5}
                 min={1}
                 step={1}
@@ -114,13 +254,37 @@ export function TrackingTab() {
             
             <div className="flex items-center justify-between py-2">
               <span className="text-sm">Minimum trip distance</span>
-              <span className="text-sm font-medium">0.5 miles</span>
+              <span className="text-sm font-medium">{thresholds.minTripMiles} miles</span>
             </div>
             
             <div className="flex items-center justify-between py-2">
               <span className="text-sm">Minimum trip duration</span>
-              <span className="text-sm font-medium">2 minutes</span>
+              <span className="text-sm font-medium">{thresholds.minTripDurationMs / 60000} minutes</span>
+            </div>
+
+            <div className="flex items-center justify-between py-2">
+              <span className="text-sm">End trip after stopped for</span>
+              <Select value={dwellMinutes.toString()} onValueChange={handleDwellChange}>
+                <SelectTrigger className="w-32" data-testid="dwell-time-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2 minutes</SelectItem>
+                  <SelectItem value="5">5 minutes</SelectItem>
+                  <SelectItem value="10">10 minutes</SelectItem>
+                  <SelectItem value="15">15 minutes</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+
+            {autoDetection && (
+              <div className="flex items-center justify-between py-2">
+                <span className="text-sm">Detection status</span>
+                <Badge variant={detectionState === "driving" ? "default" : "secondary"} data-testid="detection-state">
+                  {detectionState === "driving" ? "Driving" : "Waiting for movement"}
+                </Badge>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -141,10 +305,27 @@ export function TrackingTab() {
                   <SelectItem value="business">Business</SelectItem>
                   <SelectItem value="personal">Personal</SelectItem>
                   <SelectItem value="medical">Medical</SelectItem>
+                  <SelectItem value="moving">Moving</SelectItem>
                   <SelectItem value="charity">Charity</SelectItem>
                 </SelectContent>
               </Select>
             </div>
+
+            {vehicles.length > 0 && (
+              <div>
+                <Label className="text-sm font-medium mb-2 block">Vehicle</Label>
+                <Select value={tripVehicleId} onValueChange={setTripVehicleId}>
+                  <SelectTrigger data-testid="trip-vehicle-select">
+                    <SelectValue placeholder="Select vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <div>
               <Label className="text-sm font-medium mb-2 block">Notes (Optional)</Label>
@@ -157,6 +338,12 @@ export function TrackingTab() {
               />
             </div>
             
+            {activeTrip && (
+              <p className="text-xs text-muted-foreground" data-testid="recorded-points">
+                {recordedCount} GPS points recorded
+              </p>
+            )}
+
             {activeTrip ? (
               <Button 
                 variant="destructive"
@@ -254,6 +441,71 @@ export function TrackingTab() {
           </div>
         </CardContent>
       </Card>
+
+      {/* GPX / KML */}
+      <Card data-testid="gps-logs-card">
+        <CardContent className="pt-6">
+          <h3 className="text-lg font-semibold mb-4">GPS Logs</h3>
+
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Import GPX or KML</Label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Each track in the file becomes a completed trip using the purpose and vehicle selected above.
+              </p>
+              <label className="inline-flex">
+                <input
+                  type="file"
+                  accept=".gpx,.kml"
+                  className="hidden"
+                  onChange={handleTrackFileChange}
+                  data-testid="track-import-input"
+                />
+                <Button variant="outline" asChild disabled={importTrackMutation.isPending}>
+                  <span>
+                    <Upload className="w-4 h-4 mr-2" />
+                    {importTrackMutation.isPending ? 'Importing...' : 'Choose File'}
+                  </span>
+                </Button>
+              </label>
+              {importTrackMutation.isSuccess && (
+                <p className="text-xs text-green-600 mt-2">{importTrackMutation.data.message}</p>
+              )}
+              {importTrackMutation.isError && (
+                <p className="text-xs text-destructive mt-2">{importTrackMutation.error.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Export trips</Label>
+              <div className="flex gap-2 mb-2">
+                <Input
+                  type="date"
+                  value={exportFrom}
+                  onChange={(e) => setExportFrom(e.target.value)}
+                  data-testid="track-export-from"
+                />
+                <Input
+                  type="date"
+                  value={exportTo}
+                  onChange={(e) => setExportTo(e.target.value)}
+                  data-testid="track-export-to"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => handleExportTracks('gpx')} data-testid="export-gpx">
+                  <Download className="w-4 h-4 mr-2" />
+                  GPX
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={() => handleExportTracks('kml')} data-testid="export-kml">
+                  <Download className="w-4 h-4 mr-2" />
+                  KML
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
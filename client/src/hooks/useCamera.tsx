@@ -44,7 +44,8 @@ export function useCamera() {
     return new Promise((resolve) => {
       const input = document.createElement('input');
       input.type = 'file';
-      input.accept = 'image/*';
+      // PDFs and HEIC photos are converted on the server
+      input.accept = 'image/*,.heic,.heif,application/pdf';
       // No capture attribute - opens gallery/file picker
       input.onchange = (e) => {
         const target = e.target as HTMLInputElement;
@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { TripDetector, getDetectionThresholds, type DetectionEvent, type DetectionState, type GpsFix } from "@/lib/tripDetection";
+import type { useGeolocation } from "@/hooks/useGeolocation";
+import type { Trip } from "@shared/schema";
+
+const DWELL_CHECK_INTERVAL_MS = 30000;
+
+interface TripDetectionOptions {
+  enabled: boolean;
+  sensitivity: number;
+  dwellMinutes: number;
+  position: ReturnType<typeof useGeolocation>["position"];
+  activeTrip: Trip | null | undefined;
+  onStart: (fix: GpsFix) => void;
+  onStop: (event: Extract<DetectionEvent, { type: "stop" }>) => void;
+}
+
+// Feeds geolocation updates into a TripDetector and reports trip start/stop events
+export function useTripDetection({ enabled, sensitivity, dwellMinutes, position, activeTrip, onStart, onStop }: TripDetectionOptions) {
+  const thresholds = useMemo(() => getDetectionThresholds(sensitivity, dwellMinutes), [sensitivity, dwellMinutes]);
+  const detectorRef = useRef(new TripDetector(thresholds));
+  const [state, setState] = useState<DetectionState>("idle");
+  // Keep the latest callbacks without re-running the effects below
+  const handlersRef = useRef({ onStart, onStop });
+  handlersRef.current = { onStart, onStop };
+  // The trip just closed by the detector stays "active" until the stop request completes
+  const activeTripRef = useRef(activeTrip);
+  activeTripRef.current = activeTrip;
+  const stoppedTripIdRef = useRef<string | null>(null);
+
+  const handleEvent = (event: DetectionEvent | null) => {
+    if (!event) return;
+    setState(detectorRef.current.getState());
+    if (event.type === "start") {
+      handlersRef.current.onStart(event.fix);
+    } else {
+      stoppedTripIdRef.current = activeTripRef.current?.id ?? null;
+      handlersRef.current.onStop(event);
+    }
+  };
+
+  useEffect(() => {
+    detectorRef.current.setThresholds(thresholds);
+  }, [thresholds]);
+
+  // Stay in sync with trips started or stopped elsewhere
+  useEffect(() => {
+    const detector = detectorRef.current;
+    if (!enabled) {
+      detector.reset();
+    } else if (activeTrip?.autoDetected && activeTrip.id !== stoppedTripIdRef.current && detector.getState() === "idle") {
+      const startLocation = activeTrip.startLocation as { latitude: number; longitude: number };
+      detector.resumeTrip({
+        latitude: startLocation.latitude,
+        longitude: startLocation.longitude,
+        timestamp: new Date(activeTrip.startTime).getTime(),
+      });
+    } else if (!activeTrip && detector.getState() === "driving") {
+      detector.reset();
+    }
+    setState(detector.getState());
+  }, [activeTrip, enabled]);
+
+  useEffect(() => {
+    if (!enabled || !position) return;
+    // Manually started trips are left for the user to stop
+    if (activeTrip && !activeTrip.autoDetected) return;
+
+    handleEvent(detectorRef.current.process({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      speed: position.coords.speed,
+      timestamp: position.timestamp,
+    }));
+  }, [enabled, position]);
+
+  // Browsers often stop sending updates once the device is still
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(() => handleEvent(detectorRef.current.checkDwell(Date.now())), DWELL_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return { state, thresholds };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { useGeolocation } from "@/hooks/useGeolocation";
+
+const BATCH_SIZE = 10;
+const FLUSH_INTERVAL_MS = 30000;
+
+interface TripPointSample {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  timestamp: number;
+}
+
+// Buffers geolocation samples for the active trip and uploads them in batches
+export function useTripRecorder(tripId: string | undefined, position: ReturnType<typeof useGeolocation>["position"]) {
+  const [recordedCount, setRecordedCount] = useState(0);
+  const bufferRef = useRef<TripPointSample[]>([]);
+  const flushingRef = useRef<Promise<void> | null>(null);
+  const lastTimestampRef = useRef<number | null>(null);
+
+  const flush = useCallback(async () => {
+    if (!tripId) return;
+    // Wait for an upload already in flight so points stay in order
+    if (flushingRef.current) await flushingRef.current;
+    if (bufferRef.current.length === 0) return;
+
+    const points = bufferRef.current;
+    bufferRef.current = [];
+    flushingRef.current = (async () => {
+      try {
+        await apiRequest("POST", `/api/trips/${tripId}/points`, { points });
+        setRecordedCount(count => count + points.length);
+      } catch (error) {
+        // Keep the samples for the next attempt unless the trip has already ended
+        if (!(error instanceof Error && error.message.startsWith("409"))) {
+          bufferRef.current = [...points, ...bufferRef.current];
+        }
+      } finally {
+        flushingRef.current = null;
+      }
+    })();
+    await flushingRef.current;
+  }, [tripId]);
+
+  // Start a fresh buffer for each trip
+  useEffect(() => {
+    bufferRef.current = [];
+    lastTimestampRef.current = null;
+    setRecordedCount(0);
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!tripId || !position || position.timestamp === lastTimestampRef.current) return;
+    lastTimestampRef.current = position.timestamp;
+
+    bufferRef.current.push({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy ?? null,
+      speed: position.coords.speed ?? null,
+      timestamp: position.timestamp,
+    });
+    if (bufferRef.current.length >= BATCH_SIZE) {
+      flush();
+    }
+  }, [tripId, position, flush]);
+
+  useEffect(() => {
+    if (!tripId) return;
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [tripId, flush]);
+
+  return { flush, recordedCount };
+}
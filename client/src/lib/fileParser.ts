@@ -138,17 +138,3 @@ export function detectHotelStay(notes: string): boolean {
   
   return hotelKeywords.some(keyword => lowerNotes.includes(keyword));
 }
-
-export function cleanAddress(address: string): string {
-  // Basic address cleaning - remove extra spaces, fix common typos
-  return address
-    .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-    .replace(/,\s*,/g, ',') // Remove duplicate commas
-    .replace(/\s*,\s*/g, ', ') // Normalize comma spacing
-    .replace(/\b(st|street)\b/gi, 'Street') // Normalize street abbreviations
-    .replace(/\b(ave|avenue)\b/gi, 'Avenue')
-    .replace(/\b(blvd|boulevard)\b/gi, 'Boulevard')
-    .replace(/\b(rd|road)\b/gi, 'Road')
-    .replace(/\b(dr|drive)\b/gi, 'Drive')
-    .trim();
-}
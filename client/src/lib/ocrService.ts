@@ -1,11 +1,12 @@
 import Tesseract from 'tesseract.js';
+import { parseLineItems, type ReceiptLineItem } from '@shared/receiptLineItems';
 
 export interface ExtractedReceiptData {
   merchant?: string;
   amount?: number;
   date?: string;
   tax?: number;
-  items?: string[];
+  items?: ReceiptLineItem[];
 }
 
 export async function extractTextFromImage(imageFile: File): Promise<string> {
@@ -65,11 +66,8 @@ export function parseReceiptData(ocrText: string): ExtractedReceiptData {
     }
   }
   
-  // Extract line items (basic implementation)
-  data.items = lines.filter(line => {
-    // Look for lines that might be items (contain both text and numbers/prices)
-    return line.match(/[a-zA-Z]/) && line.match(/[\d\$]/);
-  }).slice(0, 10); // Limit to first 10 items
+  // Extract line items, parsed the same way as on the server
+  data.items = parseLineItems(ocrText);
   
   return data;
 }
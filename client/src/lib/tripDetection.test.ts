@@ -0,0 +1,197 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { TripDetector, getDetectionThresholds, shouldKeepDetectedTrip, type DetectionEvent, type GpsFix } from "./tripDetection";
+
+type StopEvent = Extract<DetectionEvent, { type: "stop" }>;
+
+const MINUTE = 60 * 1000;
+
+// GPS fixes in the shape the browser reports them, one JSON array per scenario, 5 to 10 seconds apart
+function loadFixture(name: string): GpsFix[] {
+  return JSON.parse(fs.readFileSync(new URL(`./__fixtures__/gps/${name}.json`, import.meta.url), "utf8"));
+}
+
+// Feed every fix through a detector, as useTripDetection does with geolocation updates
+function replay(fixes: GpsFix[], sensitivity = 3, detector = new TripDetector(getDetectionThresholds(sensitivity))) {
+  const events: DetectionEvent[] = [];
+  for (const fix of fixes) {
+    const event = detector.process(fix);
+    if (event) events.push(event);
+  }
+  return { detector, events };
+}
+
+// The trips the Tracking tab saves: opened on start with autoDetected set, kept on stop when shouldKeepDetectedTrip says so
+function toAutoDetectedTrips(events: DetectionEvent[], resumedStartTime: number | null = null) {
+  const trips: Array<{ startTime: number; endTime: number; distanceMiles: number; autoDetected: boolean }> = [];
+  let startTime = resumedStartTime;
+  for (const event of events) {
+    if (event.type === "start") {
+      startTime = event.fix.timestamp;
+    } else if (startTime !== null) {
+      if (shouldKeepDetectedTrip(event)) {
+        trips.push({ startTime, endTime: event.fix.timestamp, distanceMiles: event.distanceMiles, autoDetected: true });
+      }
+      startTime = null;
+    }
+  }
+  return trips;
+}
+
+// The fix that made a fresh detector start a trip
+function startingFix(fixes: GpsFix[], sensitivity: number): GpsFix | undefined {
+  const detector = new TripDetector(getDetectionThresholds(sensitivity));
+  return fixes.find(fix => detector.process(fix)?.type === "start");
+}
+
+function firstFixAtSpeed(fixes: GpsFix[], speed: number): GpsFix {
+  return fixes.find(fix => (fix.speed ?? 0) >= speed)!;
+}
+
+function lastFixAtSpeed(fixes: GpsFix[], speed: number): GpsFix {
+  return fixes.filter(fix => (fix.speed ?? 0) >= speed).pop()!;
+}
+
+test("thresholds tighten as sensitivity rises and clamp outside 1-5", () => {
+  const low = getDetectionThresholds(1);
+  const high = getDetectionThresholds(5);
+  assert.ok(high.startSpeedMps < low.startSpeedMps);
+  assert.ok(high.startDisplacementMeters < low.startDisplacementMeters);
+  assert.ok(high.minTripMiles < low.minTripMiles);
+  assert.deepEqual(getDetectionThresholds(0), low);
+  assert.deepEqual(getDetectionThresholds(9), high);
+  assert.equal(getDetectionThresholds(3, 8).stopDwellMs, 8 * MINUTE);
+});
+
+test("a drive starts once the start speed is reached and stops after the dwell time", () => {
+  const fixes = loadFixture("drive");
+  const thresholds = getDetectionThresholds(3);
+  const { detector, events } = replay(fixes);
+
+  assert.deepEqual(events.map(event => event.type), ["start", "stop"]);
+  const [start, stop] = events as [DetectionEvent, StopEvent];
+  // The trip is dated from the start of the detection window, before the car reached speed
+  const triggeringFix = firstFixAtSpeed(fixes, thresholds.startSpeedMps);
+  assert.ok(start.fix.timestamp < triggeringFix.timestamp);
+  assert.ok(triggeringFix.timestamp - start.fix.timestamp <= thresholds.startWindowMs);
+
+  // The trip ends at the last moving fix, not when the dwell ran out
+  assert.equal(stop.fix.timestamp, lastFixAtSpeed(fixes, 1).timestamp);
+  assert.ok(stop.distanceMiles > 4 && stop.distanceMiles < 4.6, `distance ${stop.distanceMiles}`);
+  assert.ok(stop.meetsMinimums);
+  assert.equal(detector.getState(), "idle");
+
+  const trips = toAutoDetectedTrips(events);
+  assert.equal(trips.length, 1);
+  assert.equal(trips[0].autoDetected, true);
+  assert.equal(trips[0].endTime, stop.fix.timestamp);
+});
+
+test("higher sensitivity starts the same drive earlier", () => {
+  const fixes = loadFixture("drive");
+  const lowTrigger = startingFix(fixes, 1);
+  const highTrigger = startingFix(fixes, 5);
+  assert.equal(lowTrigger, firstFixAtSpeed(fixes, getDetectionThresholds(1).startSpeedMps));
+  assert.equal(highTrigger, firstFixAtSpeed(fixes, getDetectionThresholds(5).startSpeedMps));
+  assert.ok(highTrigger!.timestamp < lowTrigger!.timestamp);
+});
+
+test("a stop at a traffic light shorter than the dwell time keeps the trip open", () => {
+  const fixes = loadFixture("traffic-light");
+  const { events } = replay(fixes);
+
+  assert.deepEqual(events.map(event => event.type), ["start", "stop"]);
+  const stop = events[1] as StopEvent;
+  assert.equal(stop.fix.timestamp, lastFixAtSpeed(fixes, 1).timestamp);
+  assert.equal(toAutoDetectedTrips(events).length, 1);
+});
+
+test("a longer dwell setting outlasts the final parking in the fixture", () => {
+  const fixes = loadFixture("traffic-light");
+  const detector = new TripDetector(getDetectionThresholds(3, 10));
+  const { events } = replay(fixes, 3, detector);
+  assert.deepEqual(events.map(event => event.type), ["start"]);
+  assert.equal(detector.getState(), "driving");
+});
+
+test("a parked car that stops sending fixes is closed by the dwell check", () => {
+  const fixes = loadFixture("parked-dwell");
+  const thresholds = getDetectionThresholds(3);
+  const { detector, events } = replay(fixes);
+
+  // Without speed, the start comes from displacement; the jittery fixes after parking are not movement
+  assert.deepEqual(events.map(event => event.type), ["start"]);
+  assert.equal(detector.getState(), "driving");
+
+  const lastFix = fixes[fixes.length - 1];
+  const lastMovingTimestamp = lastFix.timestamp - MINUTE; // the fixture parks for a minute before going quiet
+  assert.equal(detector.checkDwell(lastMovingTimestamp + thresholds.stopDwellMs - 30 * 1000), null);
+
+  const stop = detector.checkDwell(lastMovingTimestamp + thresholds.stopDwellMs) as StopEvent;
+  assert.equal(stop?.type, "stop");
+  assert.equal(stop.fix.timestamp, lastMovingTimestamp);
+  assert.ok(stop.meetsMinimums);
+  assert.equal(toAutoDetectedTrips([...events, stop]).length, 1);
+});
+
+test("GPS jitter while parked never starts a trip, even at the highest sensitivity", () => {
+  const fixes = loadFixture("parked-jitter");
+  for (let sensitivity = 1; sensitivity <= 5; sensitivity++) {
+    const { detector, events } = replay(fixes, sensitivity);
+    assert.deepEqual(events, [], `sensitivity ${sensitivity}`);
+    assert.equal(detector.getState(), "idle");
+  }
+});
+
+test("a trip below the minimums is reported but not kept", () => {
+  // The first minute of the drive: enough to start, far too short to keep
+  const fixes = loadFixture("drive");
+  const detector = new TripDetector(getDetectionThresholds(1));
+  const startIndex = fixes.indexOf(firstFixAtSpeed(fixes, 14));
+  const { events } = replay(fixes.slice(0, startIndex + 2), 1, detector);
+  const stop = detector.checkDwell(fixes[startIndex + 1].timestamp + getDetectionThresholds(1).stopDwellMs) as StopEvent;
+
+  assert.deepEqual([...events, stop].map(event => event.type), ["start", "stop"]);
+  assert.equal(stop.meetsMinimums, false);
+  assert.deepEqual(toAutoDetectedTrips([...events, stop]), []);
+});
+
+test("a trip resumed after a reload is kept even though its distance only covers the last few fixes", () => {
+  // Reload near the end of the drive: the detector resumes from the trip's saved start
+  const fixes = loadFixture("drive");
+  const thresholds = getDetectionThresholds(3);
+  const [start] = replay(fixes).events;
+  const lastMoving = lastFixAtSpeed(fixes, 1);
+  const reloadIndex = fixes.indexOf(lastMoving) - 3;
+
+  const detector = new TripDetector(thresholds);
+  detector.resumeTrip(start.fix);
+  assert.equal(detector.getState(), "driving");
+  const { events } = replay(fixes.slice(reloadIndex), 3, detector);
+
+  assert.deepEqual(events.map(event => event.type), ["stop"]);
+  const stop = events[0] as StopEvent;
+  assert.equal(stop.resumed, true);
+  assert.equal(stop.startedAt, start.fix.timestamp);
+  assert.equal(stop.fix.timestamp, lastMoving.timestamp);
+  // No straight line from the saved start: only the fixes after the reload count
+  assert.ok(stop.distanceMiles < 0.1, `distance ${stop.distanceMiles}`);
+  assert.equal(stop.meetsMinimums, false);
+  assert.equal(shouldKeepDetectedTrip(stop), true);
+
+  const trips = toAutoDetectedTrips(events, start.fix.timestamp);
+  assert.equal(trips.length, 1);
+  assert.equal(trips[0].startTime, start.fix.timestamp);
+});
+
+test("a resumed trip closed by the dwell check without new fixes is kept", () => {
+  const fixes = loadFixture("drive");
+  const detector = new TripDetector(getDetectionThresholds(3));
+  detector.resumeTrip(fixes[0]);
+  const stop = detector.checkDwell(fixes[0].timestamp + getDetectionThresholds(3).stopDwellMs) as StopEvent;
+  assert.equal(stop.type, "stop");
+  assert.equal(stop.distanceMiles, 0);
+  assert.equal(shouldKeepDetectedTrip(stop), true);
+  assert.equal(detector.getState(), "idle");
+});
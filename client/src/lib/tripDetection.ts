@@ -0,0 +1,204 @@
+// Automatic trip detection. Pure and timer-free so it can be replayed against recorded fixes.
+
+const METERS_PER_MILE = 1609.34;
+const EARTH_RADIUS_METERS = 6371000;
+// Fixes less precise than this are ignored entirely
+const MAX_FIX_ACCURACY_METERS = 100;
+// Speed below which the vehicle counts as stopped, in meters per second (~2 mph)
+const STOPPED_SPEED_MPS = 1;
+
+export const DEFAULT_DWELL_MINUTES = 5;
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  speed?: number | null; // meters per second, when the device reports it
+  timestamp: number; // milliseconds since epoch
+}
+
+export interface DetectionThresholds {
+  startSpeedMps: number;
+  startDisplacementMeters: number;
+  // Displacement must happen within this window to count as driving
+  startWindowMs: number;
+  stopDwellMs: number;
+  minTripMiles: number;
+  minTripDurationMs: number;
+}
+
+export type DetectionState = "idle" | "driving";
+
+export type DetectionEvent =
+  | { type: "start"; fix: GpsFix }
+  | {
+      type: "stop";
+      fix: GpsFix;
+      startedAt: number;
+      distanceMiles: number;
+      durationMs: number;
+      // False when the trip is shorter than the minimum distance or duration
+      meetsMinimums: boolean;
+      // True when the trip was resumed, so the distance only covers fixes seen since then
+      resumed: boolean;
+    };
+
+// Whether a detected trip is saved when it stops. A resumed trip's distance is incomplete and the
+// server already holds its breadcrumbs, so it is always kept; the server measures the whole route.
+export function shouldKeepDetectedTrip(event: Extract<DetectionEvent, { type: "stop" }>): boolean {
+  return event.resumed || event.meetsMinimums;
+}
+
+// Sensitivity 1 (low) to 5 (high): higher sensitivity starts trips at lower speeds and shorter moves
+const SENSITIVITY_LEVELS = [
+  { startSpeedMph: 15, startDisplacementMeters: 400, minTripMiles: 1, minTripMinutes: 4 },
+  { startSpeedMph: 12, startDisplacementMeters: 300, minTripMiles: 0.75, minTripMinutes: 3 },
+  { startSpeedMph: 10, startDisplacementMeters: 200, minTripMiles: 0.5, minTripMinutes: 2 },
+  { startSpeedMph: 8, startDisplacementMeters: 150, minTripMiles: 0.3, minTripMinutes: 1.5 },
+  { startSpeedMph: 6, startDisplacementMeters: 100, minTripMiles: 0.2, minTripMinutes: 1 },
+];
+
+export function getDetectionThresholds(
+  sensitivity: number = 3,
+  dwellMinutes: number = DEFAULT_DWELL_MINUTES
+): DetectionThresholds {
+  const index = Math.min(Math.max(Math.round(sensitivity), 1), SENSITIVITY_LEVELS.length) - 1;
+  const level = SENSITIVITY_LEVELS[index];
+  return {
+    startSpeedMps: level.startSpeedMph * METERS_PER_MILE / 3600,
+    startDisplacementMeters: level.startDisplacementMeters,
+    startWindowMs: 2 * 60 * 1000,
+    stopDwellMs: dwellMinutes * 60 * 1000,
+    minTripMiles: level.minTripMiles,
+    minTripDurationMs: level.minTripMinutes * 60 * 1000,
+  };
+}
+
+function distanceMeters(from: GpsFix, to: GpsFix): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+export class TripDetector {
+  private state: DetectionState = "idle";
+  // Idle: recent fixes used to measure displacement. Driving: unused.
+  private recentFixes: GpsFix[] = [];
+  private tripStart: GpsFix | null = null;
+  private lastFix: GpsFix | null = null;
+  private lastMovingFix: GpsFix | null = null;
+  private distanceMeters = 0;
+  private resumed = false;
+
+  constructor(private thresholds: DetectionThresholds) {}
+
+  getState(): DetectionState {
+    return this.state;
+  }
+
+  setThresholds(thresholds: DetectionThresholds) {
+    this.thresholds = thresholds;
+  }
+
+  // Resume tracking a trip that was already open, e.g. after a page reload. The route driven before
+  // the reload is unknown here, so distance is only counted from the next fix on.
+  resumeTrip(startFix: GpsFix) {
+    this.state = "driving";
+    this.tripStart = startFix;
+    this.lastFix = null;
+    this.lastMovingFix = startFix;
+    this.distanceMeters = 0;
+    this.resumed = true;
+  }
+
+  reset() {
+    this.state = "idle";
+    this.recentFixes = [];
+    this.tripStart = null;
+    this.lastFix = null;
+    this.lastMovingFix = null;
+    this.distanceMeters = 0;
+    this.resumed = false;
+  }
+
+  // Feed one fix; returns an event when a trip starts or stops
+  process(fix: GpsFix): DetectionEvent | null {
+    if (fix.accuracy != null && fix.accuracy > MAX_FIX_ACCURACY_METERS) return null;
+    if (this.lastFix && fix.timestamp <= this.lastFix.timestamp) return null;
+
+    return this.state === "idle" ? this.processIdle(fix) : this.processDriving(fix);
+  }
+
+  // Time-based check for when fixes stop arriving while parked
+  checkDwell(now: number): DetectionEvent | null {
+    if (this.state !== "driving" || !this.lastMovingFix) return null;
+    if (now - this.lastMovingFix.timestamp < this.thresholds.stopDwellMs) return null;
+    return this.stopTrip();
+  }
+
+  private processIdle(fix: GpsFix): DetectionEvent | null {
+    this.lastFix = fix;
+    this.recentFixes = this.recentFixes
+      .filter(recent => fix.timestamp - recent.timestamp <= this.thresholds.startWindowMs);
+    this.recentFixes.push(fix);
+
+    const anchor = this.recentFixes[0];
+    const fastEnough = fix.speed != null && fix.speed >= this.thresholds.startSpeedMps;
+    const farEnough = distanceMeters(anchor, fix) >= this.thresholds.startDisplacementMeters;
+    if (!fastEnough && !farEnough) return null;
+
+    // The trip began where the movement was first seen
+    this.state = "driving";
+    this.tripStart = anchor;
+    this.lastMovingFix = fix;
+    this.distanceMeters = distanceMeters(anchor, fix);
+    this.recentFixes = [];
+    return { type: "start", fix: anchor };
+  }
+
+  private processDriving(fix: GpsFix): DetectionEvent | null {
+    const previous = this.lastFix;
+    if (!previous) {
+      // First fix after resuming: nothing to measure from yet
+      this.lastFix = fix;
+      if (fix.speed != null && fix.speed >= STOPPED_SPEED_MPS) this.lastMovingFix = fix;
+      return this.checkDwell(fix.timestamp);
+    }
+    const moved = distanceMeters(previous, fix);
+    const jitter = Math.max(fix.accuracy || 0, previous.accuracy || 0, 10);
+    const isMoving = fix.speed != null ? fix.speed >= STOPPED_SPEED_MPS : moved > jitter;
+
+    if (moved > jitter) {
+      this.distanceMeters += moved;
+      this.lastFix = fix;
+    }
+
+    if (isMoving) {
+      this.lastMovingFix = fix;
+      return null;
+    }
+
+    return this.checkDwell(fix.timestamp);
+  }
+
+  private stopTrip(): DetectionEvent {
+    const start = this.tripStart!;
+    const end = this.lastMovingFix!;
+    const distanceMiles = this.distanceMeters / METERS_PER_MILE;
+    const durationMs = end.timestamp - start.timestamp;
+    const event: DetectionEvent = {
+      type: "stop",
+      fix: end,
+      startedAt: start.timestamp,
+      distanceMiles,
+      durationMs,
+      meetsMinimums: distanceMiles >= this.thresholds.minTripMiles && durationMs >= this.thresholds.minTripDurationMs,
+      resumed: this.resumed,
+    };
+    this.reset();
+    return event;
+  }
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkAddress, cleanAddress, detectAddressColumns } from "./addresses";
+
+test("cleanAddress joins split columns and leaves a Connecticut state alone", () => {
+  assert.equal(cleanAddress("123 Main St, , Hartford, CT, 06103"), "123 Main Street, Hartford, CT 06103");
+  assert.equal(cleanAddress("123 Main St, Hartford, CT"), "123 Main Street, Hartford, CT");
+  assert.equal(cleanAddress("  45  Elm Ct ,, New Haven,ct,06510  "), "45 Elm Court, New Haven, CT 06510");
+});
+
+test("cleanAddress expands a street suffix only at the end of the street or before the unit", () => {
+  assert.equal(cleanAddress("500 Market St Suite 200, St. Louis, MO 63101"), "500 Market Street Suite 200, St. Louis, MO 63101");
+  assert.equal(cleanAddress("9 Oak Dr."), "9 Oak Drive");
+  assert.equal(cleanAddress("12 St Marks Pl, Dr Smith Clinic"), "12 St Marks Pl, Dr Smith Clinic");
+});
+
+test("cleanAddress formats a separate state and zip", () => {
+  assert.equal(cleanAddress("1 State Rd, Springfield, il, 62701-1234"), "1 State Road, Springfield, IL 62701-1234");
+  assert.equal(cleanAddress(", , "), "");
+});
+
+test("checkAddress accepts a street number with a city or zip", () => {
+  assert.equal(checkAddress("123 Main Street, Hartford, CT 06103"), null);
+  assert.equal(checkAddress("123 Main Street 06103"), null);
+  assert.equal(checkAddress("PO Box 12, Hartford"), null);
+});
+
+test("checkAddress flags incomplete and ambiguous addresses", () => {
+  assert.deepEqual(checkAddress(""), { status: "incomplete", reason: "No address" });
+  assert.deepEqual(checkAddress("123 Main Street"), { status: "ambiguous", reason: "No city or ZIP code" });
+  assert.deepEqual(checkAddress("Main Street, Hartford"), { status: "incomplete", reason: "No street number" });
+  assert.deepEqual(checkAddress("Home office"), { status: "ambiguous", reason: "Not a full address or a saved place" });
+});
+
+test("detectAddressColumns needs a street plus a city or zip", () => {
+  assert.deepEqual(detectAddressColumns(["Date", "ZIP", "City", "State", "Street Address"]), ["Street Address", "City", "State", "ZIP"]);
+  assert.equal(detectAddressColumns(["Date", "Address", "State"]), null);
+});
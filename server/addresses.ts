@@ -0,0 +1,94 @@
+// Address clean-up and checks for schedule imports, run before any routing call is made
+
+export type AddressComponent = "street" | "unit" | "city" | "state" | "zip";
+
+export interface AddressIssue {
+  status: "incomplete" | "ambiguous";
+  reason: string;
+}
+
+// Joined in this order when a file splits addresses across columns
+const ADDRESS_COMPONENT_PATTERNS: Array<[AddressComponent, RegExp]> = [
+  ["street", /^(street( address)?|address( line)? ?1|addr ?1|address|addr)$/],
+  ["unit", /^(address( line)? ?2|addr ?2|suite|unit|apt|apartment)$/],
+  ["city", /^(city|town)$/],
+  ["state", /^(state|province|st)$/],
+  ["zip", /^(zip|zip ?code|postal ?code|postcode)$/],
+];
+
+const STREET_SUFFIXES: Record<string, string> = {
+  st: "Street",
+  ave: "Avenue",
+  blvd: "Boulevard",
+  rd: "Road",
+  dr: "Drive",
+  ln: "Lane",
+  ct: "Court",
+  hwy: "Highway",
+  pkwy: "Parkway",
+};
+
+const ZIP_PATTERN = /\s\d{5}(-\d{4})?\b/; // not at the start, where it would be a street number
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Street, city, state and zip columns in join order; null unless there is a street plus a city or zip
+export function detectAddressColumns(headers: string[]): string[] | null {
+  const found = new Map<AddressComponent, string>();
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const match = ADDRESS_COMPONENT_PATTERNS.find(([component, pattern]) => !found.has(component) && pattern.test(normalized));
+    if (match) found.set(match[0], header);
+  }
+
+  if (!found.has("street") || (!found.has("city") && !found.has("zip"))) return null;
+  return ADDRESS_COMPONENT_PATTERNS
+    .map(([component]) => found.get(component))
+    .filter((header): header is string => Boolean(header));
+}
+
+// Expands a suffix abbreviation at the end of the street, or before the unit, so "St. Louis" stays a city
+function expandStreetSuffix(street: string): string {
+  const suffixes = Object.keys(STREET_SUFFIXES).join("|");
+  return street.replace(
+    new RegExp(`\\b(${suffixes})\\.?(?=$|\\s+(apt|suite|ste|unit|#))`, 'gi'),
+    (_match, suffix: string) => STREET_SUFFIXES[suffix.toLowerCase()]
+  );
+}
+
+export function cleanAddress(address: string): string {
+  const cleaned = address
+    .replace(/\s+/g, ' ') // Replace multiple spaces with single space
+    .replace(/(,\s*)+,/g, ',') // Remove duplicate commas, including ones left by empty columns
+    .replace(/\s*,\s*/g, ', ') // Normalize comma spacing
+    .replace(/^[,\s]+|[,\s]+$/g, ''); // Drop leading and trailing commas
+
+  // Only the street part, before the first comma, can end in a suffix; a later "CT" is the state
+  const streetEnd = cleaned.indexOf(',');
+  const street = streetEnd === -1 ? cleaned : cleaned.slice(0, streetEnd);
+  return (expandStreetSuffix(street) + cleaned.slice(street.length))
+    // "il, 62701" from separate state and zip columns reads as "IL 62701"
+    .replace(/,\s*([a-z]{2}),?\s+(\d{5}(?:-\d{4})?)$/i, (_match, state: string, zip: string) => `, ${state.toUpperCase()} ${zip}`)
+    .trim();
+}
+
+// Flags addresses the routing provider is likely to reject or resolve to the wrong place
+export function checkAddress(address: string): AddressIssue | null {
+  if (!address.trim()) {
+    return { status: "incomplete", reason: "No address" };
+  }
+
+  const hasStreetNumber = /^\d+[a-z]?\b/i.test(address) || /\bp\.?\s?o\.?\s+box\b/i.test(address);
+  const hasLocality = ZIP_PATTERN.test(address) || /,\s*[^,\d]{2,}/.test(address);
+
+  if (hasStreetNumber && hasLocality) return null;
+  if (hasStreetNumber) {
+    return { status: "ambiguous", reason: "No city or ZIP code" };
+  }
+  if (hasLocality) {
+    return { status: "incomplete", reason: "No street number" };
+  }
+  return { status: "ambiguous", reason: "Not a full address or a saved place" };
+}
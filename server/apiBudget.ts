@@ -0,0 +1,95 @@
+import type { AppSettings } from "@shared/schema";
+import { storage } from "./storage";
+
+const DEFAULT_ALERT_PERCENT = 80;
+
+export interface ApiBudgetStatus {
+  month: string;
+  callLimit: number | null;
+  costLimit: number | null; // dollars
+  alertPercent: number;
+  billedCalls: number;
+  billedCost: number;
+  // Share of the tighter limit used so far; null when no budget is set
+  percentUsed: number | null;
+  alert: boolean;
+  exceeded: boolean;
+}
+
+// Raised before a billed call that would go over the user's monthly budget
+export class ApiBudgetExceededError extends Error {
+  constructor(public status: ApiBudgetStatus) {
+    super(`Monthly API budget reached (${describeBudgetUsage(status)}). Raise the budget in Settings or wait until next month.`);
+    this.name = "ApiBudgetExceededError";
+  }
+}
+
+function getCurrentMonth(): string {
+  return new Date().toISOString().slice(0, 7); // YYYY-MM format
+}
+
+export function describeBudgetUsage(status: ApiBudgetStatus): string {
+  const parts: string[] = [];
+  if (status.callLimit != null) parts.push(`${status.billedCalls} of ${status.callLimit} calls`);
+  if (status.costLimit != null) parts.push(`$${status.billedCost.toFixed(2)} of $${status.costLimit.toFixed(2)}`);
+  return parts.join(', ');
+}
+
+export async function getApiBudgetStatus(
+  userId: string,
+  settings?: AppSettings | null,
+  month: string = getCurrentMonth()
+): Promise<ApiBudgetStatus> {
+  const usage = await storage.getApiUsage(userId, month);
+  // Cache hits and self-hosted services are recorded at no cost and don't count toward the budget
+  const billedUsage = usage.filter(u => (u.totalCost || 0) > 0);
+  const billedCalls = billedUsage.reduce((sum, u) => sum + (u.callCount || 0), 0);
+  const billedCost = billedUsage.reduce((sum, u) => sum + (u.totalCost || 0), 0);
+
+  const callLimit = settings?.monthlyApiCallBudget ?? null;
+  const costLimit = settings?.monthlyApiCostBudget ?? null;
+  const ratios = [
+    callLimit != null ? (callLimit > 0 ? billedCalls / callLimit : 1) : null,
+    costLimit != null ? (costLimit > 0 ? billedCost / costLimit : 1) : null
+  ].filter((ratio): ratio is number => ratio !== null);
+  const percentUsed = ratios.length > 0 ? Math.max(...ratios) * 100 : null;
+  const alertPercent = settings?.apiBudgetAlertPercent ?? DEFAULT_ALERT_PERCENT;
+
+  return {
+    month,
+    callLimit,
+    costLimit,
+    alertPercent,
+    billedCalls,
+    billedCost,
+    percentUsed,
+    alert: percentUsed !== null && percentUsed >= alertPercent,
+    exceeded: percentUsed !== null && percentUsed >= 100
+  };
+}
+
+// Billed calls that still fit in the budget at the given price; null means unlimited
+export function getRemainingCalls(status: ApiBudgetStatus, costPerCall: number): number | null {
+  const limits: number[] = [];
+  if (status.callLimit != null) {
+    limits.push(status.callLimit - status.billedCalls);
+  }
+  if (status.costLimit != null && costPerCall > 0) {
+    // Rounded so floating point sums don't lose the last affordable call
+    limits.push(Math.floor(Math.round((status.costLimit - status.billedCost) / costPerCall * 1e6) / 1e6));
+  }
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+}
+
+// Called before every tracked request; free services are never blocked
+export async function assertWithinApiBudget(userId: string, costPerCall: number): Promise<void> {
+  if (costPerCall <= 0) return;
+  const settings = await storage.getUserSettings(userId);
+  if (settings?.monthlyApiCallBudget == null && settings?.monthlyApiCostBudget == null) return;
+
+  const status = await getApiBudgetStatus(userId, settings);
+  const remainingCalls = getRemainingCalls(status, costPerCall);
+  if (remainingCalls !== null && remainingCalls < 1) {
+    throw new ApiBudgetExceededError(status);
+  }
+}
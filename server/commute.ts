@@ -0,0 +1,41 @@
+import type { AppSettings, ScheduleEntry } from "@shared/schema";
+
+// How driving between home and the first/last stop of a day is treated (IRS Publication 463, ch. 4):
+//  home_office            home is the principal place of business, so no leg is commuting
+//  first_last_leg         home → first stop and last stop → home are non-deductible commuting
+//  beyond_normal_commute  only the part of those legs beyond the user's normal commute is deductible
+export type CommutePolicy = "home_office" | "first_last_leg" | "beyond_normal_commute";
+
+export const COMMUTE_POLICIES: CommutePolicy[] = ["home_office", "first_last_leg", "beyond_normal_commute"];
+
+export interface RouteLeg {
+  distance: number; // miles
+  fromHome: boolean;
+  toHome: boolean;
+}
+
+export function getCommutePolicy(settings?: AppSettings | null): CommutePolicy {
+  const policy = settings?.commutePolicy as CommutePolicy | null | undefined;
+  return policy && COMMUTE_POLICIES.includes(policy) ? policy : "home_office";
+}
+
+// Whether a leg counts as commuting, in full or in part, under the user's policy. Only legs that start
+// or end at home can be commuting; legs from or to a hotel on an overnight trip are business travel.
+export function isCommuteLeg(leg: Pick<RouteLeg, "fromHome" | "toHome">, settings?: AppSettings | null): boolean {
+  return getCommutePolicy(settings) !== "home_office" && leg.fromHome !== leg.toHome;
+}
+
+// Non-deductible miles of one day's route
+export function getCommuteMiles(legs: RouteLeg[], settings?: AppSettings | null): number {
+  const policy = getCommutePolicy(settings);
+  if (policy === "home_office") return 0;
+
+  const normalCommuteMiles = Math.max(0, settings?.normalCommuteMiles || 0);
+  return legs
+    .filter(leg => isCommuteLeg(leg, settings))
+    .reduce((sum, leg) => sum + (policy === "first_last_leg" ? leg.distance : Math.min(leg.distance, normalCommuteMiles)), 0);
+}
+
+export function getDeductibleMiles(entry: Pick<ScheduleEntry, "calculatedDistance" | "commuteMiles">): number {
+  return Math.max(0, (entry.calculatedDistance || 0) - (entry.commuteMiles || 0));
+}
@@ -0,0 +1,329 @@
+import type { AppSettings, RouteCacheEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { assertWithinApiBudget } from "./apiBudget";
+
+const METERS_PER_MILE = 1609.34;
+const EARTH_RADIUS_METERS = 6371000;
+// Used to estimate drive time for straight-line distances
+const HAVERSINE_AVERAGE_SPEED_MPH = 35;
+const DEFAULT_ROAD_FACTOR = 1.2;
+const DEFAULT_ROUTE_CACHE_TTL_DAYS = 90;
+
+export type DistanceProviderName = "google" | "osrm" | "graphhopper" | "haversine";
+
+export const DISTANCE_PROVIDERS: DistanceProviderName[] = ["google", "osrm", "graphhopper", "haversine"];
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteResult {
+  distance: number; // miles
+  duration: number; // seconds
+  startAddress: string;
+  endAddress: string;
+  provider?: string;
+  cached?: boolean;
+  skipped?: boolean;
+  reason?: string;
+}
+
+export interface DistanceProvider {
+  readonly name: DistanceProviderName;
+  // Whether results are worth storing in the route cache
+  readonly cacheable: boolean;
+  // Billing details for providers that charge per request
+  readonly usage?: { apiProvider: string; endpoint: string; costPerCall: number };
+  getRoute(startAddress: string, endAddress: string): Promise<RouteResult>;
+}
+
+// Accepts "lat, lng" strings so trips and pinned locations skip geocoding
+export function parseCoordinates(address: string): Coordinates | null {
+  const match = address.trim().match(/^(-?\d{1,3}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+export function haversineMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+// Resolve an address to coordinates via a Nominatim-compatible /search endpoint
+export async function resolveCoordinates(address: string, geocoderUrl?: string | null): Promise<Coordinates> {
+  const parsed = parseCoordinates(address);
+  if (parsed) return parsed;
+
+  if (!geocoderUrl) {
+    throw new Error(`Cannot resolve "${address}" without a geocoding service URL`);
+  }
+
+  const url = `${geocoderUrl.replace(/\/+$/, '')}/search?format=json&limit=1&q=${encodeURIComponent(address)}`;
+  const response = await fetch(url, { headers: { 'User-Agent': 'RouteRover' } });
+  if (!response.ok) {
+    throw new Error(`Geocoding service error: ${response.status}`);
+  }
+
+  const results = await response.json();
+  if (!Array.isArray(results) || results.length === 0) {
+    throw new Error(`Address not found: ${address}`);
+  }
+  return { lat: parseFloat(results[0].lat), lng: parseFloat(results[0].lon) };
+}
+
+export class GoogleDistanceProvider implements DistanceProvider {
+  readonly name = "google";
+  readonly cacheable = true;
+  readonly usage = {
+    apiProvider: 'google_directions',
+    endpoint: '/directions',
+    costPerCall: 0.005 // $0.005 per request is Google's current rate
+  };
+
+  constructor(private apiKey: string) {}
+
+  async getRoute(startAddress: string, endAddress: string): Promise<RouteResult> {
+    const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(startAddress)}&destination=${encodeURIComponent(endAddress)}&key=${this.apiKey}`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.status === "OK" && data.routes.length > 0) {
+      const leg = data.routes[0].legs[0];
+      return {
+        distance: leg.distance.value / METERS_PER_MILE,
+        duration: leg.duration.value,
+        startAddress: leg.start_address,
+        endAddress: leg.end_address,
+        provider: this.name
+      };
+    }
+    throw new Error(`Google Directions API error: ${data.status}`);
+  }
+}
+
+// Self-hosted OSRM router (http://project-osrm.org/docs/v5.24.0/api/#route-service)
+export class OsrmDistanceProvider implements DistanceProvider {
+  readonly name = "osrm";
+  readonly cacheable = true;
+
+  constructor(private baseUrl: string, private geocoderUrl?: string | null) {}
+
+  async getRoute(startAddress: string, endAddress: string): Promise<RouteResult> {
+    const from = await resolveCoordinates(startAddress, this.geocoderUrl);
+    const to = await resolveCoordinates(endAddress, this.geocoderUrl);
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.code === "Ok" && data.routes?.length > 0) {
+      return {
+        distance: data.routes[0].distance / METERS_PER_MILE,
+        duration: data.routes[0].duration,
+        startAddress,
+        endAddress,
+        provider: this.name
+      };
+    }
+    throw new Error(`OSRM routing error: ${data.code || response.status}`);
+  }
+}
+
+// Self-hosted GraphHopper router (https://docs.graphhopper.com/#operation/getRoute)
+export class GraphHopperDistanceProvider implements DistanceProvider {
+  readonly name = "graphhopper";
+  readonly cacheable = true;
+
+  constructor(private baseUrl: string, private geocoderUrl?: string | null) {}
+
+  async getRoute(startAddress: string, endAddress: string): Promise<RouteResult> {
+    const from = await resolveCoordinates(startAddress, this.geocoderUrl);
+    const to = await resolveCoordinates(endAddress, this.geocoderUrl);
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/route?point=${from.lat},${from.lng}&point=${to.lat},${to.lng}&profile=car&calc_points=false`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (response.ok && data.paths?.length > 0) {
+      return {
+        distance: data.paths[0].distance / METERS_PER_MILE,
+        duration: data.paths[0].time / 1000, // milliseconds
+        startAddress,
+        endAddress,
+        provider: this.name
+      };
+    }
+    throw new Error(`GraphHopper routing error: ${data.message || response.status}`);
+  }
+}
+
+// Straight-line distance scaled by a road factor; needs no routing service at all
+export class HaversineDistanceProvider implements DistanceProvider {
+  readonly name = "haversine";
+  // Computed locally, and results depend on the configured road factor
+  readonly cacheable = false;
+
+  constructor(private roadFactor: number = DEFAULT_ROAD_FACTOR, private geocoderUrl?: string | null) {}
+
+  async getRoute(startAddress: string, endAddress: string): Promise<RouteResult> {
+    const from = await resolveCoordinates(startAddress, this.geocoderUrl);
+    const to = await resolveCoordinates(endAddress, this.geocoderUrl);
+    const distance = haversineMeters(from, to) / METERS_PER_MILE * this.roadFactor;
+    return {
+      distance,
+      duration: distance / HAVERSINE_AVERAGE_SPEED_MPH * 3600,
+      startAddress,
+      endAddress,
+      provider: this.name
+    };
+  }
+}
+
+// Cache key for an address: case, punctuation and spacing differences map to the same route
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.#]/g, '')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function isSameAddress(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function getRouteCacheTtlDays(settings?: AppSettings | null): number {
+  return settings?.routeCacheTtlDays ?? DEFAULT_ROUTE_CACHE_TTL_DAYS;
+}
+
+// Build the provider selected in the user's settings. Throws when it is not configured.
+export function createDistanceProvider(settings?: AppSettings | null): DistanceProvider {
+  const providerName = (settings?.distanceProvider || "google") as DistanceProviderName;
+
+  switch (providerName) {
+    case "google":
+      if (!settings?.googleApiKey) {
+        throw new Error("Google API key not configured");
+      }
+      return new GoogleDistanceProvider(settings.googleApiKey);
+    case "osrm":
+    case "graphhopper":
+      if (!settings?.routingServiceUrl) {
+        throw new Error("Routing service URL not configured");
+      }
+      return providerName === "osrm"
+        ? new OsrmDistanceProvider(settings.routingServiceUrl, settings.geocodingServiceUrl)
+        : new GraphHopperDistanceProvider(settings.routingServiceUrl, settings.geocodingServiceUrl);
+    case "haversine":
+      return new HaversineDistanceProvider(settings?.roadFactor || DEFAULT_ROAD_FACTOR, settings?.geocodingServiceUrl);
+    default:
+      throw new Error(`Unknown distance provider: ${providerName}`);
+  }
+}
+
+// Unexpired route cache entry for the address pair, if any
+export async function findCachedRoute(
+  startAddress: string,
+  endAddress: string,
+  provider: DistanceProvider,
+  userId: string,
+  cacheTtlDays: number
+): Promise<RouteCacheEntry | undefined> {
+  if (!provider.cacheable || cacheTtlDays <= 0) return undefined;
+  const cachedRoute = await storage.getCachedRoute(userId, normalizeAddress(startAddress), normalizeAddress(endAddress), provider.name);
+  const maxAgeMs = cacheTtlDays * 24 * 60 * 60 * 1000;
+  return cachedRoute && Date.now() - new Date(cachedRoute.cachedAt).getTime() < maxAgeMs ? cachedRoute : undefined;
+}
+
+export async function calculateRoute(
+  startAddress: string,
+  endAddress: string,
+  provider: DistanceProvider,
+  userId?: string,
+  cacheTtlDays: number = DEFAULT_ROUTE_CACHE_TTL_DAYS
+): Promise<RouteResult> {
+  // Skip calculation if start and end addresses are the same
+  if (isSameAddress(startAddress, endAddress)) {
+    return {
+      distance: 0,
+      duration: 0,
+      startAddress: startAddress,
+      endAddress: endAddress,
+      skipped: true,
+      reason: "Same start and end location"
+    };
+  }
+
+  const useCache = Boolean(userId) && provider.cacheable && cacheTtlDays > 0;
+  const originKey = normalizeAddress(startAddress);
+  const destinationKey = normalizeAddress(endAddress);
+
+  if (useCache) {
+    const cachedRoute = await findCachedRoute(startAddress, endAddress, provider, userId!, cacheTtlDays);
+    if (cachedRoute) {
+      await storage.trackApiCall({
+        userId,
+        apiProvider: 'route_cache',
+        endpoint: `/${provider.name}`,
+        callCount: 1,
+        month: new Date().toISOString().slice(0, 7),
+        lastCalled: new Date(),
+        totalCost: 0
+      });
+      return {
+        distance: cachedRoute.distance,
+        duration: cachedRoute.duration,
+        startAddress,
+        endAddress,
+        provider: provider.name,
+        cached: true
+      };
+    }
+  }
+
+  if (userId && provider.usage) {
+    await assertWithinApiBudget(userId, provider.usage.costPerCall);
+  }
+
+  let route: RouteResult;
+  try {
+    route = await provider.getRoute(startAddress, endAddress);
+  } catch (error) {
+    throw new Error(`Failed to calculate route: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    // Track API usage for billed providers if userId is provided
+    if (userId && provider.usage) {
+      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+      await storage.trackApiCall({
+        userId,
+        apiProvider: provider.usage.apiProvider,
+        endpoint: provider.usage.endpoint,
+        callCount: 1,
+        month: currentMonth,
+        lastCalled: new Date(),
+        totalCost: provider.usage.costPerCall
+      });
+    }
+  }
+
+  if (useCache) {
+    await storage.saveCachedRoute({
+      userId,
+      originKey,
+      destinationKey,
+      provider: provider.name,
+      distance: route.distance,
+      duration: route.duration,
+      cachedAt: new Date()
+    });
+  }
+
+  return route;
+}
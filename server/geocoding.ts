@@ -0,0 +1,203 @@
+import type { AppSettings, Trip } from "@shared/schema";
+import { storage } from "./storage";
+import type { Coordinates } from "./distance";
+import { assertWithinApiBudget } from "./apiBudget";
+import { getLocationCoordinates, isLocationObject } from "./places";
+
+export type GeocodingProviderName = "google" | "nominatim" | "none";
+
+export const GEOCODING_PROVIDERS: GeocodingProviderName[] = ["google", "nominatim", "none"];
+
+export interface GeocodingProvider {
+  readonly name: GeocodingProviderName;
+  // Whether results are worth storing in the geocode cache
+  readonly cacheable: boolean;
+  // Usage tracking details; costPerCall is 0 for self-hosted services
+  readonly usage?: { apiProvider: string; endpoint: string; costPerCall: number };
+  // Returns null when the service has no address for the coordinates
+  reverseGeocode(coordinates: Coordinates): Promise<string | null>;
+}
+
+// https://developers.google.com/maps/documentation/geocoding/requests-reverse-geocoding
+export class GoogleGeocodingProvider implements GeocodingProvider {
+  readonly name = "google";
+  readonly cacheable = true;
+  readonly usage = {
+    apiProvider: 'google_geocoding',
+    endpoint: '/geocode',
+    costPerCall: 0.005
+  };
+
+  constructor(private apiKey: string) {}
+
+  async reverseGeocode({ lat, lng }: Coordinates): Promise<string | null> {
+    const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&key=${this.apiKey}`;
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.status === "OK" && data.results.length > 0) {
+      return data.results[0].formatted_address;
+    }
+    if (data.status === "ZERO_RESULTS") return null;
+    throw new Error(`Google Geocoding API error: ${data.status}`);
+  }
+}
+
+// Self-hosted Nominatim or a compatible /reverse endpoint (https://nominatim.org/release-docs/latest/api/Reverse/)
+export class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = "nominatim";
+  readonly cacheable = true;
+  readonly usage = {
+    apiProvider: 'nominatim',
+    endpoint: '/reverse',
+    costPerCall: 0
+  };
+
+  constructor(private baseUrl: string) {}
+
+  async reverseGeocode({ lat, lng }: Coordinates): Promise<string | null> {
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/reverse?format=jsonv2&lat=${lat}&lon=${lng}`;
+    const response = await fetch(url, { headers: { 'User-Agent': 'RouteRover' } });
+    if (!response.ok) {
+      throw new Error(`Geocoding service error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    // Nominatim answers unknown locations with 200 and an error message
+    return data.error ? null : data.display_name || null;
+  }
+}
+
+// Leaves trip locations as coordinates
+export class NoopGeocodingProvider implements GeocodingProvider {
+  readonly name = "none";
+  readonly cacheable = false;
+
+  async reverseGeocode(): Promise<string | null> {
+    return null;
+  }
+}
+
+// Build the provider selected in the user's settings. Throws when it is not configured.
+export function createGeocodingProvider(settings?: AppSettings | null): GeocodingProvider {
+  const providerName = (settings?.geocodingProvider || "none") as GeocodingProviderName;
+
+  switch (providerName) {
+    case "google":
+      if (!settings?.googleApiKey) {
+        throw new Error("Google API key not configured");
+      }
+      return new GoogleGeocodingProvider(settings.googleApiKey);
+    case "nominatim":
+      if (!settings?.geocodingServiceUrl) {
+        throw new Error("Geocoding service URL not configured");
+      }
+      return new NominatimGeocodingProvider(settings.geocodingServiceUrl);
+    case "none":
+      return new NoopGeocodingProvider();
+    default:
+      throw new Error(`Unknown geocoding provider: ${providerName}`);
+  }
+}
+
+// Four decimals is ~11 m, close enough that nearby fixes share an address
+export function getCoordinateKey({ lat, lng }: Coordinates): string {
+  return `${lat.toFixed(4)},${lng.toFixed(4)}`;
+}
+
+export async function reverseGeocode(
+  coordinates: Coordinates,
+  provider: GeocodingProvider,
+  userId: string
+): Promise<string | null> {
+  const coordinateKey = getCoordinateKey(coordinates);
+  const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+
+  // Addresses rarely change, so cached results do not expire
+  if (provider.cacheable) {
+    const cached = await storage.getCachedGeocode(userId, coordinateKey, provider.name);
+    if (cached) {
+      await storage.trackApiCall({
+        userId,
+        apiProvider: 'geocode_cache',
+        endpoint: `/${provider.name}`,
+        callCount: 1,
+        month: currentMonth,
+        lastCalled: new Date(),
+        totalCost: 0
+      });
+      return cached.address;
+    }
+  }
+
+  if (provider.usage) {
+    await assertWithinApiBudget(userId, provider.usage.costPerCall);
+  }
+
+  let address: string | null;
+  try {
+    address = await provider.reverseGeocode(coordinates);
+  } finally {
+    if (provider.usage) {
+      await storage.trackApiCall({
+        userId,
+        apiProvider: provider.usage.apiProvider,
+        endpoint: provider.usage.endpoint,
+        callCount: 1,
+        month: currentMonth,
+        lastCalled: new Date(),
+        totalCost: provider.usage.costPerCall
+      });
+    }
+  }
+
+  if (address && provider.cacheable) {
+    await storage.saveCachedGeocode({
+      userId,
+      coordinateKey,
+      provider: provider.name,
+      address,
+      cachedAt: new Date()
+    });
+  }
+  return address;
+}
+
+// Fill a missing `address` on the trip's start and end locations. Failures are logged and leave
+// the trip unchanged, so closing a trip never fails because of geocoding.
+export async function fillTripAddresses(userId: string, trip: Trip): Promise<Trip> {
+  const settings = await storage.getUserSettings(userId);
+  let provider: GeocodingProvider;
+  try {
+    provider = createGeocodingProvider(settings);
+  } catch {
+    return trip;
+  }
+  if (provider.name === "none") return trip;
+
+  const updates: Partial<Trip> = {};
+  for (const field of ["startLocation", "endLocation"] as const) {
+    const location = trip[field];
+    const coordinates = getLocationCoordinates(location);
+    if (!isLocationObject(location) || location.address || !coordinates) continue;
+    const { lat, lng } = coordinates;
+
+    try {
+      const address = await reverseGeocode(coordinates, provider, userId);
+      if (address) {
+        updates[field] = { ...location, address };
+      }
+    } catch (error) {
+      await storage.createErrorLog({
+        userId,
+        errorType: 'reverse_geocoding',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        context: { tripId: trip.id, field, lat, lng },
+        timestamp: new Date()
+      });
+    }
+  }
+
+  if (Object.keys(updates).length === 0) return trip;
+  return (await storage.updateTrip(trip.id, updates)) || trip;
+}
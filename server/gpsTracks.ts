@@ -0,0 +1,203 @@
+import type { Trip, TripPoint } from "@shared/schema";
+
+export type TrackFormat = "gpx" | "kml";
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  time: Date | null;
+}
+
+export interface ParsedTrack {
+  name: string | null;
+  points: TrackPoint[];
+}
+
+export interface TripTrack {
+  trip: Trip;
+  points: TripPoint[];
+}
+
+export function getTrackFormat(fileName: string): TrackFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === "gpx" || extension === "kml" ? extension : null;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Inner text of every <tag>…</tag>, ignoring namespace prefixes
+function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function getElementText(xml: string, tag: string): string | null {
+  const [element] = getElements(xml, tag);
+  return element === undefined ? null : decodeXml(element);
+}
+
+function parseTime(value: string | null): Date | null {
+  if (!value) return null;
+  const time = new Date(value);
+  return isNaN(time.getTime()) ? null : time;
+}
+
+function isValidPoint(point: TrackPoint): boolean {
+  return Number.isFinite(point.latitude) && Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+}
+
+// GPX 1.1: <trk><trkseg><trkpt lat lon><time/></trkpt>; routes (<rte>) are read when there are no tracks
+export function parseGpx(xml: string): ParsedTrack[] {
+  const parsePoints = (body: string, pointTag: string): TrackPoint[] => {
+    const pattern = new RegExp(`<${pointTag}\\s([^>]*?)(?:/>|>([\\s\\S]*?)</${pointTag}>)`, 'g');
+    return Array.from(body.matchAll(pattern), match => {
+      const attributes = match[1];
+      const lat = attributes.match(/lat\s*=\s*["']([^"']+)["']/);
+      const lon = attributes.match(/lon\s*=\s*["']([^"']+)["']/);
+      return {
+        latitude: lat ? parseFloat(lat[1]) : NaN,
+        longitude: lon ? parseFloat(lon[1]) : NaN,
+        time: parseTime(match[2] ? getElementText(match[2], 'time') : null)
+      };
+    }).filter(isValidPoint);
+  };
+
+  const tracks = getElements(xml, 'trk').map(track => ({
+    name: getElementText(track.replace(/<trkseg[\s\S]*$/, ''), 'name'),
+    points: parsePoints(track, 'trkpt')
+  }));
+  if (tracks.length > 0) return tracks;
+
+  return getElements(xml, 'rte').map(route => ({
+    name: getElementText(route.replace(/<rtept[\s\S]*$/, ''), 'name'),
+    points: parsePoints(route, 'rtept')
+  }));
+}
+
+// KML: <Placemark> with either a <gx:Track> (<when> + <gx:coord>) or a <LineString> of "lng,lat[,alt]" tuples
+export function parseKml(xml: string): ParsedTrack[] {
+  return getElements(xml, 'Placemark').map(placemark => {
+    const name = getElementText(placemark, 'name');
+
+    const [track] = getElements(placemark, 'Track');
+    if (track !== undefined) {
+      const times = getElements(track, 'when').map(when => parseTime(decodeXml(when)));
+      const points = getElements(track, 'coord').map((coord, index) => {
+        const [lng, lat] = decodeXml(coord).split(/\s+/).map(parseFloat);
+        return { latitude: lat, longitude: lng, time: times[index] ?? null };
+      });
+      return { name, points: points.filter(isValidPoint) };
+    }
+
+    const coordinates = getElements(placemark, 'LineString')
+      .map(lineString => getElementText(lineString, 'coordinates') || '')
+      .join(' ');
+    const points = coordinates.split(/\s+/).filter(Boolean).map(tuple => {
+      const [lng, lat] = tuple.split(',').map(parseFloat);
+      return { latitude: lat, longitude: lng, time: null };
+    });
+    return { name, points: points.filter(isValidPoint) };
+  }).filter(track => track.points.length > 0);
+}
+
+export function parseTrackFile(content: string, format: TrackFormat): ParsedTrack[] {
+  return format === "gpx" ? parseGpx(content) : parseKml(content);
+}
+
+// Trips recorded before breadcrumbs existed only have start and end locations
+function getTrackPoints({ trip, points }: TripTrack): TrackPoint[] {
+  if (points.length > 0) {
+    return points.map(point => ({ latitude: point.latitude, longitude: point.longitude, time: new Date(point.recordedAt) }));
+  }
+
+  const toPoint = (location: any, time: Date | null): TrackPoint | null => {
+    const latitude = location?.latitude ?? location?.lat;
+    const longitude = location?.longitude ?? location?.lng;
+    return typeof latitude === "number" && typeof longitude === "number" ? { latitude, longitude, time } : null;
+  };
+  return [
+    toPoint(trip.startLocation, new Date(trip.startTime)),
+    toPoint(trip.endLocation, trip.endTime ? new Date(trip.endTime) : null)
+  ].filter((point): point is TrackPoint => point !== null);
+}
+
+function getTrackName(trip: Trip): string {
+  return `${trip.purpose} trip ${new Date(trip.startTime).toISOString().slice(0, 10)}`;
+}
+
+export function buildGpx(tracks: TripTrack[]): string {
+  const trackElements = tracks.map(tripTrack => {
+    const points = getTrackPoints(tripTrack).map(point =>
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${point.time ? `<time>${point.time.toISOString()}</time>` : ''}</trkpt>`
+    );
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(getTrackName(tripTrack.trip))}</name>`,
+      tripTrack.trip.notes ? `    <desc>${escapeXml(tripTrack.trip.notes)}</desc>` : null,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>'
+    ].filter(line => line !== null).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="RouteRover" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...trackElements,
+    '</gpx>'
+  ].join('\n');
+}
+
+export function buildKml(tracks: TripTrack[]): string {
+  const placemarks = tracks.map(tripTrack => {
+    const points = getTrackPoints(tripTrack);
+    const hasTimes = points.every(point => point.time);
+    const geometry = hasTimes
+      ? [
+          '      <gx:Track>',
+          ...points.map(point => `        <when>${point.time!.toISOString()}</when>`),
+          ...points.map(point => `        <gx:coord>${point.longitude} ${point.latitude} 0</gx:coord>`),
+          '      </gx:Track>'
+        ]
+      : [
+          '      <LineString>',
+          `        <coordinates>${points.map(point => `${point.longitude},${point.latitude},0`).join(' ')}</coordinates>`,
+          '      </LineString>'
+        ];
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(getTrackName(tripTrack.trip))}</name>`,
+      tripTrack.trip.notes ? `      <description>${escapeXml(tripTrack.trip.notes)}</description>` : null,
+      ...geometry,
+      '    </Placemark>'
+    ].filter(line => line !== null).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>'
+  ].join('\n');
+}
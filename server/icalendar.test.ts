@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseIcsSchedule } from "./icalendar";
+
+function calendar(...eventLines: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...eventLines.flatMap(lines => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR"
+  ].join("\r\n");
+}
+
+function range(start: string, end: string) {
+  return { start: new Date(`${start}T00:00:00Z`), end: new Date(`${end}T00:00:00Z`) };
+}
+
+test("a single event becomes one row with its date, time and location", () => {
+  const rows = parseIcsSchedule(calendar([
+    "UID:visit-1",
+    "DTSTART:20260105T093000",
+    "SUMMARY:Site visit",
+    "LOCATION:123 Main St\\, Hartford\\, CT"
+  ]), range("2026-01-01", "2026-01-31"));
+
+  assert.deepEqual(rows, [{ Date: "01/05/2026", Time: "09:30", Location: "123 Main St, Hartford, CT", Notes: "Site visit", Details: "" }]);
+});
+
+test("FREQ=DAILY with BYDAY only produces the listed weekdays", () => {
+  const rows = parseIcsSchedule(calendar([
+    "UID:weekdays",
+    "DTSTART:20260105T080000",
+    "RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR",
+    "LOCATION:Office"
+  ]), range("2026-01-05", "2026-01-11"));
+
+  assert.deepEqual(rows.map(row => row.Date), ["01/05/2026", "01/06/2026", "01/07/2026", "01/08/2026", "01/09/2026"]);
+});
+
+test("FREQ=DAILY with BYDAY counts only the matching days toward COUNT", () => {
+  const rows = parseIcsSchedule(calendar([
+    "UID:weekdays-count",
+    "DTSTART:20260105T080000",
+    "RRULE:FREQ=DAILY;BYDAY=MO,WE,FR;COUNT=4",
+    "LOCATION:Office"
+  ]), range("2026-01-01", "2026-01-31"));
+
+  assert.deepEqual(rows.map(row => row.Date), ["01/05/2026", "01/07/2026", "01/09/2026", "01/12/2026"]);
+});
+
+test("a daily series that started long before the range still reaches it", () => {
+  const rows = parseIcsSchedule(calendar([
+    "UID:old-series",
+    "DTSTART:20100104T080000",
+    "RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR",
+    "LOCATION:Office"
+  ]), range("2026-01-01", "2026-01-31"));
+
+  assert.equal(rows.length, 22);
+  assert.equal(rows[0].Date, "01/01/2026");
+  assert.equal(rows[rows.length - 1].Date, "01/30/2026");
+  assert.ok(rows.every(row => row.Time === "08:00"));
+});
+
+test("old weekly, monthly and yearly series with an interval land on the right days", () => {
+  const rows = parseIcsSchedule(calendar(
+    ["UID:biweekly", "DTSTART:19900101T090000", "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO", "LOCATION:Biweekly"],
+    ["UID:monthly", "DTSTART:19900115T090000", "RRULE:FREQ=MONTHLY;INTERVAL=3", "LOCATION:Quarterly"],
+    ["UID:yearly", "DTSTART:19800120T090000", "RRULE:FREQ=YEARLY", "LOCATION:Yearly"]
+  ), range("2026-01-01", "2026-01-31"));
+
+  // 1990-01-01 was a Monday and 2026-01-05 is 1879 weeks later, so the series falls on the 12th and 26th
+  assert.deepEqual(rows.filter(row => row.Location === "Biweekly").map(row => row.Date), ["01/12/2026", "01/26/2026"]);
+  // Every third month from January 1990 includes January 2026
+  assert.deepEqual(rows.filter(row => row.Location === "Quarterly").map(row => row.Date), ["01/15/2026"]);
+  assert.deepEqual(rows.filter(row => row.Location === "Yearly").map(row => row.Date), ["01/20/2026"]);
+});
+
+test("exceptions, edited occurrences and cancelled events are applied to the series", () => {
+  const rows = parseIcsSchedule(calendar(
+    [
+      "UID:series",
+      "DTSTART:20260105T080000",
+      "RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20260109T235959",
+      "EXDATE:20260106T080000",
+      "LOCATION:Office"
+    ],
+    ["UID:series", "RECURRENCE-ID:20260107T080000", "DTSTART:20260107T100000", "LOCATION:Client site"],
+    ["UID:cancelled", "DTSTART:20260108T120000", "STATUS:CANCELLED", "LOCATION:Lunch"]
+  ), range("2026-01-01", "2026-01-31"));
+
+  assert.deepEqual(rows.map(row => [row.Date, row.Time, row.Location]), [
+    ["01/05/2026", "08:00", "Office"],
+    ["01/07/2026", "10:00", "Client site"],
+    ["01/08/2026", "08:00", "Office"],
+    ["01/09/2026", "08:00", "Office"]
+  ]);
+});
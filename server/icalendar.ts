@@ -0,0 +1,363 @@
+// iCalendar (.ics) appointments as schedule rows: one row per event occurrence, in the same
+// Date / Location / Notes shape the spreadsheet formats produce
+
+export interface IcsDateRange {
+  start: Date;
+  end: Date; // inclusive
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsEvent {
+  uid: string | null;
+  start: Date; // wall-clock time stored in the UTC fields
+  allDay: boolean;
+  location: string;
+  summary: string;
+  description: string;
+  cancelled: boolean;
+  rule: RecurrenceRule | null;
+  exceptions: Set<number>; // day numbers left out of the series
+  recurrenceId: number | null; // day number of the occurrence this event replaces
+}
+
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: Date | null;
+  byDay: Array<{ weekday: number; ordinal: number | null }>;
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops a rule without COUNT or UNTIL from looping forever on a bad range; counted from the range start
+const MAX_RECURRENCE_PERIODS = 5000;
+
+// Unfold continuation lines and split each property into name, parameters and value
+function parseProperties(content: string): IcsProperty[] {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const properties: IcsProperty[] = [];
+  for (const line of lines) {
+    const match = line.match(/^([^:;]+)((?:;[^:]*)?):(.*)$/);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    for (const param of match[2].split(';').filter(Boolean)) {
+      const [key, value = ''] = param.split('=');
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    properties.push({ name: match[1].toUpperCase(), params, value: match[3] });
+  }
+  return properties;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+// Wall-clock time of an instant in a time zone, stored in the UTC fields; null for unknown zones
+function toWallTime(instant: number, timeZone: string): Date | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')));
+  } catch {
+    return null;
+  }
+}
+
+// The instant a wall-clock time in a time zone refers to
+function fromWallTime(wallTime: Date, timeZone: string): number | null {
+  const guess = wallTime.getTime();
+  const offset = (toWallTime(guess, timeZone)?.getTime() ?? NaN) - guess;
+  if (isNaN(offset)) return null;
+  const corrected = (toWallTime(guess - offset, timeZone)?.getTime() ?? NaN) - (guess - offset);
+  return guess - corrected;
+}
+
+// DTSTART-style values as wall-clock time in the calendar's zone: floating and TZID times keep
+// their clock time, UTC times are moved into the calendar's zone (or the server's)
+function parseIcsDate(property: IcsProperty, calendarTimeZone: string | null): { date: Date; allDay: boolean } | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallTime = new Date(Date.UTC(+year, +month - 1, +day, +(hour || 0), +(minute || 0), +(second || 0)));
+  if (!hour) return { date: wallTime, allDay: true };
+
+  if (utc) {
+    if (calendarTimeZone) {
+      const converted = toWallTime(wallTime.getTime(), calendarTimeZone);
+      if (converted) return { date: converted, allDay: false };
+    }
+    const local = new Date(wallTime.getTime());
+    return {
+      date: new Date(Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), local.getHours(), local.getMinutes(), local.getSeconds())),
+      allDay: false
+    };
+  }
+
+  const eventTimeZone = property.params.TZID;
+  if (eventTimeZone && calendarTimeZone && eventTimeZone !== calendarTimeZone) {
+    const instant = fromWallTime(wallTime, eventTimeZone);
+    const converted = instant !== null ? toWallTime(instant, calendarTimeZone) : null;
+    if (converted) return { date: converted, allDay: false };
+  }
+  return { date: wallTime, allDay: false };
+}
+
+function parseRule(value: string, calendarTimeZone: string | null): RecurrenceRule | null {
+  const parts = Object.fromEntries(value.split(';').map(part => {
+    const [key, partValue = ''] = part.split('=');
+    return [key.toUpperCase(), partValue.toUpperCase()];
+  }));
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(parts.FREQ)) return null;
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : []).flatMap((day: string) => {
+    const dayMatch = day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return dayMatch ? [{ weekday: WEEKDAYS.indexOf(dayMatch[2]), ordinal: dayMatch[1] ? Number(dayMatch[1]) : null }] : [];
+  });
+  const toNumbers = (list?: string) => (list ? list.split(',').map(Number).filter(n => !isNaN(n) && n !== 0) : []);
+
+  return {
+    freq: parts.FREQ as RecurrenceRule["freq"],
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : null,
+    until: parts.UNTIL ? parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }, calendarTimeZone)?.date ?? null : null,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH)
+  };
+}
+
+// Schedules are per day, so exceptions and edited occurrences are matched on the day alone
+function toDayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Days of one month matching BYMONTHDAY or BYDAY (e.g. 2TU, -1FR), at the event's time of day
+function monthCandidates(start: Date, rule: RecurrenceRule, year: number, month: number): Date[] {
+  const timeOfDay = start.getTime() % DAY_MS;
+  const monthLength = daysInMonth(year, month);
+  const at = (day: number) => new Date(Date.UTC(year, month, day) + timeOfDay);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : monthLength + day + 1))
+      .filter(day => day >= 1 && day <= monthLength)
+      .map(at);
+  }
+  if (rule.byDay.length > 0 && rule.freq === "MONTHLY") {
+    const days: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= monthLength; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === null) days.push(...matching);
+      else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day) days.push(day);
+      }
+    }
+    return days.map(at);
+  }
+  return start.getUTCDate() <= monthLength ? [at(start.getUTCDate())] : [];
+}
+
+// Occurrences in one period of the rule (a day, week, month or year after DTSTART), and where that period begins
+function periodCandidates(start: Date, rule: RecurrenceRule, period: number): { periodStart: Date; dates: Date[] } {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = addDays(start, step);
+      const matches = (rule.byMonth.length === 0 || rule.byMonth.includes(date.getUTCMonth() + 1)) &&
+        (rule.byDay.length === 0 || rule.byDay.some(day => day.weekday === date.getUTCDay()));
+      return { periodStart: date, dates: matches ? [date] : [] };
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday
+      const weekStart = addDays(start, -((start.getUTCDay() + 6) % 7) + step * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [start.getUTCDay()];
+      const dates = weekdays.map(weekday => addDays(weekStart, (weekday + 6) % 7));
+      return { periodStart: weekStart, dates };
+    }
+    case "MONTHLY": {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      return { periodStart: new Date(Date.UTC(year, month, 1)), dates: monthCandidates(start, rule, year, month) };
+    }
+    case "YEARLY": {
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map(month => month - 1) : [start.getUTCMonth()];
+      return {
+        periodStart: new Date(Date.UTC(year, 0, 1)),
+        dates: months.flatMap(month => monthCandidates(start, rule, year, month))
+      };
+    }
+  }
+}
+
+// A period that begins at least a full period before the date, so expansion can skip the ones before it
+function periodBefore(start: Date, rule: RecurrenceRule, date: Date): number {
+  if (date <= start) return 0;
+  let elapsed: number;
+  switch (rule.freq) {
+    case "DAILY":
+      elapsed = Math.floor((date.getTime() - start.getTime()) / DAY_MS);
+      break;
+    case "WEEKLY":
+      elapsed = Math.floor((date.getTime() - start.getTime()) / (7 * DAY_MS));
+      break;
+    case "MONTHLY":
+      elapsed = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      break;
+    case "YEARLY":
+      elapsed = date.getUTCFullYear() - start.getUTCFullYear();
+      break;
+  }
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+// Start times of a recurring event up to the end of the range. Without COUNT, periods before the
+// range are skipped; with it, they are walked so COUNT includes occurrences before the range.
+function expandRule(event: IcsEvent, rule: RecurrenceRule, rangeStart: Date, rangeEnd: Date): Date[] {
+  const limit = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+  const occurrences: Date[] = [];
+  let emitted = 0;
+  let periodsInRange = 0;
+
+  const firstPeriod = rule.count === null ? periodBefore(event.start, rule, rangeStart) : 0;
+  for (let period = firstPeriod; periodsInRange < MAX_RECURRENCE_PERIODS; period++) {
+    const { periodStart, dates } = periodCandidates(event.start, rule, period);
+    if (periodStart > limit) break;
+    if (periodStart >= rangeStart) periodsInRange++;
+    for (const date of dates.sort((a, b) => a.getTime() - b.getTime())) {
+      if (date < event.start) continue;
+      if (date > limit || (rule.count !== null && emitted >= rule.count)) return occurrences;
+      emitted++;
+      if (!event.exceptions.has(toDayNumber(date))) occurrences.push(date);
+    }
+  }
+  return occurrences;
+}
+
+function parseEvents(properties: IcsProperty[]): IcsEvent[] {
+  const calendarTimeZone = properties.find(property => property.name === 'X-WR-TIMEZONE')?.value.trim() || null;
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0;
+
+  for (const property of properties) {
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (current && property.name === 'BEGIN') {
+      depth++; // VALARM and other nested components
+    } else if (current && property.name === 'END' && depth > 0) {
+      depth--;
+    } else if (current && property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const get = (name: string) => current!.find(p => p.name === name);
+      const start = get('DTSTART') ? parseIcsDate(get('DTSTART')!, calendarTimeZone) : null;
+      if (start) {
+        const exceptions = new Set<number>();
+        current.filter(p => p.name === 'EXDATE').forEach(p => {
+          p.value.split(',').forEach(value => {
+            const exception = parseIcsDate({ ...p, value }, calendarTimeZone);
+            if (exception) exceptions.add(toDayNumber(exception.date));
+          });
+        });
+        const recurrenceId = get('RECURRENCE-ID') ? parseIcsDate(get('RECURRENCE-ID')!, calendarTimeZone) : null;
+
+        events.push({
+          uid: get('UID')?.value.trim() || null,
+          start: start.date,
+          allDay: start.allDay,
+          location: unescapeText(get('LOCATION')?.value || ''),
+          summary: unescapeText(get('SUMMARY')?.value || ''),
+          description: unescapeText(get('DESCRIPTION')?.value || ''),
+          cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+          rule: get('RRULE') ? parseRule(get('RRULE')!.value, calendarTimeZone) : null,
+          exceptions,
+          recurrenceId: recurrenceId ? toDayNumber(recurrenceId.date) : null
+        });
+      }
+      current = null;
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+  return events;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`;
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+// Rows for every event occurrence in the range, in start order
+export function parseIcsSchedule(content: string, range: IcsDateRange): Record<string, string>[] {
+  const events = parseEvents(parseProperties(content));
+  const rangeStart = range.start;
+  const rangeEnd = new Date(range.end.getTime() + DAY_MS - 1);
+
+  // Edited occurrences replace the ones the series would have produced
+  const overridden = new Set(events
+    .filter(event => event.uid && event.recurrenceId !== null)
+    .map(event => `${event.uid}|${event.recurrenceId}`));
+
+  const occurrences: Array<{ event: IcsEvent; start: Date }> = [];
+  for (const event of events) {
+    const starts = event.rule && event.recurrenceId === null
+      ? expandRule(event, event.rule, rangeStart, rangeEnd).filter(start => !overridden.has(`${event.uid}|${toDayNumber(start)}`))
+      : [event.start];
+    if (event.cancelled) continue;
+    for (const start of starts) {
+      if (start >= rangeStart && start <= rangeEnd) occurrences.push({ event, start });
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ event, start }) => ({
+      Date: formatDate(start),
+      Time: event.allDay ? '' : formatTime(start),
+      Location: event.location,
+      Notes: event.summary,
+      Details: event.description
+    }));
+}
+
+// Schedules are usually imported after the fact, so the default range is this year up to today
+export function getDefaultIcsRange(now: Date = new Date()): IcsDateRange {
+  return {
+    start: new Date(Date.UTC(now.getFullYear(), 0, 1)),
+    end: new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+  };
+}
@@ -0,0 +1,121 @@
+import type { ImportBatch, ScheduleEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { isTerminalStatus } from "./jobQueue";
+import type { SchedulePlan } from "./scheduleProcessor";
+
+// Fields an import overwrites when it combines a day into an existing entry
+const MERGED_FIELDS = [
+  "calculatedDistance",
+  "commuteMiles",
+  "calculatedAmount",
+  "mileageRate",
+  "stops",
+  "notes",
+  "isHotelStay",
+  "processingStatus",
+  "originalData",
+  "importBatchId"
+] as const;
+
+export interface MergedEntrySnapshot {
+  entryId: string;
+  previous: Pick<ScheduleEntry, typeof MERGED_FIELDS[number]>;
+}
+
+export interface ImportBatchSummary extends ImportBatch {
+  entryCount: number;
+  mergedCount: number;
+}
+
+// Rejects a revert; carries the HTTP status
+export class ImportRevertError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function getSnapshots(batch: ImportBatch): MergedEntrySnapshot[] {
+  return (batch.mergedEntries as MergedEntrySnapshot[] | null) || [];
+}
+
+// Record the run before it writes anything so every entry it creates can be tagged
+export async function startImportBatch(userId: string, plan: SchedulePlan): Promise<SchedulePlan> {
+  const batch = await storage.createImportBatch({
+    userId,
+    fileName: plan.fileName ?? null,
+    fileHash: plan.fileHash ?? null,
+    status: "active",
+    mergedEntries: []
+  });
+  return { ...plan, importBatchId: batch.id };
+}
+
+// Keep an existing entry's state before the import combines into it; only the first merge counts
+export async function recordMergedEntry(batchId: string, entry: ScheduleEntry): Promise<void> {
+  const batch = await storage.getImportBatch(batchId);
+  if (!batch || entry.importBatchId === batchId) return;
+
+  const snapshots = getSnapshots(batch);
+  if (snapshots.some(snapshot => snapshot.entryId === entry.id)) return;
+
+  const previous = Object.fromEntries(MERGED_FIELDS.map(field => [field, entry[field] ?? null])) as MergedEntrySnapshot["previous"];
+  await storage.updateImportBatch(batchId, { mergedEntries: [...snapshots, { entryId: entry.id, previous }] });
+}
+
+export async function getImportBatchSummaries(userId: string): Promise<ImportBatchSummary[]> {
+  const [batches, entries] = await Promise.all([storage.getImportBatches(userId), storage.getScheduleEntries(userId)]);
+  return batches
+    .map(batch => ({
+      ...batch,
+      entryCount: entries.filter(entry => entry.importBatchId === batch.id).length,
+      mergedCount: getSnapshots(batch).length
+    }))
+    .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+}
+
+// Delete the entries an import created and put back the ones it combined into
+export async function revertImportBatch(userId: string, batchId: string): Promise<{ deleted: number; restored: number }> {
+  const batch = await storage.getImportBatch(batchId);
+  if (!batch || batch.userId !== userId) {
+    throw new ImportRevertError(404, "Import not found");
+  }
+  if (batch.status === "reverted") {
+    throw new ImportRevertError(409, "This import has already been reverted");
+  }
+
+  if (batch.jobId) {
+    const job = await storage.getJob(batch.jobId);
+    if (job && !isTerminalStatus(job.status)) {
+      throw new ImportRevertError(409, "Cancel the import before reverting it");
+    }
+  }
+
+  // A later import that combined into this one's entries has to be reverted first
+  const laterBatch = (await storage.getImportBatches(userId)).find(other =>
+    other.status === "active" &&
+    getSnapshots(other).some(snapshot => snapshot.previous.importBatchId === batch.id)
+  );
+  if (laterBatch) {
+    throw new ImportRevertError(409, `Revert the later import of ${laterBatch.fileName || 'a schedule file'} first`);
+  }
+
+  const snapshots = getSnapshots(batch);
+  const mergedEntryIds = new Set(snapshots.map(snapshot => snapshot.entryId));
+  const entries = (await storage.getScheduleEntries(userId)).filter(entry => entry.importBatchId === batch.id);
+
+  let deleted = 0;
+  for (const entry of entries) {
+    if (mergedEntryIds.has(entry.id)) continue;
+    if (await storage.deleteScheduleEntry(entry.id)) deleted++;
+  }
+
+  let restored = 0;
+  for (const snapshot of snapshots) {
+    // Entries the user deleted since the import stay deleted
+    if (await storage.updateScheduleEntry(snapshot.entryId, snapshot.previous)) restored++;
+  }
+
+  await storage.deleteProcessedFilesByImportBatch(batch.id);
+  await storage.updateImportBatch(batch.id, { status: "reverted", revertedAt: new Date() });
+  return { deleted, restored };
+}
@@ -0,0 +1,12 @@
+import type { ScheduleImportTemplate } from "@shared/schema";
+import { getHeaderSignature } from "@shared/scheduleMapping";
+import { storage } from "./storage";
+
+// The user's saved template for this file layout; the most recently saved one wins
+export async function findImportTemplate(userId: string, headers: string[]): Promise<ScheduleImportTemplate | undefined> {
+  const signature = getHeaderSignature(headers);
+  const templates = await storage.getScheduleImportTemplates(userId);
+  return templates
+    .filter(template => template.headerSignature === signature)
+    .sort((a, b) => new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime())[0];
+}
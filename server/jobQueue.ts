@@ -0,0 +1,134 @@
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+import { runSchedulePlan, type ScheduleDayResult, type SchedulePlan } from "./scheduleProcessor";
+
+export type JobListener = (job: Job) => void;
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+// Jobs run one at a time, in the order they were queued
+const pendingJobIds: string[] = [];
+const listeners = new Map<string, Set<JobListener>>();
+let isRunning = false;
+
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export function subscribeToJob(jobId: string, listener: JobListener): () => void {
+  if (!listeners.has(jobId)) {
+    listeners.set(jobId, new Set());
+  }
+  listeners.get(jobId)!.add(listener);
+
+  return () => {
+    const jobListeners = listeners.get(jobId);
+    jobListeners?.delete(listener);
+    if (jobListeners && jobListeners.size === 0) {
+      listeners.delete(jobId);
+    }
+  };
+}
+
+async function updateAndNotify(jobId: string, updates: Partial<Job>): Promise<Job | undefined> {
+  const job = await storage.updateJob(jobId, updates);
+  if (job) {
+    listeners.get(jobId)?.forEach(listener => listener(job));
+  }
+  return job;
+}
+
+export function enqueueJob(jobId: string) {
+  if (!pendingJobIds.includes(jobId)) {
+    pendingJobIds.push(jobId);
+  }
+  void drainQueue();
+}
+
+export async function cancelJob(jobId: string): Promise<Job | undefined> {
+  const job = await storage.getJob(jobId);
+  if (!job || isTerminalStatus(job.status)) return job;
+
+  if (job.status === "queued" || job.status === "paused") {
+    const index = pendingJobIds.indexOf(jobId);
+    if (index !== -1) pendingJobIds.splice(index, 1);
+    return updateAndNotify(jobId, { status: "cancelled", cancelRequested: true, completedAt: new Date() });
+  }
+
+  // Running jobs stop before their next day and mark themselves cancelled
+  return updateAndNotify(jobId, { cancelRequested: true });
+}
+
+// Continue a job paused by the API budget, redoing the day it stopped on
+export async function resumeJob(jobId: string): Promise<Job | undefined> {
+  const job = await updateAndNotify(jobId, { status: "queued", errorMessage: null });
+  enqueueJob(jobId);
+  return job;
+}
+
+// Pick up jobs interrupted by a server restart
+export async function resumeUnfinishedJobs() {
+  const unfinishedJobs = await storage.getUnfinishedJobs();
+  unfinishedJobs
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime())
+    .forEach(job => enqueueJob(job.id));
+}
+
+async function drainQueue() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    while (pendingJobIds.length > 0) {
+      const jobId = pendingJobIds.shift()!;
+      try {
+        await runJob(jobId);
+      } catch (error) {
+        console.error(`Job ${jobId} failed:`, error);
+        await updateAndNotify(jobId, {
+          status: "failed",
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        });
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+}
+
+async function runJob(jobId: string) {
+  const job = await storage.getJob(jobId);
+  if (!job || !job.userId || isTerminalStatus(job.status)) return;
+
+  if (job.type !== "schedule_process") {
+    throw new Error(`Unknown job type: ${job.type}`);
+  }
+
+  const plan = job.payload as SchedulePlan;
+  const results = [...((job.results as ScheduleDayResult[]) || [])];
+
+  await updateAndNotify(jobId, {
+    status: "running",
+    startedAt: job.startedAt || new Date()
+  });
+
+  const summary = await runSchedulePlan(job.userId, plan, {
+    completedDays: results,
+    isCancelled: async () => Boolean((await storage.getJob(jobId))?.cancelRequested),
+    onDayProcessed: async (result) => {
+      results.push(result);
+      await updateAndNotify(jobId, { results, processedCount: results.length });
+    }
+  });
+
+  if (summary.paused) {
+    await updateAndNotify(jobId, { status: "paused", summary, errorMessage: summary.pauseReason });
+    return;
+  }
+
+  await updateAndNotify(jobId, {
+    status: summary.cancelled ? "cancelled" : "completed",
+    summary,
+    completedAt: new Date()
+  });
+}
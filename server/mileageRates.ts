@@ -0,0 +1,147 @@
+import type { AppSettings, YearlyRate } from "@shared/schema";
+import { storage } from "./storage";
+import { getDeductibleMiles } from "./commute";
+
+// 2023 IRS standard rate, used only when neither yearly rates nor settings provide one
+export const DEFAULT_MILEAGE_RATE = 0.655;
+
+// Charitable mileage is set by 26 U.S.C. 170(i) and does not change with IRS notices
+export const CHARITY_MILEAGE_RATE = 0.14;
+
+export type MileagePurpose = "business" | "medical" | "moving" | "charity" | "personal";
+
+export const MILEAGE_PURPOSES: MileagePurpose[] = ["business", "medical", "moving", "charity", "personal"];
+
+export type MileageRateSource = "yearly_rate" | "settings" | "default" | "statute" | "not_deductible" | "unset";
+
+export interface ResolvedMileageRate {
+  rate: number;
+  purpose: MileagePurpose;
+  source: MileageRateSource;
+  yearlyRateId?: string;
+  effectiveDate?: Date;
+}
+
+export type MileageRateResolver = (date: Date | string, purpose?: string | null) => ResolvedMileageRate;
+
+// Unknown purposes are valued as business miles, matching the trips table default
+export function normalizePurpose(purpose?: string | null): MileagePurpose {
+  return MILEAGE_PURPOSES.includes(purpose as MileagePurpose) ? purpose as MileagePurpose : "business";
+}
+
+// Effective dates are calendar days: "YYYY-MM-DD" is kept as that day's UTC midnight, whatever the server's zone
+export function parseEffectiveDate(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// A yearly rate applies from local midnight of its effective day, or from January 1st of its year,
+// so it compares like the local-midnight dates of schedule entries
+function getEffectiveDate(rate: YearlyRate): Date {
+  if (!rate.effectiveDate) return new Date(rate.year, 0, 1);
+  const day = new Date(rate.effectiveDate);
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+}
+
+// Pick the rate in force on the given date for the trip's purpose. Several rows for the
+// same year model mid-year IRS changes (e.g. 2022: $0.585 from January, $0.625 from July 1st).
+export function resolveMileageRate(
+  rates: YearlyRate[],
+  date: Date | string,
+  settings?: AppSettings | null,
+  tripPurpose?: string | null
+): ResolvedMileageRate {
+  const day = new Date(date);
+  const purpose = normalizePurpose(tripPurpose);
+
+  if (purpose === "charity") {
+    return { rate: CHARITY_MILEAGE_RATE, purpose, source: "statute" };
+  }
+  if (purpose === "personal") {
+    return { rate: 0, purpose, source: "not_deductible" };
+  }
+
+  const applicable = rates
+    .filter(rate => rate.year === day.getFullYear() && getEffectiveDate(rate).getTime() <= day.getTime())
+    .sort((a, b) => getEffectiveDate(b).getTime() - getEffectiveDate(a).getTime());
+
+  if (purpose === "medical" || purpose === "moving") {
+    const rate = applicable.find(candidate => (purpose === "medical" ? candidate.medicalRate : candidate.movingRate) != null);
+    if (!rate) {
+      return { rate: 0, purpose, source: "unset" };
+    }
+    return {
+      rate: (purpose === "medical" ? rate.medicalRate : rate.movingRate)!,
+      purpose,
+      source: "yearly_rate",
+      yearlyRateId: rate.id,
+      effectiveDate: getEffectiveDate(rate)
+    };
+  }
+
+  if (applicable.length > 0) {
+    return {
+      rate: applicable[0].mileageRate,
+      purpose,
+      source: "yearly_rate",
+      yearlyRateId: applicable[0].id,
+      effectiveDate: getEffectiveDate(applicable[0])
+    };
+  }
+
+  if (settings?.mileageRate) {
+    return { rate: settings.mileageRate, purpose, source: "settings" };
+  }
+
+  return { rate: DEFAULT_MILEAGE_RATE, purpose, source: "default" };
+}
+
+// Load a user's rates once and resolve many dates against them
+export async function createMileageRateResolver(userId: string): Promise<MileageRateResolver> {
+  const [rates, settings] = await Promise.all([
+    storage.getYearlyRates(userId),
+    storage.getUserSettings(userId)
+  ]);
+  return (date, purpose) => resolveMileageRate(rates, date, settings, purpose);
+}
+
+// Re-apply the current rates to stored schedule entries, e.g. after a yearly rate is edited.
+// Returns the number of entries whose amount changed.
+export async function recomputeScheduleAmounts(userId: string, year?: number): Promise<number> {
+  const resolveRate = await createMileageRateResolver(userId);
+  const entries = await storage.getScheduleEntries(userId);
+  let updatedCount = 0;
+
+  for (const entry of entries) {
+    const entryDate = new Date(entry.date);
+    if (year !== undefined && entryDate.getFullYear() !== year) continue;
+
+    const { rate } = resolveRate(entryDate, entry.purpose);
+    const calculatedAmount = getDeductibleMiles(entry) * rate;
+    if (entry.mileageRate === rate && entry.calculatedAmount === calculatedAmount) continue;
+
+    await storage.updateScheduleEntry(entry.id, { mileageRate: rate, calculatedAmount });
+    updatedCount++;
+  }
+
+  return updatedCount;
+}
+
+// Human-readable origin of a rate for reports
+export function describeMileageRate(resolved: ResolvedMileageRate): string {
+  switch (resolved.source) {
+    case "yearly_rate":
+      return `Yearly rate effective ${resolved.effectiveDate!.toLocaleDateString('en-US')}`;
+    case "settings":
+      return "Fallback rate from settings";
+    case "statute":
+      return "Charitable rate fixed by statute";
+    case "not_deductible":
+      return "Personal miles are not deductible";
+    case "unset":
+      return `No ${resolved.purpose} rate set`;
+    default:
+      return "Built-in default rate";
+  }
+}
@@ -0,0 +1,155 @@
+import type { AppSettings, Place, Trip } from "@shared/schema";
+import { storage } from "./storage";
+import { haversineMeters, normalizeAddress, resolveCoordinates } from "./distance";
+
+export const DEFAULT_PLACE_RADIUS_METERS = 150;
+
+// Trip endpoints are stored as JSON; older trips use lat/lng instead of latitude/longitude
+export interface TripLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+  placeName?: string;
+  // Set when `address` was copied from the matched place rather than entered or geocoded for the trip
+  addressFromPlace?: boolean;
+}
+
+export function getLocationCoordinates(location: any): { lat: number; lng: number } | null {
+  const lat = location?.latitude ?? location?.lat;
+  const lng = location?.longitude ?? location?.lng;
+  return typeof lat === "number" && typeof lng === "number" ? { lat, lng } : null;
+}
+
+// Routable address for a place; places pinned on the map are routed to by coordinates
+export function getPlaceAddress(place: Place): string | null {
+  if (place.address) return place.address;
+  if (place.latitude != null && place.longitude != null) return `${place.latitude}, ${place.longitude}`;
+  return null;
+}
+
+// Coordinates for a place's address from the configured geocoder; null when there is none or it fails
+export async function geocodePlaceAddress(address: string, settings: AppSettings | null | undefined): Promise<{ lat: number; lng: number } | null> {
+  if (!settings?.geocodingServiceUrl) return null;
+  try {
+    return await resolveCoordinates(address, settings.geocodingServiceUrl);
+  } catch (error) {
+    console.error("Failed to geocode place:", error);
+    return null;
+  }
+}
+
+// Closest place whose radius contains the location
+export function matchPlace(places: Place[], location: unknown): Place | null {
+  const coordinates = getLocationCoordinates(location);
+  if (!coordinates) return null;
+
+  let bestMatch: Place | null = null;
+  let bestDistance = Infinity;
+  for (const place of places) {
+    if (place.latitude == null || place.longitude == null) continue;
+    const meters = haversineMeters(coordinates, { lat: place.latitude, lng: place.longitude });
+    if (meters <= (place.radiusMeters || DEFAULT_PLACE_RADIUS_METERS) && meters < bestDistance) {
+      bestMatch = place;
+      bestDistance = meters;
+    }
+  }
+  return bestMatch;
+}
+
+// Place referred to by its name ("Office") or its saved address
+export function findPlaceByName(places: Place[], text: string | null | undefined): Place | null {
+  if (!text) return null;
+  const key = normalizeAddress(text);
+  return places.find(place => normalizeAddress(place.name) === key) ||
+    places.find(place => place.address && normalizeAddress(place.address) === key) ||
+    null;
+}
+
+// Schedule cells and route stops may name a saved place ("Office") instead of spelling out its address
+export function resolvePlaceLocation(places: Place[], text: string): { address: string; label: string } {
+  const place = findPlaceByName(places, text);
+  const placeAddress = place ? getPlaceAddress(place) : null;
+  return placeAddress
+    ? { address: placeAddress, label: place!.name }
+    : { address: text, label: text };
+}
+
+// A stored endpoint as labelLocation sees it; fields it doesn't know about are kept as they are
+export type LabeledLocation = Partial<TripLocation>;
+
+// Stored endpoints are JSON objects; anything else can't be labeled
+export function isLocationObject(location: unknown): location is LabeledLocation {
+  return typeof location === "object" && location !== null;
+}
+
+// Copy the place's name and address onto a trip endpoint so it reads well without a lookup. An address
+// copied from an earlier place is dropped, so the endpoint's own address can be geocoded again.
+export function labelLocation<T extends LabeledLocation>(location: T, place: Place | null): T {
+  if (!location || typeof location !== "object") return location;
+  // An undefined key is dropped when the endpoint is stored as JSON
+  const ownAddress = location.addressFromPlace ? undefined : location.address;
+  if (!place) {
+    return { ...location, placeName: undefined, address: ownAddress, addressFromPlace: undefined };
+  }
+  return place.address
+    ? { ...location, placeName: place.name, address: place.address, addressFromPlace: true }
+    : { ...location, placeName: place.name, address: ownAddress, addressFromPlace: undefined };
+}
+
+// Whether an endpoint's place match or the name and address copied from it are out of date
+function needsLabel(location: LabeledLocation, placeId: string | null, place: Place | null): boolean {
+  if ((place?.id ?? null) !== placeId) return true;
+  if (!place) return false;
+  return location.placeName !== place.name || (Boolean(place.address) && location.address !== place.address);
+}
+
+// Human readable endpoint for reports: place name, then address, then coordinates
+export function describeLocation(location: any, place?: Place | null): string {
+  const placeName = place?.name || location?.placeName;
+  const address = place?.address || location?.address;
+  if (placeName) return address && address !== placeName ? `${placeName} (${address})` : placeName;
+  if (address) return address;
+  const coordinates = getLocationCoordinates(location);
+  return coordinates ? `${coordinates.lat}, ${coordinates.lng}` : '';
+}
+
+// Default route endpoints from settings; a selected place wins over a typed address
+export function getDefaultAddresses(settings: AppSettings | null | undefined, places: Place[]) {
+  const placeAddress = (placeId: string | null | undefined) => {
+    const place = placeId ? places.find(candidate => candidate.id === placeId) : undefined;
+    return place ? getPlaceAddress(place) : null;
+  };
+  const startAddress = placeAddress(settings?.defaultStartPlaceId) || settings?.defaultStartAddress || null;
+  const endAddress = placeAddress(settings?.defaultEndPlaceId) || settings?.defaultEndAddress || startAddress;
+  return { startAddress, endAddress };
+}
+
+// Match trip endpoints to places. Endpoints already matched are kept unless rematchAll is set,
+// which is used after a place is edited, moved or deleted. Returns the trips that changed.
+export async function matchTripsToPlaces(userId: string, rematchAll = false): Promise<Trip[]> {
+  const [userPlaces, trips] = await Promise.all([storage.getPlaces(userId), storage.getTrips(userId)]);
+
+  const updatedTrips: Trip[] = [];
+  for (const trip of trips) {
+    const updates: Record<string, unknown> = {};
+    if ((rematchAll || !trip.startPlaceId) && isLocationObject(trip.startLocation)) {
+      const startPlace = matchPlace(userPlaces, trip.startLocation);
+      if (needsLabel(trip.startLocation, trip.startPlaceId, startPlace)) {
+        updates.startPlaceId = startPlace?.id ?? null;
+        updates.startLocation = labelLocation(trip.startLocation, startPlace);
+      }
+    }
+    if (isLocationObject(trip.endLocation) && (rematchAll || !trip.endPlaceId)) {
+      const endPlace = matchPlace(userPlaces, trip.endLocation);
+      if (needsLabel(trip.endLocation, trip.endPlaceId, endPlace)) {
+        updates.endPlaceId = endPlace?.id ?? null;
+        updates.endLocation = labelLocation(trip.endLocation, endPlace);
+      }
+    }
+    if (Object.keys(updates).length > 0) {
+      const updated = await storage.updateTrip(trip.id, updates);
+      if (updated) updatedTrips.push(updated);
+    }
+  }
+  return updatedTrips;
+}
@@ -0,0 +1,209 @@
+import type Tesseract from "tesseract.js";
+import { parseLineItems, type ExpenseCategory } from "@shared/receiptLineItems";
+import { guessExpenseCategory, merchantSimilarity } from "./receiptMatching";
+
+// Fields scored for confidence and confirmed during review
+export const RECEIPT_FIELDS = ["merchant", "amount", "date", "tax"] as const;
+export type ReceiptField = typeof RECEIPT_FIELDS[number];
+
+export type FieldScores = Partial<Record<ReceiptField, number>>;
+
+// Stored on the receipt; a field is missing from `fields` when nothing was extracted for it
+export interface ReceiptConfidence {
+  source: "ai" | "ocr";
+  fields: FieldScores;
+}
+
+// A receipt with a field scored below this, or with no amount or date, goes to the review queue
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // Tesseract's 0-100 score
+}
+
+// What the regex path matched for a field, and how much the rule that matched it can be trusted (0-1)
+interface FieldEvidence {
+  text: string;
+  weight: number;
+}
+
+const AMOUNT_PATTERN = /\$?\s?(\d{1,3}(?:,\d{3})+|\d+)\.\d{2}\b/g;
+// Lines whose amounts are not what was paid: gift card balances, cash tendered, change, savings
+const NON_PAYMENT_LINE = /balance|gift\s*card|\bchange\b|tender|\bcash\b|sav(ed|ings?)|discount|points|rewards|\btip\b/i;
+const SUBTOTAL_LINE = /sub\s*-?\s*total/i;
+const TAX_LINE = /\b(sales tax|tax|hst|vat|gst)\b/i;
+
+const DATE_PATTERNS: Array<[RegExp, number]> = [
+  [/\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}\b/, 1], // MM/DD/YYYY
+  [/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}\b/i, 1],
+  [/\b\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}\b/, 1], // YYYY/MM/DD
+  [/\b\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{4}\b/i, 1],
+  [/\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2}\b/, 0.85], // MM/DD/YY; two-digit years are easier to misread
+];
+
+function parseAmount(text: string): number {
+  return parseFloat(text.replace(/[^\d.]/g, ''));
+}
+
+function lastAmountOnLine(line: string): string | null {
+  const matches = line.match(AMOUNT_PATTERN);
+  return matches ? matches[matches.length - 1] : null;
+}
+
+// The amount paid: the last "total" line, otherwise the largest amount on a line that is not a balance or tender
+function findAmount(lines: string[]): FieldEvidence | null {
+  const totalLines = lines.filter(line =>
+    /\btotal\b/i.test(line) && !SUBTOTAL_LINE.test(line) && !NON_PAYMENT_LINE.test(line) && lastAmountOnLine(line)
+  );
+  if (totalLines.length > 0) {
+    return { text: lastAmountOnLine(totalLines[totalLines.length - 1])!, weight: 1 };
+  }
+
+  const amounts = lines
+    .filter(line => !NON_PAYMENT_LINE.test(line) && !TAX_LINE.test(line))
+    .flatMap(line => line.match(AMOUNT_PATTERN) || [])
+    .filter(text => parseAmount(text) > 0);
+  if (amounts.length === 0) return null;
+  const largest = amounts.reduce((a, b) => parseAmount(b) > parseAmount(a) ? b : a);
+  return { text: largest, weight: 0.6 };
+}
+
+function findTax(lines: string[]): FieldEvidence | null {
+  const taxLine = lines.find(line => TAX_LINE.test(line) && !/\bpre-?tax\b|\bexempt\b/i.test(line) && lastAmountOnLine(line));
+  return taxLine ? { text: lastAmountOnLine(taxLine)!, weight: 0.9 } : null;
+}
+
+function findDate(text: string): FieldEvidence | null {
+  for (const [pattern, weight] of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return { text: match[0], weight };
+  }
+  return null;
+}
+
+// The business name is usually the first line that is not an address, a date or an amount
+function findMerchant(lines: string[]): FieldEvidence | null {
+  const merchant = lines.slice(0, 5).find(line =>
+    !line.match(/^\d/) &&
+    !line.match(/^\$/) &&
+    !line.match(AMOUNT_PATTERN) &&
+    !line.match(/^(receipt|thank you|visit|welcome)/i) &&
+    line.length > 2 &&
+    line.length < 50
+  );
+  return merchant ? { text: merchant, weight: 0.8 } : null;
+}
+
+// Structured fields from OCR text, with the text each one was read from
+export function extractReceiptData(text: string): { data: Record<string, any>; evidence: Partial<Record<ReceiptField, FieldEvidence>> } {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const evidence: Partial<Record<ReceiptField, FieldEvidence>> = {};
+  const data: Record<string, any> = {};
+
+  const amount = findAmount(lines);
+  if (amount) {
+    evidence.amount = amount;
+    data.amount = parseAmount(amount.text);
+  }
+  const date = findDate(text);
+  if (date) {
+    evidence.date = date;
+    data.date = date.text;
+  }
+  const merchant = findMerchant(lines);
+  if (merchant) {
+    evidence.merchant = merchant;
+    data.merchant = merchant.text;
+  }
+  const tax = findTax(lines);
+  if (tax) {
+    evidence.tax = tax;
+    data.tax = parseAmount(tax.text);
+  }
+  // Lines without a category keyword take the merchant's, so a diner's items are meals
+  data.items = parseLineItems(text, guessExpenseCategory(data.merchant ?? null) as ExpenseCategory);
+
+  return { data, evidence };
+}
+
+// Every recognized word with its confidence; needs the `blocks` output of recognize()
+export function getOcrWords(page: Tesseract.Page): OcrWord[] {
+  return (page.blocks || [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .flatMap(line => line.words)
+    .map(word => ({ text: word.text, confidence: word.confidence }));
+}
+
+function normalizeToken(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9.\/-]/g, '');
+}
+
+// Mean Tesseract confidence (0-1) of the words a value was read from; words not found count as unreadable
+function wordConfidence(words: OcrWord[], text: string): number | null {
+  if (words.length === 0) return null;
+  const tokens = text.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (tokens.length === 0) return null;
+  const scores = tokens.map(token => {
+    const word = words.find(candidate => normalizeToken(candidate.text).includes(token));
+    return word ? word.confidence / 100 : 0;
+  });
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+export function scoreOcrFields(evidence: Partial<Record<ReceiptField, FieldEvidence>>, words: OcrWord[]): FieldScores {
+  const scores: FieldScores = {};
+  for (const field of RECEIPT_FIELDS) {
+    const fieldEvidence = evidence[field];
+    if (!fieldEvidence) continue;
+    const readability = wordConfidence(words, fieldEvidence.text);
+    scores[field] = roundScore(fieldEvidence.weight * (readability ?? 1));
+  }
+  return scores;
+}
+
+function sameDay(a: string, b: string): boolean {
+  const dateA = new Date(a);
+  const dateB = new Date(b);
+  return !isNaN(dateA.getTime()) && !isNaN(dateB.getTime()) && dateA.toDateString() === dateB.toDateString();
+}
+
+function valuesAgree(field: ReceiptField, aiValue: any, ocrValue: any): boolean {
+  switch (field) {
+    case "amount":
+    case "tax":
+      return Math.abs(Number(aiValue) - Number(ocrValue)) < 0.01;
+    case "date":
+      return sameDay(String(aiValue), String(ocrValue));
+    case "merchant":
+      return merchantSimilarity(String(aiValue), String(ocrValue)) >= 0.5;
+  }
+}
+
+// AI values are trusted when the regex path read the same thing, and doubted when it read something else
+export function scoreAiFields(aiData: Record<string, any>, ocrData: Record<string, any>, ocrScores: FieldScores): FieldScores {
+  const scores: FieldScores = {};
+  for (const field of RECEIPT_FIELDS) {
+    const aiValue = aiData[field];
+    if (aiValue === null || aiValue === undefined || aiValue === '') continue;
+    const ocrValue = ocrData[field];
+    if (ocrValue === null || ocrValue === undefined) {
+      scores[field] = 0.75; // the model alone, with nothing to check it against
+    } else if (valuesAgree(field, aiValue, ocrValue)) {
+      scores[field] = roundScore(Math.max(0.95, ocrScores[field] ?? 0));
+    } else {
+      scores[field] = 0.4;
+    }
+  }
+  return scores;
+}
+
+export function needsReview(data: Record<string, any>, confidence: ReceiptConfidence): boolean {
+  if (data.amount === null || data.amount === undefined || !data.date) return true;
+  return Object.values(confidence.fields).some(score => score !== undefined && score < REVIEW_CONFIDENCE_THRESHOLD);
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { createCanvas, type Canvas } from "@napi-rs/canvas";
+import convertHeic from "heic-convert";
+import { getDocument, type PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+// Long statements are cut off here; receipts rarely run past a few pages
+const MAX_PDF_PAGES = 10;
+// Renders at twice PDF resolution (144 dpi), which Tesseract reads reliably
+const PDF_RENDER_SCALE = 2;
+const THUMBNAIL_WIDTH = 240;
+// A page with less embedded text than this is treated as a scan and OCR'd
+const MIN_TEXT_LAYER_CHARACTERS = 20;
+
+// Fonts and character maps ship with pdfjs-dist, so rendering never fetches anything
+const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+
+export type ReceiptFileKind = "image" | "heic" | "pdf";
+
+export interface ReceiptPage {
+  imagePath: string;
+  mimeType: string;
+  text: string | null; // embedded PDF text; null when the page has to be OCR'd
+}
+
+export interface ReceiptDocument {
+  kind: ReceiptFileKind;
+  pages: ReceiptPage[];
+  thumbnails: string[]; // JPEG data URLs, one per PDF page
+  storedPath: string; // the file to keep as the receipt image
+  tempPaths: string[]; // page renders to delete once extraction is done
+}
+
+type PdfRenderParameters = Parameters<PDFPageProxy["render"]>[0];
+
+// pdfjs declares DOM canvas types; @napi-rs/canvas implements the part of them that page rendering uses
+function pdfRenderTarget(canvas: Canvas): Pick<PdfRenderParameters, "canvas" | "canvasContext"> {
+  return {
+    canvas: canvas as unknown as PdfRenderParameters["canvas"],
+    canvasContext: canvas.getContext('2d') as unknown as PdfRenderParameters["canvasContext"]
+  };
+}
+
+interface UploadedReceiptFile {
+  path: string;
+  mimetype: string;
+  originalname: string;
+}
+
+// Multer filter: images, HEIC photos (often sent without an image/* type) and PDFs
+export function isSupportedReceiptFile(file: { mimetype: string; originalname: string }): boolean {
+  const ext = path.extname(file.originalname).toLowerCase();
+  return file.mimetype.startsWith('image/') ||
+    file.mimetype === 'application/pdf' ||
+    ['.heic', '.heif', '.pdf'].includes(ext);
+}
+
+function detectKind(file: UploadedReceiptFile, header: Buffer): ReceiptFileKind {
+  const ext = path.extname(file.originalname).toLowerCase();
+  if (file.mimetype === 'application/pdf' || ext === '.pdf' || header.subarray(0, 4).toString('latin1') === '%PDF') {
+    return "pdf";
+  }
+  // ISO base media "ftyp" box with a HEIF brand
+  const brand = header.subarray(4, 12).toString('latin1');
+  if (/image\/hei[cf]/.test(file.mimetype) || ext === '.heic' || ext === '.heif' || /^ftyp(heic|heix|hevc|mif1|msf1)/.test(brand)) {
+    return "heic";
+  }
+  return "image";
+}
+
+async function prepareHeic(file: UploadedReceiptFile, buffer: Buffer): Promise<ReceiptDocument> {
+  const jpeg = Buffer.from(await convertHeic({ buffer, format: 'JPEG', quality: 0.9 }));
+  const jpegPath = `${file.path}.jpg`;
+  fs.writeFileSync(jpegPath, jpeg);
+  // Nothing downstream can read the original
+  fs.unlinkSync(file.path);
+  return {
+    kind: "heic",
+    pages: [{ imagePath: jpegPath, mimeType: 'image/jpeg', text: null }],
+    thumbnails: [],
+    storedPath: jpegPath,
+    tempPaths: []
+  };
+}
+
+async function preparePdf(file: UploadedReceiptFile, buffer: Buffer): Promise<ReceiptDocument> {
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: path.join(pdfjsRoot, 'standard_fonts/'),
+    cMapUrl: path.join(pdfjsRoot, 'cmaps/'),
+    cMapPacked: true,
+    isEvalSupported: false
+  }).promise;
+
+  const pages: ReceiptPage[] = [];
+  const thumbnails: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+        .join('')
+        .trim();
+
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ ...pdfRenderTarget(canvas), viewport }).promise;
+      const imagePath = `${file.path}-page${pageNumber}.png`;
+      fs.writeFileSync(imagePath, await canvas.encode('png'));
+
+      const thumbnail = createCanvas(THUMBNAIL_WIDTH, Math.round(THUMBNAIL_WIDTH * viewport.height / viewport.width));
+      thumbnail.getContext('2d').drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+      thumbnails.push(`data:image/jpeg;base64,${(await thumbnail.encode('jpeg', 70)).toString('base64')}`);
+
+      pages.push({
+        imagePath,
+        mimeType: 'image/png',
+        text: text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARACTERS ? text : null
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return {
+    kind: "pdf",
+    pages,
+    thumbnails,
+    storedPath: file.path,
+    tempPaths: pages.map(page => page.imagePath)
+  };
+}
+
+// Turn an upload into page images ready for extraction: HEIC becomes JPEG, PDFs are rendered page by page
+export async function prepareReceiptFile(file: UploadedReceiptFile): Promise<ReceiptDocument> {
+  const buffer = fs.readFileSync(file.path);
+  switch (detectKind(file, buffer.subarray(0, 12))) {
+    case "heic":
+      return prepareHeic(file, buffer);
+    case "pdf":
+      return preparePdf(file, buffer);
+    default:
+      return {
+        kind: "image",
+        pages: [{ imagePath: file.path, mimeType: file.mimetype, text: null }],
+        thumbnails: [],
+        storedPath: file.path,
+        tempPaths: []
+      };
+  }
+}
+
+// Delete page renders, and the stored file too when the receipt image is kept on the device
+export function removeReceiptFiles(document: ReceiptDocument, { keepStored }: { keepStored: boolean }): void {
+  const paths = keepStored ? document.tempPaths : [...document.tempPaths, document.storedPath];
+  for (const filePath of paths) {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  }
+}
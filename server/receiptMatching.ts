@@ -0,0 +1,212 @@
+import type { Expense, InsertExpense, Receipt } from "@shared/schema";
+import { groupLineItemsByCategory, type ReceiptLineItem } from "@shared/receiptLineItems";
+import { storage } from "./storage";
+
+// An expense within this many days of the receipt date can match it
+const MATCH_DATE_WINDOW_DAYS = 3;
+// Receipt totals and expense amounts are compared to the cent
+const AMOUNT_TOLERANCE = 0.01;
+// Below this, two known merchant names are treated as different businesses
+const MIN_MERCHANT_SIMILARITY = 0.5;
+
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ["gas", ["gas", "fuel", "shell", "exxon", "mobil", "chevron", "bp", "marathon", "speedway", "sunoco", "valero", "citgo", "texaco", "phillips 66", "circle k", "wawa", "sheetz", "costco gas"]],
+  ["parking", ["parking", "park", "garage", "spothero", "parkwhiz"]],
+  ["tolls", ["toll", "ezpass", "e-zpass", "fastrak", "sunpass", "ipass", "turnpike"]],
+  ["lodging", ["hotel", "motel", "inn", "suites", "lodge", "resort", "marriott", "hilton", "hyatt", "holiday inn", "best western", "airbnb"]],
+  ["meals", ["restaurant", "cafe", "coffee", "grill", "pizza", "diner", "bistro", "kitchen", "bar", "starbucks", "mcdonald", "subway", "chipotle", "panera", "taco", "burger", "deli"]],
+];
+
+export interface ExtractedReceiptFields {
+  merchant: string | null;
+  amount: number | null;
+  date: Date | null;
+  tax: number | null;
+}
+
+export interface ReceiptMatchResult {
+  // linked: matched an existing expense; created: a new expense was made; proposed: nothing was saved
+  status: "linked" | "created" | "proposed" | "unmatched";
+  receipt: Receipt;
+  expense?: Expense;
+  proposal?: Omit<InsertExpense, "userId">;
+}
+
+export interface ReceiptSplitResult {
+  receipt: Receipt;
+  expenses: Expense[];
+}
+
+export function getExtractedFields(receipt: Receipt): ExtractedReceiptFields {
+  const data = (receipt.extractedData || {}) as Record<string, any>;
+  const amount = typeof data.amount === "number" ? data.amount : parseFloat(String(data.amount ?? "").replace(/[^\d.]/g, ""));
+  const date = data.date ? new Date(data.date) : null;
+  return {
+    merchant: typeof data.merchant === "string" && data.merchant.trim() ? data.merchant.trim() : null,
+    amount: isNaN(amount) || amount <= 0 ? null : amount,
+    date: date && !isNaN(date.getTime()) ? date : null,
+    tax: typeof data.tax === "number" ? data.tax : null
+  };
+}
+
+function merchantTokens(merchant: string): Set<string> {
+  return new Set(merchant
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !["inc", "llc", "co", "corp", "store", "the"].includes(token)));
+}
+
+// Share of name words two merchants have in common (Dice coefficient), 0 to 1
+export function merchantSimilarity(a: string, b: string): number {
+  const tokensA = merchantTokens(a);
+  const tokensB = merchantTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+export function guessExpenseCategory(merchant: string | null): string {
+  if (!merchant) return "other";
+  const name = ` ${merchant.toLowerCase().replace(/[^a-z0-9\s-]/g, " ")} `;
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => name.includes(` ${keyword} `)));
+  return match ? match[0] : "other";
+}
+
+// The best unlinked expense with the same amount, a nearby date and a similar merchant
+export async function findMatchingExpense(userId: string, receipt: Receipt): Promise<Expense | null> {
+  const fields = getExtractedFields(receipt);
+  if (fields.amount === null || fields.date === null) return null;
+
+  const windowMs = MATCH_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const candidates = (await storage.getExpenses(userId))
+    .filter(expense => !expense.receiptId || expense.receiptId === receipt.id)
+    .filter(expense => Math.abs(expense.amount - fields.amount!) <= AMOUNT_TOLERANCE)
+    .map(expense => {
+      const dayGap = Math.abs(new Date(expense.date).getTime() - fields.date!.getTime());
+      const similarity = fields.merchant && expense.merchant ? merchantSimilarity(fields.merchant, expense.merchant) : null;
+      // Unknown merchants neither help nor rule out a match
+      return { expense, dayGap, score: (similarity ?? MIN_MERCHANT_SIMILARITY) - dayGap / windowMs, similarity };
+    })
+    .filter(candidate => candidate.dayGap <= windowMs)
+    .filter(candidate => candidate.similarity === null || candidate.similarity >= MIN_MERCHANT_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  return candidates[0]?.expense ?? null;
+}
+
+// An expense built from the receipt's extracted fields; null when the amount or date is missing
+export function proposeExpense(receipt: Receipt): Omit<InsertExpense, "userId"> | null {
+  const fields = getExtractedFields(receipt);
+  if (fields.amount === null || fields.date === null) return null;
+  return {
+    amount: fields.amount,
+    category: guessExpenseCategory(fields.merchant),
+    merchant: fields.merchant,
+    date: fields.date,
+    notes: fields.tax !== null ? `Includes $${fields.tax.toFixed(2)} tax` : null,
+    receiptId: receipt.id
+  };
+}
+
+// Expenses that point at the receipt; a split receipt has one per line-item category
+async function getReceiptExpenses(receipt: Receipt): Promise<Expense[]> {
+  return (await storage.getExpenses(receipt.userId || "")).filter(expense => expense.receiptId === receipt.id);
+}
+
+// Point the receipt and the expense at each other, dropping any links either had before
+export async function linkReceiptToExpense(receipt: Receipt, expense: Expense): Promise<{ receipt: Receipt; expense: Expense }> {
+  for (const linked of await getReceiptExpenses(receipt)) {
+    if (linked.id !== expense.id) {
+      await storage.updateExpense(linked.id, { receiptId: null });
+    }
+  }
+  if (expense.receiptId && expense.receiptId !== receipt.id) {
+    await storage.updateReceipt(expense.receiptId, { expenseId: null });
+  }
+
+  const linkedReceipt = await storage.updateReceipt(receipt.id, { expenseId: expense.id });
+  const linkedExpense = await storage.updateExpense(expense.id, { receiptId: receipt.id });
+  return { receipt: linkedReceipt!, expense: linkedExpense! };
+}
+
+// Clear the link from both sides
+export async function unlinkReceipt(receipt: Receipt): Promise<Receipt> {
+  for (const expense of await getReceiptExpenses(receipt)) {
+    await storage.updateExpense(expense.id, { receiptId: null });
+  }
+  return (await storage.updateReceipt(receipt.id, { expenseId: null }))!;
+}
+
+// Clear the receipt's side before an expense is deleted, so no receipt points at a missing expense.
+// A split receipt moves on to another of its expenses.
+export async function detachExpenseReceipt(expense: Expense): Promise<void> {
+  const receipts = await storage.getReceipts(expense.userId || "");
+  for (const receipt of receipts.filter(receipt => receipt.expenseId === expense.id)) {
+    const remaining = (await getReceiptExpenses(receipt)).find(linked => linked.id !== expense.id);
+    await storage.updateReceipt(receipt.id, { expenseId: remaining?.id ?? null });
+  }
+}
+
+// One expense per line-item category, with the receipt's tax spread over them. Expenses already linked to the
+// receipt are reused, same category first, so splitting again updates them; any left over are unlinked, not deleted.
+// Null when the receipt has no date to give the expenses.
+export async function splitReceiptByCategory(userId: string, receipt: Receipt, items: ReceiptLineItem[]): Promise<ReceiptSplitResult | null> {
+  const fields = getExtractedFields(receipt);
+  if (fields.date === null) return null;
+
+  const groups = groupLineItemsByCategory(items, fields.amount).filter(group => group.amount > 0);
+  const unused = await getReceiptExpenses(receipt);
+  const reused = groups.map(group => {
+    const index = unused.findIndex(expense => expense.category === group.category);
+    return index >= 0 ? unused.splice(index, 1)[0] : null;
+  });
+  // Fuel is logged against a vehicle; fall back to the default one
+  const settings = groups.some(group => group.category === "gas") ? await storage.getUserSettings(userId) : null;
+
+  const expenses: Expense[] = [];
+  for (let index = 0; index < groups.length; index++) {
+    const group = groups[index];
+    const existing = reused[index] ?? unused.shift() ?? null;
+    const expenseData = {
+      amount: group.amount,
+      category: group.category,
+      merchant: fields.merchant,
+      date: fields.date,
+      notes: group.items.map(item => item.description).join(", "),
+      vehicleId: group.category === "gas" ? existing?.vehicleId || settings?.defaultVehicleId || null : null,
+      receiptId: receipt.id
+    };
+    expenses.push(existing
+      ? (await storage.updateExpense(existing.id, expenseData))!
+      : await storage.createExpense({ ...expenseData, userId }));
+  }
+  for (const expense of unused) {
+    await storage.updateExpense(expense.id, { receiptId: null });
+  }
+
+  // The receipt points at its largest part
+  const main = expenses.reduce<Expense | null>((a, b) => !a || b.amount > a.amount ? b : a, null);
+  const updated = await storage.updateReceipt(receipt.id, {
+    expenseId: main?.id ?? null,
+    extractedData: { ...(receipt.extractedData as Record<string, any> || {}), items }
+  });
+  return { receipt: updated!, expenses };
+}
+
+// Run after OCR: link to a matching expense, otherwise create one from the receipt or just propose it
+export async function matchReceipt(userId: string, receipt: Receipt, { createExpense = false }: { createExpense?: boolean } = {}): Promise<ReceiptMatchResult> {
+  const match = await findMatchingExpense(userId, receipt);
+  if (match) {
+    return { status: "linked", ...await linkReceiptToExpense(receipt, match) };
+  }
+
+  const proposal = proposeExpense(receipt);
+  if (!proposal) return { status: "unmatched", receipt };
+  if (!createExpense) return { status: "proposed", receipt, proposal };
+
+  // Fuel is logged against a vehicle; fall back to the default one
+  const settings = proposal.category === "gas" ? await storage.getUserSettings(userId) : null;
+  const created = await storage.createExpense({ ...proposal, userId, vehicleId: settings?.defaultVehicleId || null });
+  return { status: "created", ...await linkReceiptToExpense(receipt, created) };
+}
@@ -0,0 +1,241 @@
+import type { AppSettings } from "@shared/schema";
+import fs from "fs";
+import Tesseract from "tesseract.js";
+import { z } from "zod";
+import { normalizeLineItems, type ExpenseCategory } from "@shared/receiptLineItems";
+import { storage } from "./storage";
+import { guessExpenseCategory } from "./receiptMatching";
+import { extractReceiptData, getOcrWords, scoreAiFields, scoreOcrFields, type OcrWord, type ReceiptConfidence } from "./receiptExtraction";
+import type { ReceiptDocument } from "./receiptFiles";
+
+export type ReceiptProviderName = "openai" | "openai_compatible" | "tesseract";
+
+export const RECEIPT_PROVIDERS: ReceiptProviderName[] = ["openai", "openai_compatible", "tesseract"];
+
+export const DEFAULT_RECEIPT_MODEL = "gpt-4o"; // needs vision capabilities
+export const DEFAULT_RECEIPT_PROMPT = "Analyze this receipt image and extract the following information in JSON format: merchant name, total amount (as a number), date (in MM/DD/YYYY format), tax amount (as a number), merchant address, phone number, and line items (as line_items, an array of objects with a description, and quantity, unit_price and total as numbers). Be as accurate as possible with the amounts and dates. If you can't find certain information, use null for that field.";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+// Local inference servers can take a while on a full-resolution image
+const MODEL_TIMEOUT_MS = 120 * 1000;
+
+export interface ReceiptExtraction {
+  ocrText: string;
+  extractedData: Record<string, any>;
+  confidence: ReceiptConfidence;
+}
+
+export interface ReceiptExtractionProvider {
+  readonly name: ReceiptProviderName;
+  extract(document: ReceiptDocument): Promise<ReceiptExtraction>;
+}
+
+// Models name the same field differently; malformed values become null instead of failing the receipt
+const modelTextSchema = z.preprocess(
+  value => typeof value === "number" ? String(value) : value,
+  z.string().trim().min(1)
+).nullable().catch(null);
+
+const modelMoneySchema = z.preprocess(
+  value => typeof value === "string" ? parseFloat(value.replace(/[^\d.-]/g, '')) : value,
+  z.number().finite().nonnegative()
+).nullable().catch(null);
+
+const modelReceiptSchema = z.object({
+  merchant: modelTextSchema,
+  merchant_name: modelTextSchema,
+  total_amount: modelMoneySchema,
+  total: modelMoneySchema,
+  amount: modelMoneySchema,
+  date: modelTextSchema,
+  tax_amount: modelMoneySchema,
+  tax: modelMoneySchema,
+  merchant_address: modelTextSchema,
+  address: modelTextSchema,
+  phone_number: modelTextSchema,
+  phone: modelTextSchema,
+  line_items: z.array(z.unknown()).catch([]),
+  items: z.array(z.unknown()).catch([]),
+});
+
+// Model output as extractedData; null when the reply holds no JSON object
+export function normalizeModelReceipt(content: string): Record<string, any> | null {
+  // Local models often wrap the JSON in a code fence or a sentence
+  const json = content.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json[0]);
+  } catch {
+    return null;
+  }
+
+  const parsed = modelReceiptSchema.safeParse(raw);
+  if (!parsed.success) return null;
+  const receipt = parsed.data;
+  const merchant = receipt.merchant ?? receipt.merchant_name;
+  return {
+    merchant,
+    amount: receipt.total_amount ?? receipt.total ?? receipt.amount,
+    date: receipt.date,
+    tax: receipt.tax_amount ?? receipt.tax,
+    address: receipt.merchant_address ?? receipt.address,
+    phone: receipt.phone_number ?? receipt.phone,
+    items: normalizeLineItems(
+      receipt.line_items.length > 0 ? receipt.line_items : receipt.items,
+      guessExpenseCategory(merchant) as ExpenseCategory
+    )
+  };
+}
+
+// Text of every page plus per-word confidences for scoring; embedded PDF text is exact and skips OCR
+async function recognizeReceiptText(document: ReceiptDocument) {
+  const texts: string[] = [];
+  const words: OcrWord[] = [];
+  let worker: Tesseract.Worker | null = null;
+
+  try {
+    for (const page of document.pages) {
+      if (page.text !== null) {
+        texts.push(page.text);
+        words.push(...page.text.split(/\s+/).filter(Boolean).map(text => ({ text, confidence: 100 })));
+        continue;
+      }
+      worker = worker || await Tesseract.createWorker('eng');
+      const { data } = await worker.recognize(page.imagePath, {}, { text: true, blocks: true });
+      texts.push(data.text);
+      words.push(...getOcrWords(data));
+    }
+  } finally {
+    await worker?.terminate();
+  }
+
+  return { text: texts.join('\n'), words };
+}
+
+class TesseractReceiptProvider implements ReceiptExtractionProvider {
+  readonly name = "tesseract" as const;
+
+  async extract(document: ReceiptDocument): Promise<ReceiptExtraction> {
+    const { text, words } = await recognizeReceiptText(document);
+    const { data: extractedData, evidence } = extractReceiptData(text);
+    return {
+      ocrText: text,
+      extractedData,
+      confidence: { source: "ocr", fields: scoreOcrFields(evidence, words) }
+    };
+  }
+}
+
+// Any server speaking the OpenAI chat completions API with image input
+class OpenAiCompatibleReceiptProvider implements ReceiptExtractionProvider {
+  readonly name: ReceiptProviderName = "openai_compatible";
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | null,
+    private model: string,
+    private prompt: string
+  ) {}
+
+  async extract(document: ReceiptDocument): Promise<ReceiptExtraction> {
+    // Every page goes to the model as a base64 image
+    const images = document.pages.map(page => ({
+      type: "image_url",
+      image_url: {
+        url: `data:${page.mimeType};base64,${fs.readFileSync(page.imagePath).toString('base64')}`,
+        detail: "high"
+      }
+    }));
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          {
+            role: "user",
+            content: [{ type: "text", text: this.prompt }, ...images]
+          }
+        ],
+        response_format: { type: "json_object" },
+        max_tokens: 1000
+      }),
+      signal: AbortSignal.timeout(MODEL_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Receipt model API error: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const content = result?.choices?.[0]?.message?.content;
+    const extractedData = typeof content === 'string' ? normalizeModelReceipt(content) : null;
+    if (!extractedData) {
+      throw new Error('Receipt model did not return receipt JSON');
+    }
+
+    // Also get raw text for backup, and read the fields again to check the model against
+    const { text, words } = await recognizeReceiptText(document);
+    const ocrResult = extractReceiptData(text);
+    return {
+      ocrText: text,
+      extractedData,
+      confidence: {
+        source: "ai",
+        fields: scoreAiFields(extractedData, ocrResult.data, scoreOcrFields(ocrResult.evidence, words))
+      }
+    };
+  }
+}
+
+class OpenAiReceiptProvider extends OpenAiCompatibleReceiptProvider {
+  readonly name = "openai" as const;
+
+  constructor(apiKey: string, model: string, prompt: string) {
+    super(OPENAI_BASE_URL, apiKey, model, prompt);
+  }
+}
+
+// OpenAI without an API key falls back to Tesseract, as receipts did before providers were configurable
+export function createReceiptProvider(settings?: AppSettings | null): ReceiptExtractionProvider {
+  const providerName = (settings?.receiptProvider || "openai") as ReceiptProviderName;
+  const model = settings?.receiptModel || DEFAULT_RECEIPT_MODEL;
+  const prompt = settings?.receiptPrompt || DEFAULT_RECEIPT_PROMPT;
+
+  switch (providerName) {
+    case "openai":
+      return settings?.openaiApiKey
+        ? new OpenAiReceiptProvider(settings.openaiApiKey, model, prompt)
+        : new TesseractReceiptProvider();
+    case "openai_compatible":
+      if (!settings?.receiptServiceUrl) {
+        throw new Error("Receipt service URL not configured");
+      }
+      return new OpenAiCompatibleReceiptProvider(settings.receiptServiceUrl, settings.receiptServiceApiKey || null, model, prompt);
+    case "tesseract":
+      return new TesseractReceiptProvider();
+    default:
+      throw new Error(`Unknown receipt provider: ${providerName}`);
+  }
+}
+
+// Extract with the user's provider, falling back to Tesseract when a model fails
+export async function processReceiptOCR(document: ReceiptDocument, userId?: string): Promise<ReceiptExtraction> {
+  try {
+    const settings = userId ? await storage.getUserSettings(userId) : null;
+    const provider = createReceiptProvider(settings);
+    if (provider.name !== "tesseract") {
+      return await provider.extract(document);
+    }
+  } catch (error) {
+    console.error('AI processing failed, falling back to OCR:', error);
+  }
+
+  return new TesseractReceiptProvider().extract(document);
+}
@@ -0,0 +1,74 @@
+import type { Receipt, ReceiptCorrection } from "@shared/schema";
+import { z } from "zod";
+import { storage } from "./storage";
+import { RECEIPT_FIELDS, type ReceiptConfidence, type ReceiptField } from "./receiptExtraction";
+
+// Field values as the user confirmed them; null for fields the receipt does not have
+export const receiptReviewSchema = z.object({
+  merchant: z.string().trim().min(1).nullable(),
+  amount: z.number().positive(),
+  date: z.string().refine(value => !isNaN(new Date(value).getTime()), "Invalid date"),
+  tax: z.number().nonnegative().nullable(),
+});
+
+export type ReceiptReview = z.infer<typeof receiptReviewSchema>;
+
+export interface ExtractionAccuracy {
+  source: string;
+  field: ReceiptField;
+  reviewed: number;
+  correct: number;
+}
+
+// Comparable text for a field value: cents for money, the calendar day for dates
+function formatFieldValue(field: ReceiptField, value: any): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (field === "amount" || field === "tax") {
+    const amount = Number(value);
+    return isNaN(amount) ? String(value) : amount.toFixed(2);
+  }
+  if (field === "date") {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return String(value);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+  return String(value).trim();
+}
+
+// Every reviewed field is recorded, changed or not, so accuracy can be measured over all reviews
+export async function confirmReceiptReview(receipt: Receipt, review: ReceiptReview): Promise<Receipt> {
+  const extracted = (receipt.extractedData || {}) as Record<string, any>;
+  const confidence = receipt.confidence as ReceiptConfidence | null;
+
+  for (const field of RECEIPT_FIELDS) {
+    await storage.createReceiptCorrection({
+      userId: receipt.userId,
+      receiptId: receipt.id,
+      field,
+      extractedValue: formatFieldValue(field, extracted[field]),
+      confirmedValue: formatFieldValue(field, review[field]),
+      confidence: confidence?.fields[field] ?? null,
+      source: confidence?.source ?? null
+    });
+  }
+
+  return (await storage.updateReceipt(receipt.id, {
+    extractedData: { ...extracted, ...review },
+    reviewStatus: "confirmed"
+  }))!;
+}
+
+// Share of reviewed fields extraction got right, per extraction source and field
+export function summarizeCorrections(corrections: ReceiptCorrection[]): ExtractionAccuracy[] {
+  const summaries = new Map<string, ExtractionAccuracy>();
+  for (const correction of corrections) {
+    const source = correction.source || "unknown";
+    const key = `${source}:${correction.field}`;
+    const summary = summaries.get(key) || { source, field: correction.field as ReceiptField, reviewed: 0, correct: 0 };
+    summary.reviewed++;
+    if (correction.extractedValue === correction.confirmedValue) summary.correct++;
+    summaries.set(key, summary);
+  }
+  return Array.from(summaries.values());
+}
@@ -0,0 +1,266 @@
+import { getApiBudgetStatus, getRemainingCalls, type ApiBudgetStatus } from "./apiBudget";
+import { calculateRoute, findCachedRoute, isSameAddress, normalizeAddress, type DistanceProvider } from "./distance";
+import { storage } from "./storage";
+
+// Held-Karp is O(2^n · n²); beyond this many stops the 2-opt heuristic is used instead
+export const EXACT_MAX_STOPS = 10;
+
+export type OptimizationMethod = "exact" | "2-opt";
+
+export interface RouteLocation {
+  address: string; // routed address
+  label: string; // what the user entered, e.g. a saved place name
+}
+
+export interface RouteLeg {
+  from: string;
+  to: string;
+  distance: number; // miles
+  duration: number; // seconds
+}
+
+export interface RouteOptimization {
+  method: OptimizationMethod;
+  start: RouteLocation;
+  end: RouteLocation;
+  stops: RouteLocation[];
+  optimizedOrder: number[]; // indexes into stops
+  originalMiles: number;
+  optimizedMiles: number;
+  milesSaved: number;
+  originalLegs: RouteLeg[];
+  optimizedLegs: RouteLeg[];
+  apiCallsMade: number;
+  cacheHits: number;
+}
+
+// Billed routing calls an optimization would make, so the user can confirm them first
+export interface RouteOptimizationEstimate {
+  pairs: number;
+  cachedPairs: number;
+  uncachedPairs: number;
+  estimatedCost: number;
+  remainingCalls: number | null;
+  withinBudget: boolean;
+  budget: ApiBudgetStatus;
+}
+
+// Ordered location pairs the distance matrix needs: nothing leaves the end or returns to the start,
+// and the start never goes straight to the end unless there are no stops
+function getMatrixPairs(size: number, hasStops: boolean): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let from = 0; from < size - 1; from++) {
+    for (let to = 1; to < size; to++) {
+      if (from === to || (from === 0 && to === size - 1 && hasStops)) continue;
+      pairs.push([from, to]);
+    }
+  }
+  return pairs;
+}
+
+// Cost of visiting stops in order; matrix index 0 is the start, 1..n the stops and n+1 the end
+function getPathCost(matrix: number[][], order: number[]): number {
+  const path = [0, ...order.map(stop => stop + 1), matrix.length - 1];
+  let cost = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    cost += matrix[path[i]][path[i + 1]];
+  }
+  return cost;
+}
+
+// Exact open-path ordering with fixed start and end (Held-Karp dynamic programming)
+function solveExact(matrix: number[][], stopCount: number): number[] {
+  const fullMask = (1 << stopCount) - 1;
+  const cost: number[][] = Array.from({ length: 1 << stopCount }, () => new Array(stopCount).fill(Infinity));
+  const previous: number[][] = Array.from({ length: 1 << stopCount }, () => new Array(stopCount).fill(-1));
+
+  for (let stop = 0; stop < stopCount; stop++) {
+    cost[1 << stop][stop] = matrix[0][stop + 1];
+  }
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let last = 0; last < stopCount; last++) {
+      if (!(mask & (1 << last)) || cost[mask][last] === Infinity) continue;
+      for (let next = 0; next < stopCount; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        const candidate = cost[mask][last] + matrix[last + 1][next + 1];
+        if (candidate < cost[nextMask][next]) {
+          cost[nextMask][next] = candidate;
+          previous[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  const endIndex = stopCount + 1;
+  let bestLast = 0;
+  for (let last = 1; last < stopCount; last++) {
+    if (cost[fullMask][last] + matrix[last + 1][endIndex] < cost[fullMask][bestLast] + matrix[bestLast + 1][endIndex]) {
+      bestLast = last;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = fullMask;
+  let stop = bestLast;
+  while (stop !== -1) {
+    order.unshift(stop);
+    const prior = previous[mask][stop];
+    mask &= ~(1 << stop);
+    stop = prior;
+  }
+  return order;
+}
+
+// Nearest-neighbour tour improved with 2-opt segment reversals until no reversal helps
+function solveTwoOpt(matrix: number[][], stopCount: number): number[] {
+  const remaining = new Set(Array.from({ length: stopCount }, (_, stop) => stop));
+  const order: number[] = [];
+  let current = 0;
+  while (remaining.size > 0) {
+    let nearest = -1;
+    for (const stop of Array.from(remaining)) {
+      if (nearest === -1 || matrix[current][stop + 1] < matrix[current][nearest + 1]) {
+        nearest = stop;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+    current = nearest + 1;
+  }
+
+  let bestCost = getPathCost(matrix, order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < stopCount - 1; i++) {
+      for (let k = i + 1; k < stopCount; k++) {
+        // Distances can differ by direction, so the whole path is re-costed
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        const candidateCost = getPathCost(matrix, candidate);
+        if (candidateCost < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+}
+
+export function solveRouteOrder(matrix: number[][], stopCount: number): { order: number[]; method: OptimizationMethod } {
+  if (stopCount <= 1) {
+    return { order: stopCount === 1 ? [0] : [], method: "exact" };
+  }
+  return stopCount <= EXACT_MAX_STOPS
+    ? { order: solveExact(matrix, stopCount), method: "exact" }
+    : { order: solveTwoOpt(matrix, stopCount), method: "2-opt" };
+}
+
+// Count the matrix pairs that are not in the route cache without calling the provider. A pair repeated
+// through duplicate addresses is only billed once, since the first call caches it.
+export async function estimateRouteOptimization(
+  start: RouteLocation,
+  end: RouteLocation,
+  stops: RouteLocation[],
+  provider: DistanceProvider,
+  userId: string,
+  cacheTtlDays: number
+): Promise<RouteOptimizationEstimate> {
+  const locations = [start, ...stops, end];
+  const seenPairs = new Set<string>();
+  let pairs = 0;
+  let cachedPairs = 0;
+  let uncachedPairs = 0;
+
+  for (const [from, to] of getMatrixPairs(locations.length, stops.length > 0)) {
+    const fromAddress = locations[from].address;
+    const toAddress = locations[to].address;
+    if (isSameAddress(fromAddress, toAddress)) continue;
+    pairs++;
+    const pairKey = `${normalizeAddress(fromAddress)}|${normalizeAddress(toAddress)}`;
+    if (seenPairs.has(pairKey) || await findCachedRoute(fromAddress, toAddress, provider, userId, cacheTtlDays)) {
+      cachedPairs++;
+    } else {
+      uncachedPairs++;
+    }
+    seenPairs.add(pairKey);
+  }
+
+  const costPerCall = provider.usage?.costPerCall ?? 0;
+  const budget = await getApiBudgetStatus(userId, await storage.getUserSettings(userId));
+  const remainingCalls = costPerCall > 0 ? getRemainingCalls(budget, costPerCall) : null;
+  return {
+    pairs,
+    cachedPairs,
+    uncachedPairs,
+    estimatedCost: uncachedPairs * costPerCall,
+    remainingCalls,
+    withinBudget: remainingCalls === null || uncachedPairs <= remainingCalls,
+    budget
+  };
+}
+
+// Build the distance matrix through the distance provider and route cache, then reorder the stops
+export async function optimizeRoute(
+  start: RouteLocation,
+  end: RouteLocation,
+  stops: RouteLocation[],
+  provider: DistanceProvider,
+  userId: string,
+  cacheTtlDays: number
+): Promise<RouteOptimization> {
+  const locations = [start, ...stops, end];
+  const size = locations.length;
+  const distances: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+  const durations: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+  let apiCallsMade = 0;
+  let cacheHits = 0;
+
+  for (const [from, to] of getMatrixPairs(size, stops.length > 0)) {
+    const route = await calculateRoute(locations[from].address, locations[to].address, provider, userId, cacheTtlDays);
+    if (route.cached) {
+      cacheHits++;
+    } else if (!route.skipped) {
+      apiCallsMade++;
+    }
+    distances[from][to] = route.distance;
+    durations[from][to] = route.duration;
+  }
+
+  const getLegs = (order: number[]): RouteLeg[] => {
+    const path = [0, ...order.map(stop => stop + 1), size - 1];
+    return path.slice(0, -1).map((from, index) => {
+      const to = path[index + 1];
+      return {
+        from: locations[from].label,
+        to: locations[to].label,
+        distance: distances[from][to],
+        duration: durations[from][to]
+      };
+    });
+  };
+
+  const originalOrder = stops.map((_, index) => index);
+  const originalMiles = getPathCost(distances, originalOrder);
+  const solution = solveRouteOrder(distances, stops.length);
+  // The heuristic can miss an ordering as good as the file's; never suggest a longer route
+  const optimizedOrder = getPathCost(distances, solution.order) < originalMiles ? solution.order : originalOrder;
+  const optimizedMiles = getPathCost(distances, optimizedOrder);
+
+  return {
+    method: solution.method,
+    start,
+    end,
+    stops,
+    optimizedOrder,
+    originalMiles,
+    optimizedMiles,
+    milesSaved: originalMiles - optimizedMiles,
+    originalLegs: getLegs(originalOrder),
+    optimizedLegs: getLegs(optimizedOrder),
+    apiCallsMade,
+    cacheHits
+  };
+}
@@ -2,30 +2,72 @@ import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, getCurrentUser } from "./simpleAuth.js";
-import { insertTripSchema, insertExpenseSchema, insertReceiptSchema, insertScheduleEntrySchema, insertAppSettingsSchema, insertErrorLogSchema, insertYearlyRateSchema } from "@shared/schema";
+import { insertTripSchema, insertExpenseSchema, insertReceiptSchema, insertScheduleEntrySchema, insertAppSettingsSchema, insertErrorLogSchema, insertYearlyRateSchema, insertVehicleSchema, insertPlaceSchema, insertScheduleImportTemplateSchema } from "@shared/schema";
+import { getHeaderSignature, getRowHeaders, mappingFromHeaders, scheduleColumnMappingSchema } from "@shared/scheduleMapping";
+import { getDeductibleAmount, receiptLineItemSchema } from "@shared/receiptLineItems";
+import { MAX_OPTIMIZE_STOPS } from "@shared/routeOptimization";
 import multer from "multer";
-import Tesseract from "tesseract.js";
 import XLSX from "xlsx";
 import { parse } from "csv-parse/sync";
 import fs from "fs";
 import path from "path";
 import archiver from "archiver";
+import { createHash } from "crypto";
+import { assertPlanWithinBudget, estimateSchedulePlan, planSchedule, previewSchedulePlan, recalculateScheduleEntry, runSchedulePlan, ScheduleRequestError } from "./scheduleProcessor";
+import { createMileageRateResolver, describeMileageRate, parseEffectiveDate, recomputeScheduleAmounts } from "./mileageRates";
+import { getDeductibleMiles } from "./commute";
+import { computeTripDistance } from "./tripDistance";
+import { buildGpx, buildKml, getTrackFormat, parseTrackFile, type TrackFormat, type TripTrack } from "./gpsTracks";
+import { cancelJob, enqueueJob, isTerminalStatus, resumeJob, resumeUnfinishedJobs, subscribeToJob } from "./jobQueue";
+import { ApiBudgetExceededError, describeBudgetUsage, getApiBudgetStatus } from "./apiBudget";
+import { getImportBatchSummaries, ImportRevertError, revertImportBatch, startImportBatch } from "./importBatches";
+import { findImportTemplate } from "./importTemplates";
+import { detectAddressColumns } from "./addresses";
+import { detachExpenseReceipt, linkReceiptToExpense, matchReceipt, splitReceiptByCategory, unlinkReceipt } from "./receiptMatching";
+import { needsReview } from "./receiptExtraction";
+import { processReceiptOCR } from "./receiptProviders";
+import { isSupportedReceiptFile, prepareReceiptFile, removeReceiptFiles, type ReceiptDocument } from "./receiptFiles";
+import { confirmReceiptReview, receiptReviewSchema, summarizeCorrections } from "./receiptReview";
+import { getDefaultIcsRange, parseIcsSchedule, type IcsDateRange } from "./icalendar";
+import { createDistanceProvider, getRouteCacheTtlDays } from "./distance";
+import { fillTripAddresses } from "./geocoding";
+import { describeLocation, geocodePlaceAddress, getDefaultAddresses, labelLocation, matchPlace, matchTripsToPlaces, resolvePlaceLocation } from "./places";
+import { estimateRouteOptimization, optimizeRoute, type RouteLocation } from "./routeOptimizer";
+import { appendSheetsByVehicle, buildVehicleSummarySheet, getVehicleName, getVehicleUsageSummaries } from "./vehicleReports";
+import { z } from "zod";
+
+// A single watchPosition sample as uploaded by the tracking tab
+const tripPointUploadSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().nullish(),
+  speed: z.number().nullish(),
+  timestamp: z.union([z.number(), z.string()])
+});
+
+// Stops of one day to reorder; start and end default to the settings. confirmedApiCalls is the
+// number of billed calls the user agreed to after seeing the estimate.
+const routeOptimizeSchema = z.object({
+  start: z.string().trim().min(1).optional(),
+  end: z.string().trim().min(1).optional(),
+  stops: z.array(z.string().trim().min(1)).min(1).max(MAX_OPTIMIZE_STOPS),
+  confirmedApiCalls: z.number().int().nonnegative().optional()
+});
 
 // Extend Request interface for multer
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
 }
 
-// Multer config for image uploads (receipts)
+// Multer config for receipt uploads (images, HEIC photos and PDFs)
 const uploadImages = multer({ 
   dest: "uploads/",
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
   fileFilter: (req, file, cb) => {
-    // Only allow image files
-    if (file.mimetype.startsWith('image/')) {
+    if (isSupportedReceiptFile(file)) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new Error('Only image and PDF files are allowed'));
     }
   }
 });
@@ -49,256 +91,8 @@ function sanitizeFilePath(filePath: string, baseDir: string = 'uploads/'): strin
   return resolvedPath;
 }
 
-// Google Directions API integration
-async function calculateRoute(startAddress: string, endAddress: string, apiKey: string, userId?: string) {
-  // Skip calculation if start and end addresses are the same
-  if (startAddress.trim().toLowerCase() === endAddress.trim().toLowerCase()) {
-    return {
-      distance: 0,
-      duration: 0,
-      startAddress: startAddress,
-      endAddress: endAddress,
-      skipped: true,
-      reason: "Same start and end location"
-    };
-  }
-  
-  const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(startAddress)}&destination=${encodeURIComponent(endAddress)}&key=${apiKey}`;
-  
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
-    
-    // Track API usage if userId is provided
-    if (userId) {
-      const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
-      await storage.trackApiCall({
-        userId,
-        apiProvider: 'google_directions',
-        endpoint: '/directions',
-        callCount: 1,
-        month: currentMonth,
-        lastCalled: new Date(),
-        totalCost: 0.005 // $0.005 per request is Google's current rate
-      });
-    }
-    
-    if (data.status === "OK" && data.routes.length > 0) {
-      const route = data.routes[0];
-      const leg = route.legs[0];
-      return {
-        distance: leg.distance.value / 1609.34, // Convert meters to miles
-        duration: leg.duration.value, // seconds
-        startAddress: leg.start_address,
-        endAddress: leg.end_address
-      };
-    } else {
-      throw new Error(`Google Directions API error: ${data.status}`);
-    }
-  } catch (error) {
-    throw new Error(`Failed to calculate route: ${error}`);
-  }
-}
-
-function detectOffDay(notes: string): boolean {
-  if (!notes) return false;
-  const lowerNotes = notes.toLowerCase();
-  const offDayKeywords = [
-    'off', 'off day', 'off-day', 'day off',
-    'vacation', 'holiday', 'sick', 'sick day',
-    'personal', 'pto', 'time off', 'not working',
-    'no work', 'rest day', 'break'
-  ];
-  return offDayKeywords.some(keyword => lowerNotes.includes(keyword));
-}
-
-// OCR processing
-async function processReceiptOCR(imagePath: string, userId?: string) {
-  // Try advanced AI analysis first if available
-  if (userId) {
-    const userSettings = await storage.getUserSettings(userId);
-    if (userSettings?.openaiApiKey) {
-      try {
-        const aiResult = await processReceiptWithAI(imagePath, userSettings.openaiApiKey);
-        if (aiResult) {
-          return aiResult;
-        }
-      } catch (error) {
-        console.error('AI processing failed, falling back to OCR:', error);
-      }
-    }
-  }
-
-  // Fallback to enhanced Tesseract OCR
-  const worker = await Tesseract.createWorker('eng');
-  
-  const { data: { text } } = await worker.recognize(imagePath);
-  await worker.terminate();
-  
-  // Extract structured data from OCR text
-  const extractedData = extractReceiptData(text);
-  
-  return {
-    ocrText: text,
-    extractedData
-  };
-}
-
-async function processReceiptWithAI(imagePath: string, openaiApiKey: string) {
-  try {
-    // Read the image file and convert to base64
-    const imageBuffer = fs.readFileSync(imagePath);
-    const base64Image = imageBuffer.toString('base64');
-    const mimeType = path.extname(imagePath).toLowerCase() === '.png' ? 'image/png' : 'image/jpeg';
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "gpt-4o", // gpt-4o has vision capabilities
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Analyze this receipt image and extract the following information in JSON format: merchant name, total amount (as a number), date (in MM/DD/YYYY format), tax amount (as a number), merchant address, phone number, and any line items. Be as accurate as possible with the amounts and dates. If you can't find certain information, use null for that field."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const aiData = JSON.parse(result.choices[0].message.content);
-    
-    // Also get raw text for backup
-    const fallbackWorker = await Tesseract.createWorker('eng');
-    const { data: { text } } = await fallbackWorker.recognize(imagePath);
-    await fallbackWorker.terminate();
-    
-    return {
-      ocrText: text,
-      extractedData: {
-        merchant: aiData.merchant || null,
-        amount: typeof aiData.total_amount === 'number' ? aiData.total_amount : null,
-        date: aiData.date || null,
-        tax: typeof aiData.tax_amount === 'number' ? aiData.tax_amount : null,
-        address: aiData.merchant_address || null,
-        phone: aiData.phone_number || null,
-        items: aiData.line_items || []
-      }
-    };
-  } catch (error) {
-    console.error('AI receipt processing error:', error);
-    return null;
-  }
-}
-
-function extractReceiptData(text: string) {
-  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-  
-  const data: any = {};
-  
-  // Enhanced amount extraction with multiple patterns
-  const amountPatterns = [
-    /total.*?\$?([\d,]+\.?\d{0,2})/i,
-    /amount.*?\$?([\d,]+\.?\d{0,2})/i,
-    /subtotal.*?\$?([\d,]+\.?\d{0,2})/i,
-    /\$[\d,]+\.\d{2}(?=\s*$)/gm, // End of line amounts
-    /\$[\d,]+\.?\d{0,2}/g // General dollar amounts
-  ];
-  
-  let amounts: number[] = [];
-  for (const pattern of amountPatterns) {
-    const matches = text.match(pattern);
-    if (matches) {
-      const extractedAmounts = matches.map(match => {
-        const numStr = match.replace(/[^\d.,]/g, '');
-        return parseFloat(numStr.replace(/,/g, ''));
-      }).filter(num => !isNaN(num) && num > 0);
-      amounts.push(...extractedAmounts);
-      if (pattern.source.includes('total')) break; // Prefer total if found
-    }
-  }
-  
-  if (amounts.length > 0) {
-    data.amount = Math.max(...amounts);
-  }
-  
-  // Enhanced date extraction with multiple formats
-  const datePatterns = [
-    /\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}\b/, // MM/DD/YYYY
-    /\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2}\b/, // MM/DD/YY
-    /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}\b/i,
-    /\b\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}\b/, // YYYY/MM/DD
-    /\b\d{1,2}\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{4}\b/i
-  ];
-  
-  for (const pattern of datePatterns) {
-    const dateMatch = text.match(pattern);
-    if (dateMatch) {
-      data.date = dateMatch[0];
-      break;
-    }
-  }
-  
-  // Enhanced merchant extraction - look for business names in first few lines
-  const merchantCandidates = lines.slice(0, 5).filter(line => {
-    // Filter out obvious non-merchant lines
-    return !line.match(/^\d+$/) && 
-           !line.match(/^\$/) && 
-           !line.match(/^(receipt|thank you|visit)/i) &&
-           line.length > 2 && 
-           line.length < 50;
-  });
-  
-  if (merchantCandidates.length > 0) {
-    // Pick the longest reasonable line as merchant name
-    data.merchant = merchantCandidates.reduce((a, b) => 
-      a.length > b.length ? a : b
-    );
-  }
-  
-  // Enhanced tax extraction
-  const taxPatterns = [
-    /tax.*?\$?([\d,]+\.?\d{0,2})/i,
-    /sales tax.*?\$?([\d,]+\.?\d{0,2})/i,
-    /hst.*?\$?([\d,]+\.?\d{0,2})/i,
-    /vat.*?\$?([\d,]+\.?\d{0,2})/i,
-    /gst.*?\$?([\d,]+\.?\d{0,2})/i
-  ];
-  
-  for (const pattern of taxPatterns) {
-    const taxMatch = text.match(pattern);
-    if (taxMatch) {
-      data.tax = parseFloat(taxMatch[1].replace(/,/g, ''));
-      break;
-    }
-  }
-  
-  return data;
-}
-
 // File parsing utilities
-function parseScheduleFile(filePath: string, fileName: string) {
+function parseScheduleFile(filePath: string, fileName: string, icsRange: IcsDateRange = getDefaultIcsRange()) {
   const ext = path.extname(fileName).toLowerCase();
   
   if (ext === '.csv') {
@@ -323,6 +117,9 @@ function parseScheduleFile(filePath: string, fileName: string) {
       });
       return obj;
     });
+  } else if (ext === '.ics') {
+    // Recurring appointments are expanded within the range
+    return parseIcsSchedule(fs.readFileSync(filePath, 'utf-8'), icsRange);
   }
   
   throw new Error('Unsupported file format');
@@ -379,12 +176,6 @@ function detectHeaders(data: any[]) {
   return mapping;
 }
 
-function detectHotelStay(notes: string): boolean {
-  if (!notes) return false;
-  const lowerNotes = notes.toLowerCase();
-  return lowerNotes.includes('hotel') || lowerNotes.includes('motel') || lowerNotes.includes('stay') || lowerNotes.includes('lodging');
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   setupAuth(app);
@@ -416,7 +207,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getCurrentUserId(req);
       const trips = await storage.getTrips(userId);
-      res.json(trips);
+      const resolveRate = await createMileageRateResolver(userId);
+      res.json(trips.map(trip => ({ ...trip, mileageRate: resolveRate(trip.startTime, trip.purpose).rate })));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch trips" });
     }
@@ -425,7 +217,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/trips", isAuthenticated, async (req, res) => {
     try {
       const userId = getCurrentUserId(req);
-      const validatedData = insertTripSchema.parse({ ...req.body, userId });
+      if (req.body.vehicleId) {
+        const vehicle = await storage.getVehicle(req.body.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+      const settings = await storage.getUserSettings(userId);
+      const startPlace = matchPlace(await storage.getPlaces(userId), req.body.startLocation);
+      const validatedData = insertTripSchema.parse({
+        ...req.body,
+        startLocation: labelLocation(req.body.startLocation, startPlace),
+        startPlaceId: startPlace?.id ?? null,
+        startTime: new Date(req.body.startTime),
+        vehicleId: req.body.vehicleId || settings?.defaultVehicleId || null,
+        userId
+      });
       const trip = await storage.createTrip(validatedData);
       res.json(trip);
     } catch (error) {
@@ -435,16 +242,264 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/trips/:id", isAuthenticated, async (req, res) => {
     try {
-      const trip = await storage.updateTrip(req.params.id, req.body);
+      const userId = getCurrentUserId(req);
+      const existingTrip = await storage.getTrip(req.params.id);
+      if (!existingTrip || existingTrip.userId !== userId) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      const { id: _id, userId: _userId, ...updates } = req.body;
+      if (updates.vehicleId) {
+        const vehicle = await storage.getVehicle(updates.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+      if (updates.startTime) updates.startTime = new Date(updates.startTime);
+      if (updates.endTime) updates.endTime = new Date(updates.endTime);
+
+      // Stopping a trip: measure it from the recorded breadcrumbs
+      if (existingTrip.isActive && updates.isActive === false) {
+        const points = await storage.getTripPoints(existingTrip.id);
+        if (points.length > 1) {
+          updates.distance = computeTripDistance(points);
+        }
+        if (!updates.endLocation && points.length > 0) {
+          const lastPoint = points[points.length - 1];
+          updates.endLocation = { latitude: lastPoint.latitude, longitude: lastPoint.longitude };
+        }
+      }
+
+      // Label moved or newly set endpoints with the saved place they fall in
+      if (updates.startLocation || updates.endLocation) {
+        const userPlaces = await storage.getPlaces(userId);
+        if (updates.startLocation) {
+          const startPlace = matchPlace(userPlaces, updates.startLocation);
+          updates.startLocation = labelLocation(updates.startLocation, startPlace);
+          updates.startPlaceId = startPlace?.id ?? null;
+        }
+        if (updates.endLocation) {
+          const endPlace = matchPlace(userPlaces, updates.endLocation);
+          updates.endLocation = labelLocation(updates.endLocation, endPlace);
+          updates.endPlaceId = endPlace?.id ?? null;
+        }
+      }
+
+      const trip = await storage.updateTrip(existingTrip.id, updates);
       if (!trip) {
         return res.status(404).json({ message: "Trip not found" });
       }
+      // Closed trips get street addresses for endpoints that no saved place labeled
+      if (existingTrip.isActive && trip.isActive === false) {
+        return res.json(await fillTripAddresses(userId, trip));
+      }
       res.json(trip);
     } catch (error) {
       res.status(500).json({ message: "Failed to update trip" });
     }
   });
 
+  app.delete("/api/trips/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip || trip.userId !== userId) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      await storage.deleteTrip(trip.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete trip" });
+    }
+  });
+
+  // Batched GPS samples from an active trip
+  app.post("/api/trips/:id/points", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip || trip.userId !== userId) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      if (!trip.isActive) {
+        return res.status(409).json({ message: "Trip is no longer active" });
+      }
+
+      const points = z.array(tripPointUploadSchema).max(1000).parse(req.body.points);
+      const received = await storage.addTripPoints(points.map(point => ({
+        tripId: trip.id,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy: point.accuracy ?? null,
+        speed: point.speed ?? null,
+        recordedAt: new Date(point.timestamp)
+      })));
+      res.json({ received });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid trip points", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save trip points" });
+    }
+  });
+
+  // GPX/KML export of a single trip or of all trips in a date range
+  const sendTracks = (res: any, format: TrackFormat, tracks: TripTrack[], baseName: string) => {
+    const isGpx = format === "gpx";
+    res.setHeader('Content-Type', isGpx ? 'application/gpx+xml' : 'application/vnd.google-earth.kml+xml');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${format}"`);
+    res.send(isGpx ? buildGpx(tracks) : buildKml(tracks));
+  };
+
+  app.get("/api/trips/export.:format", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const format = getTrackFormat(`.${req.params.format}`);
+      if (!format) {
+        return res.status(400).json({ message: "Export format must be gpx or kml" });
+      }
+
+      const from = req.query.from ? new Date(req.query.from as string) : null;
+      const to = req.query.to ? new Date(req.query.to as string) : null;
+      if (to) to.setHours(23, 59, 59, 999); // include the whole end day
+
+      const trips = (await storage.getTrips(userId))
+        .filter(trip => !trip.isActive)
+        .filter(trip => (!from || new Date(trip.startTime) >= from) && (!to || new Date(trip.startTime) <= to))
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+      const tracks = await Promise.all(trips.map(async trip => ({ trip, points: await storage.getTripPoints(trip.id) })));
+
+      sendTracks(res, format, tracks, `route-rover-trips-${new Date().toISOString().slice(0, 10)}`);
+    } catch (error) {
+      console.error("Trip export error:", error);
+      res.status(500).json({ message: "Failed to export trips" });
+    }
+  });
+
+  app.get("/api/trips/:id/export.:format", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const format = getTrackFormat(`.${req.params.format}`);
+      if (!format) {
+        return res.status(400).json({ message: "Export format must be gpx or kml" });
+      }
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip || trip.userId !== userId) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      const points = await storage.getTripPoints(trip.id);
+      sendTracks(res, format, [{ trip, points }], `route-rover-trip-${new Date(trip.startTime).toISOString().slice(0, 10)}`);
+    } catch (error) {
+      console.error("Trip export error:", error);
+      res.status(500).json({ message: "Failed to export trip" });
+    }
+  });
+
+  // Import GPX/KML logs from dashcams and other tracking apps as completed trips
+  app.post("/api/trips/import", isAuthenticated, uploadSchedule.single('track'), async (req: MulterRequest, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+
+      const fileName = req.file.originalname;
+      const format = getTrackFormat(fileName);
+      const content = fs.readFileSync(req.file.path, 'utf8');
+      fs.unlinkSync(req.file.path);
+      if (!format) {
+        return res.status(400).json({ message: "Unsupported file type. Please upload a GPX or KML file." });
+      }
+      if (req.body.vehicleId) {
+        const vehicle = await storage.getVehicle(req.body.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+
+      const fileHash = createHash('sha256').update(content).digest('hex');
+      const existingFileProcess = await storage.getProcessedFileHash(userId, fileHash);
+      if (existingFileProcess) {
+        return res.status(409).json({
+          message: "This file has already been imported",
+          processedAt: existingFileProcess.processedAt,
+          recordCount: existingFileProcess.recordCount
+        });
+      }
+
+      const tracks = parseTrackFile(content, format).filter(track => track.points.length >= 2);
+      if (tracks.length === 0) {
+        return res.status(400).json({ message: "No tracks with at least two points were found in the file" });
+      }
+
+      const settings = await storage.getUserSettings(userId);
+      const vehicleId = req.body.vehicleId || settings?.defaultVehicleId || null;
+      const userPlaces = await storage.getPlaces(userId);
+      const importedTrips = [];
+      for (const track of tracks) {
+        const firstPoint = track.points[0];
+        const lastPoint = track.points[track.points.length - 1];
+        // Untimed tracks (e.g. KML LineStrings) are dated at import time
+        const startTime = firstPoint.time || new Date();
+        const points = track.points.map(point => ({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          accuracy: null,
+          speed: null,
+          recordedAt: point.time || startTime
+        }));
+
+        const startLocation = { latitude: firstPoint.latitude, longitude: firstPoint.longitude };
+        const endLocation = { latitude: lastPoint.latitude, longitude: lastPoint.longitude };
+        const startPlace = matchPlace(userPlaces, startLocation);
+        const endPlace = matchPlace(userPlaces, endLocation);
+
+        const trip = await storage.createTrip({
+          userId,
+          startLocation: labelLocation(startLocation, startPlace),
+          endLocation: labelLocation(endLocation, endPlace),
+          startPlaceId: startPlace?.id ?? null,
+          endPlaceId: endPlace?.id ?? null,
+          startTime,
+          endTime: lastPoint.time,
+          distance: computeTripDistance(points),
+          purpose: req.body.purpose || "business",
+          vehicleId,
+          notes: track.name ? `Imported: ${track.name}` : `Imported from ${fileName}`,
+          isActive: false,
+          autoDetected: false
+        });
+
+        // Insert in chunks to stay under the database parameter limit
+        for (let i = 0; i < points.length; i += 1000) {
+          await storage.addTripPoints(points.slice(i, i + 1000).map(point => ({ ...point, tripId: trip.id })));
+        }
+        importedTrips.push(await fillTripAddresses(userId, trip));
+      }
+
+      await storage.createProcessedFile({
+        userId,
+        fileHash,
+        fileName,
+        processedAt: new Date(),
+        recordCount: importedTrips.length
+      });
+
+      res.json({
+        message: `Imported ${importedTrips.length} trip(s)`,
+        tripsImported: importedTrips.length,
+        trips: importedTrips
+      });
+    } catch (error) {
+      console.error("Trip import error:", error);
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+      res.status(500).json({ message: `Failed to import trips: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
   app.get("/api/trips/active", isAuthenticated, async (req, res) => {
     try {
       const userId = getCurrentUserId(req);
@@ -474,9 +529,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
         date: new Date(req.body.date)
       };
+      if (expenseData.vehicleId) {
+        const vehicle = await storage.getVehicle(expenseData.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+      // Fuel is logged against a vehicle; fall back to the default one
+      if (expenseData.category === 'gas' && !expenseData.vehicleId) {
+        const settings = await storage.getUserSettings(userId);
+        expenseData.vehicleId = settings?.defaultVehicleId || null;
+      }
+      const receipt = expenseData.receiptId ? await storage.getReceipt(expenseData.receiptId) : null;
+      if (expenseData.receiptId && (!receipt || receipt.userId !== userId)) {
+        return res.status(400).json({ message: "Receipt not found" });
+      }
       const validatedData = insertExpenseSchema.parse(expenseData);
       const expense = await storage.createExpense(validatedData);
-      res.json(expense);
+      // Entered from a scanned receipt: point the receipt back at the new expense
+      res.json(receipt ? (await linkReceiptToExpense(receipt, expense)).expense : expense);
     } catch (error: any) {
       console.error('Expense validation error:', error);
       res.status(400).json({ message: "Invalid expense data", error: error?.message || 'Unknown error' });
@@ -494,9 +565,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Expense not found" });
       }
 
+      // Receipt links change through the receipt link endpoints, which update both sides
+      const { receiptId, ...body } = req.body;
+      if (body.vehicleId) {
+        const vehicle = await storage.getVehicle(body.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
       const expenseData = {
-        ...req.body,
-        ...(req.body.date && { date: new Date(req.body.date) })
+        ...body,
+        ...(body.date && { date: new Date(body.date) })
       };
       
       const expense = await storage.updateExpense(expenseId, expenseData);
@@ -518,6 +597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Expense not found" });
       }
 
+      await detachExpenseReceipt(existingExpense);
       const deleted = await storage.deleteExpense(expenseId);
       if (deleted) {
         res.json({ message: "Expense deleted successfully" });
@@ -543,6 +623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // New endpoint for local storage mode - OCR processing only
   app.post("/api/receipts/process-ocr", isAuthenticated, uploadImages.single('image'), async (req: MulterRequest, res) => {
+    let document: ReceiptDocument | null = null;
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
@@ -551,10 +632,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getCurrentUserId(req);
       const receiptId = req.body.receiptId;
       const isLocalOnly = req.body.localOnly === 'true';
+      const createExpense = req.body.createExpense === 'true';
       
       // Sanitize file path to prevent path traversal
       const sanitizedPath = sanitizeFilePath(req.file.path);
-      const { ocrText, extractedData } = await processReceiptOCR(sanitizedPath, userId);
+      document = await prepareReceiptFile({ ...req.file, path: sanitizedPath });
+      const { ocrText, extractedData, confidence } = await processReceiptOCR(document, userId);
+      const reviewStatus = needsReview(extractedData, confidence) ? "needs_review" : null;
       
       if (isLocalOnly) {
         // For local storage mode, save receipt record with local image reference
@@ -563,31 +647,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
           imageUrl: `local:${receiptId}`, // Special URL format for local images
           ocrText,
           extractedData,
+          confidence,
+          reviewStatus,
+          pageThumbnails: document.thumbnails,
           uploadDate: new Date()
         });
 
         const receipt = await storage.createReceipt(receiptData);
         
-        // Clean up temporary server file since we're not storing it
-        fs.unlinkSync(req.file.path);
+        // Clean up temporary server files since we're not storing them
+        removeReceiptFiles(document, { keepStored: false });
         
-        res.json(receipt);
+        const match = await matchReceipt(userId, receipt, { createExpense: createExpense && !reviewStatus });
+        res.json({ ...match.receipt, match });
       } else {
         // Fallback to original behavior for compatibility
         const receiptData = insertReceiptSchema.parse({
           userId,
-          imageUrl: `/uploads/${req.file.filename}`,
+          imageUrl: `/uploads/${path.basename(document.storedPath)}`,
           ocrText,
           extractedData,
+          confidence,
+          reviewStatus,
+          pageThumbnails: document.thumbnails,
           uploadDate: new Date()
         });
 
         const receipt = await storage.createReceipt(receiptData);
-        res.json(receipt);
+        removeReceiptFiles(document, { keepStored: true });
+        const match = await matchReceipt(userId, receipt, { createExpense: createExpense && !reviewStatus });
+        res.json({ ...match.receipt, match });
       }
     } catch (error) {
       console.error('Failed to process receipt OCR:', error);
-      // Clean up temporary file if it exists
+      // Clean up temporary files if they exist
+      if (document) {
+        removeReceiptFiles(document, { keepStored: false });
+      }
       if (req.file && fs.existsSync(req.file.path)) {
         fs.unlinkSync(req.file.path);
       }
@@ -596,6 +692,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/receipts", isAuthenticated, uploadImages.single('image'), async (req: MulterRequest, res) => {
+    let document: ReceiptDocument | null = null;
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
@@ -605,341 +702,684 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Sanitize file path to prevent path traversal
       const sanitizedPath = sanitizeFilePath(req.file.path);
-      const { ocrText, extractedData } = await processReceiptOCR(sanitizedPath, userId);
+      document = await prepareReceiptFile({ ...req.file, path: sanitizedPath });
+      const { ocrText, extractedData, confidence } = await processReceiptOCR(document, userId);
+      const reviewStatus = needsReview(extractedData, confidence) ? "needs_review" : null;
       
       const receiptData = insertReceiptSchema.parse({
         userId,
-        imageUrl: `/uploads/${req.file.filename}`,
-        ocrText,
-        extractedData,
-        uploadDate: new Date()
+        imageUrl: `/uploads/${path.basename(document.storedPath)}`,
+        ocrText,
+        extractedData,
+        confidence,
+        reviewStatus,
+        pageThumbnails: document.thumbnails,
+        uploadDate: new Date()
+      });
+
+      const receipt = await storage.createReceipt(receiptData);
+      
+      // Keep the uploaded file for serving images; only PDF page renders are removed
+      removeReceiptFiles(document, { keepStored: true });
+      
+      // An expense is only created from fields that do not need review
+      const match = await matchReceipt(userId, receipt, { createExpense: req.body.createExpense === 'true' && !reviewStatus });
+      res.json({ ...match.receipt, match });
+    } catch (error) {
+      if (document) {
+        removeReceiptFiles(document, { keepStored: false });
+      }
+      res.status(500).json({ message: "Failed to process receipt" });
+    }
+  });
+
+  // Receipts whose extraction scored below the confidence threshold, oldest first
+  app.get("/api/receipts/review", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipts = await storage.getReceipts(userId);
+      res.json(receipts
+        .filter(receipt => receipt.reviewStatus === "needs_review")
+        .sort((a, b) => new Date(a.uploadDate).getTime() - new Date(b.uploadDate).getTime()));
+    } catch (error) {
+      console.error("Failed to fetch receipt review queue:", error);
+      res.status(500).json({ message: "Failed to fetch receipt review queue" });
+    }
+  });
+
+  // Confirm a receipt's fields; the extracted and confirmed values are kept as corrections
+  app.post("/api/receipts/:id/review", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.userId !== userId) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const review = receiptReviewSchema.parse(req.body);
+      const confirmed = await confirmReceiptReview(receipt, review);
+      if (confirmed.expenseId) {
+        return res.json(confirmed);
+      }
+      // Confirmed fields may now match an expense that the extracted ones missed
+      const match = await matchReceipt(userId, confirmed);
+      res.json({ ...match.receipt, match });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid receipt review", errors: error.errors });
+      }
+      console.error("Failed to confirm receipt review:", error);
+      res.status(500).json({ message: "Failed to confirm receipt review" });
+    }
+  });
+
+  // Confirmed corrections and how often extraction got each field right
+  app.get("/api/receipts/corrections", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const corrections = await storage.getReceiptCorrections(userId);
+      res.json({ corrections, accuracy: summarizeCorrections(corrections) });
+    } catch (error) {
+      console.error("Failed to fetch receipt corrections:", error);
+      res.status(500).json({ message: "Failed to fetch receipt corrections" });
+    }
+  });
+
+  // Link a receipt to one of the user's expenses; both sides are updated and any previous links dropped
+  app.post("/api/receipts/:id/link", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.userId !== userId) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const { expenseId } = z.object({ expenseId: z.string() }).parse(req.body);
+      const expense = await storage.getExpense(expenseId);
+      if (!expense || expense.userId !== userId) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      res.json(await linkReceiptToExpense(receipt, expense));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid link request", errors: error.errors });
+      }
+      console.error("Failed to link receipt:", error);
+      res.status(500).json({ message: "Failed to link receipt" });
+    }
+  });
+
+  app.post("/api/receipts/:id/unlink", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.userId !== userId) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      res.json(await unlinkReceipt(receipt));
+    } catch (error) {
+      console.error("Failed to unlink receipt:", error);
+      res.status(500).json({ message: "Failed to unlink receipt" });
+    }
+  });
+
+  // Replace a receipt's line items with the ones edited in the Expenses tab
+  app.put("/api/receipts/:id/items", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.userId !== userId) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const { items } = z.object({ items: z.array(receiptLineItemSchema) }).parse(req.body);
+      const updated = await storage.updateReceipt(receipt.id, {
+        extractedData: { ...(receipt.extractedData as Record<string, any> || {}), items }
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid line items", errors: error.errors });
+      }
+      console.error("Failed to update receipt line items:", error);
+      res.status(500).json({ message: "Failed to update receipt line items" });
+    }
+  });
+
+  // Save the line items and turn the receipt into one expense per line-item category
+  app.post("/api/receipts/:id/split", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.userId !== userId) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const { items } = z.object({ items: z.array(receiptLineItemSchema).min(1) }).parse(req.body);
+      const split = await splitReceiptByCategory(userId, receipt, items);
+      if (!split) {
+        return res.status(400).json({ message: "Receipt has no date; review it before splitting" });
+      }
+      res.json(split);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid line items", errors: error.errors });
+      }
+      console.error("Failed to split receipt:", error);
+      res.status(500).json({ message: "Failed to split receipt" });
+    }
+  });
+
+  // Schedule routes
+  app.get("/api/schedule", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const entries = await storage.getScheduleEntries(userId);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch schedule entries" });
+    }
+  });
+
+  // Manual schedule entries and edits. With `recalculate`, the day is routed again through the distance provider.
+  app.post("/api/schedule", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const { recalculate, ...body } = req.body;
+      if (body.vehicleId) {
+        const vehicle = await storage.getVehicle(body.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+
+      const validatedData = insertScheduleEntrySchema.parse({
+        ...body,
+        date: new Date(body.date),
+        importBatchId: null,
+        userId
+      });
+      const entry = await storage.createScheduleEntry(validatedData);
+      res.json(recalculate ? await recalculateScheduleEntry(userId, entry) : entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule entry", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create schedule entry" });
+    }
+  });
+
+  app.patch("/api/schedule/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingEntry = await storage.getScheduleEntry(req.params.id);
+      if (!existingEntry || existingEntry.userId !== userId) {
+        return res.status(404).json({ message: "Schedule entry not found" });
+      }
+
+      const { id: _id, userId: _userId, importBatchId: _importBatchId, recalculate, ...body } = req.body;
+      if (body.vehicleId) {
+        const vehicle = await storage.getVehicle(body.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(400).json({ message: "Vehicle not found" });
+        }
+      }
+      if (body.date) body.date = new Date(body.date);
+
+      const updates = insertScheduleEntrySchema.partial().parse(body);
+      const entry = await storage.updateScheduleEntry(existingEntry.id, updates);
+      if (!entry) {
+        return res.status(404).json({ message: "Schedule entry not found" });
+      }
+      res.json(recalculate ? await recalculateScheduleEntry(userId, entry) : entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid schedule entry", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update schedule entry" });
+    }
+  });
+
+  app.post("/api/schedule/:id/recalculate", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const entry = await storage.getScheduleEntry(req.params.id);
+      if (!entry || entry.userId !== userId) {
+        return res.status(404).json({ message: "Schedule entry not found" });
+      }
+      res.json(await recalculateScheduleEntry(userId, entry));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to recalculate schedule entry" });
+    }
+  });
+
+  app.delete("/api/schedule/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const entry = await storage.getScheduleEntry(req.params.id);
+      if (!entry || entry.userId !== userId) {
+        return res.status(404).json({ message: "Schedule entry not found" });
+      }
+      await storage.deleteScheduleEntry(entry.id);
+      res.json({ message: "Schedule entry deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete schedule entry" });
+    }
+  });
+
+  app.post("/api/schedule/import", isAuthenticated, uploadSchedule.single('schedule'), async (req: MulterRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+
+      const userId = getCurrentUserId(req);
+      const defaultRange = getDefaultIcsRange();
+      const icsRange: IcsDateRange = {
+        start: req.body.rangeStart ? new Date(`${req.body.rangeStart}T00:00:00Z`) : defaultRange.start,
+        end: req.body.rangeEnd ? new Date(`${req.body.rangeEnd}T00:00:00Z`) : defaultRange.end
+      };
+      if (isNaN(icsRange.start.getTime()) || isNaN(icsRange.end.getTime()) || icsRange.start > icsRange.end) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const parsedData = parseScheduleFile(req.file.path, req.file.originalname, icsRange);
+      const headerMapping = detectHeaders(parsedData);
+      const headers = getRowHeaders(parsedData);
+      const columnMapping = mappingFromHeaders(headerMapping);
+      // Street, city, state and zip in separate columns are joined into one address
+      const addressColumns = detectAddressColumns(headers);
+      if (addressColumns) {
+        columnMapping.startAddress = { columns: addressColumns };
+      }
+      
+      // Clean up uploaded file
+      fs.unlinkSync(req.file.path);
+      
+      res.json({
+        data: parsedData,
+        headers,
+        headerMapping,
+        columnMapping,
+        // A saved template for this layout replaces the detected mapping
+        template: await findImportTemplate(userId, headers) ?? null,
+        totalRows: parsedData.length,
+        // The range a calendar file was read for, as YYYY-MM-DD
+        dateRange: path.extname(req.file.originalname).toLowerCase() === '.ics' ? {
+          start: icsRange.start.toISOString().slice(0, 10),
+          end: icsRange.end.toISOString().slice(0, 10)
+        } : null
+      });
+    } catch (error) {
+      console.error("Schedule import error:", error);
+      // Clean up uploaded file if it exists
+      if (req.file) {
+        try {
+          fs.unlinkSync(req.file.path);
+        } catch (cleanup) {
+          console.error("Failed to cleanup file:", cleanup);
+        }
+      }
+      res.status(500).json({ message: `Failed to parse schedule file: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  app.post("/api/schedule/process", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const plan = await planSchedule(userId, req.body);
+      // Report what would happen without creating entries, processed files or error logs
+      if (req.body.dryRun) {
+        return res.json(await previewSchedulePlan(userId, plan, { routeFreeLegs: true }));
+      }
+      await assertPlanWithinBudget(userId, plan);
+      const batchPlan = await startImportBatch(userId, plan);
+      let summary;
+      try {
+        summary = await runSchedulePlan(userId, batchPlan);
+      } catch (error) {
+        await revertImportBatch(userId, batchPlan.importBatchId!);
+        throw error;
+      }
+
+      // Entries have already been saved to database during processing
+
+      // Without a job there is nothing to resume a paused run, so the partial import is undone.
+      // Routes fetched so far stay cached, so running the import again doesn't pay for them twice.
+      if (summary.paused) {
+        await revertImportBatch(userId, batchPlan.importBatchId!);
+        return res.status(429).json({
+          message: `${summary.pauseReason} Nothing was imported.`,
+          entriesProcessed: 0,
+          apiCallsMade: summary.apiCallsMade,
+          cacheHits: summary.cacheHits
+        });
+      }
+
+      return res.json({
+        message: "Schedule data processed successfully",
+        entriesProcessed: summary.entriesProcessed,
+        newDatesProcessed: summary.newDatesProcessed,
+        apiCallsMade: summary.apiCallsMade,
+        cacheHits: summary.cacheHits,
+        skippedDuplicates: summary.skippedDuplicates
+      });
+    } catch (error: any) {
+      if (error instanceof ScheduleRequestError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Schedule processing error:", error);
+      res.status(500).json({ message: `Failed to process schedule: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  // Start, end and stops of a route to optimize, with the provider that routes it; an error message when
+  // the provider or the default start is not configured
+  const resolveOptimizeRequest = async (userId: string, body: unknown) => {
+    const route = routeOptimizeSchema.parse(body);
+    const [settings, userPlaces] = await Promise.all([storage.getUserSettings(userId), storage.getPlaces(userId)]);
+    let provider;
+    try {
+      provider = createDistanceProvider(settings);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Distance provider not configured' };
+    }
+
+    const { startAddress, endAddress } = getDefaultAddresses(settings, userPlaces);
+    const start = route.start || startAddress;
+    const end = route.end || endAddress || start;
+    if (!start || !end) {
+      return { error: "Default start address not configured in settings" };
+    }
+
+    const toLocation = (text: string): RouteLocation => resolvePlaceLocation(userPlaces, text);
+    const locations = [toLocation(start), toLocation(end), route.stops.map(toLocation)] as const;
+    return { route, provider, locations, cacheTtlDays: getRouteCacheTtlDays(settings) };
+  };
+
+  // How many billed routing calls optimizing a day's stops would make
+  app.post("/api/routes/optimize/estimate", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const request = await resolveOptimizeRequest(userId, req.body);
+      if ("error" in request) {
+        return res.status(400).json({ message: request.error });
+      }
+      const { provider, locations, cacheTtlDays } = request;
+      res.json(await estimateRouteOptimization(...locations, provider, userId, cacheTtlDays));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid route", errors: error.errors });
+      }
+      console.error("Route optimization estimate failed:", error);
+      res.status(500).json({ message: "Failed to estimate route optimization" });
+    }
+  });
+
+  // Suggest the shortest order to visit a day's stops. Billed calls must be confirmed from the estimate first.
+  app.post("/api/routes/optimize", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const request = await resolveOptimizeRequest(userId, req.body);
+      if ("error" in request) {
+        return res.status(400).json({ message: request.error });
+      }
+      const { route, provider, locations, cacheTtlDays } = request;
+
+      const estimate = await estimateRouteOptimization(...locations, provider, userId, cacheTtlDays);
+      if (!estimate.withinBudget) {
+        return res.status(429).json({
+          message: `Optimizing this route needs about ${estimate.uncachedPairs} API calls but only ${estimate.remainingCalls} fit in this month's budget (${describeBudgetUsage(estimate.budget)})`,
+          estimate
+        });
+      }
+      if (estimate.estimatedCost > 0 && (route.confirmedApiCalls ?? 0) < estimate.uncachedPairs) {
+        return res.status(409).json({
+          message: `Optimizing this route needs about ${estimate.uncachedPairs} billed API calls; confirm the estimate first`,
+          estimate
+        });
+      }
+
+      res.json(await optimizeRoute(...locations, provider, userId, cacheTtlDays));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid route", errors: error.errors });
+      }
+      if (error instanceof ApiBudgetExceededError) {
+        return res.status(429).json({ message: error.message });
+      }
+      console.error("Route optimization failed:", error);
+      res.status(500).json({ message: `Failed to optimize route: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  // How many routing calls an import would make, checked against the monthly budget
+  app.post("/api/schedule/estimate", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const plan = await planSchedule(userId, req.body);
+      res.json(await estimateSchedulePlan(userId, plan));
+    } catch (error) {
+      if (error instanceof ScheduleRequestError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Schedule estimate error:", error);
+      res.status(500).json({ message: "Failed to estimate schedule import" });
+    }
+  });
+
+  // Schedule processing jobs
+  app.post("/api/schedule/jobs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const schedulePlan = await planSchedule(userId, req.body);
+      await assertPlanWithinBudget(userId, schedulePlan);
+      const plan = await startImportBatch(userId, schedulePlan);
+      const job = await storage.createJob({
+        userId,
+        type: "schedule_process",
+        status: "queued",
+        payload: plan,
+        totalCount: plan.days.length,
+        processedCount: 0,
+        results: []
       });
-
-      const receipt = await storage.createReceipt(receiptData);
-      
-      // Keep the uploaded file for serving images (don't delete it)
-      // fs.unlinkSync(req.file.path); // Commented out to preserve images
-      
-      res.json(receipt);
+      await storage.updateImportBatch(plan.importBatchId!, { jobId: job.id });
+      enqueueJob(job.id);
+      res.status(202).json(job);
     } catch (error) {
-      res.status(500).json({ message: "Failed to process receipt" });
+      if (error instanceof ScheduleRequestError) {
+        return res.status(error.status).json(error.body);
+      }
+      console.error("Failed to create schedule job:", error);
+      res.status(500).json({ message: "Failed to create schedule job" });
     }
   });
 
-  // Schedule routes
-  app.get("/api/schedule", isAuthenticated, async (req, res) => {
+  app.get("/api/schedule/jobs", isAuthenticated, async (req, res) => {
     try {
       const userId = getCurrentUserId(req);
-      const entries = await storage.getScheduleEntries(userId);
-      res.json(entries);
+      const jobs = await storage.getJobs(userId);
+      res.json(jobs);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch schedule entries" });
+      res.status(500).json({ message: "Failed to fetch schedule jobs" });
     }
   });
 
-  app.post("/api/schedule/import", isAuthenticated, uploadSchedule.single('schedule'), async (req: MulterRequest, res) => {
+  app.get("/api/schedule/jobs/:id", isAuthenticated, async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No file provided" });
+      const userId = getCurrentUserId(req);
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
-
-      const parsedData = parseScheduleFile(req.file.path, req.file.originalname);
-      const headerMapping = detectHeaders(parsedData);
-      
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
-      
-      res.json({
-        data: parsedData,
-        headerMapping,
-        totalRows: parsedData.length
-      });
+      res.json(job);
     } catch (error) {
-      console.error("Schedule import error:", error);
-      // Clean up uploaded file if it exists
-      if (req.file) {
-        try {
-          fs.unlinkSync(req.file.path);
-        } catch (cleanup) {
-          console.error("Failed to cleanup file:", cleanup);
-        }
-      }
-      res.status(500).json({ message: `Failed to parse schedule file: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      res.status(500).json({ message: "Failed to fetch schedule job" });
     }
   });
 
-  app.post("/api/schedule/process", isAuthenticated, async (req, res) => {
+  // Server-Sent Events stream of job progress
+  app.get("/api/schedule/jobs/:id/events", isAuthenticated, async (req, res) => {
     try {
-      const { data, headerMapping, mileageRate, fileHash, fileName, forceReprocess } = req.body;
       const userId = getCurrentUserId(req);
-      
-      const userSettings = await storage.getUserSettings(userId);
-      const apiKey = userSettings?.googleApiKey;
-      const defaultStartAddress = userSettings?.defaultStartAddress;
-      const defaultEndAddress = userSettings?.defaultEndAddress || defaultStartAddress;
-      
-      if (!apiKey) {
-        return res.status(400).json({ message: "Google API key not configured" });
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
 
-      if (!defaultStartAddress) {
-        return res.status(400).json({ message: "Default start address not configured in settings" });
-      }
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
 
-      // Check for duplicate file processing using hash (unless forcing reprocess)
-      if (fileHash && !forceReprocess) {
-        const existingFileProcess = await storage.getProcessedFileHash(userId, fileHash);
-        if (existingFileProcess) {
-          return res.status(409).json({ 
-            message: "This file has already been processed",
-            processedAt: existingFileProcess.processedAt,
-            recordCount: existingFileProcess.recordCount
-          });
+      const sendJob = (current: typeof job) => {
+        res.write(`event: progress\ndata: ${JSON.stringify(current)}\n\n`);
+        if (isTerminalStatus(current.status)) {
+          unsubscribe();
+          res.end();
         }
-      }
+      };
 
-      // Check for existing data in date ranges to avoid unnecessary API calls
-      const dateRanges = new Map();
-      for (const row of data) {
-        const date = new Date(row[headerMapping.date]);
-        if (!isNaN(date.getTime())) {
-          const dateStr = date.toISOString().split('T')[0];
-          if (!dateRanges.has(dateStr)) {
-            dateRanges.set(dateStr, []);
-          }
-          dateRanges.get(dateStr).push(row);
-        }
+      const unsubscribe = subscribeToJob(job.id, sendJob);
+      req.on('close', unsubscribe);
+      sendJob(job);
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream schedule job" });
       }
+    }
+  });
 
-      // Filter out dates that already have complete data
-      const existingSchedule = await storage.getScheduleEntries(userId);
-      const existingDates = new Set(existingSchedule.map(entry => 
-        new Date(entry.date).toISOString().split('T')[0]
-      ));
-      
-      let newDataCount = 0;
-      const filteredDateRanges = new Map();
-      for (const [dateStr, entries] of Array.from(dateRanges)) {
-        if (!existingDates.has(dateStr)) {
-          filteredDateRanges.set(dateStr, entries);
-          newDataCount += entries.length;
-        }
+  app.post("/api/schedule/jobs/:id/cancel", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingJob = await storage.getJob(req.params.id);
+      if (!existingJob || existingJob.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
+      const job = await cancelJob(existingJob.id);
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel schedule job" });
+    }
+  });
 
-      if (filteredDateRanges.size === 0 && !forceReprocess) {
-        return res.status(409).json({
-          message: "All dates in this file have already been processed",
-          skippedCount: data.length
-        });
-      }
-      
-      // If forcing reprocess, use all data regardless of existing entries
-      if (forceReprocess) {
-        filteredDateRanges.clear();
-        newDataCount = 0;
-        for (const [dateStr, entries] of Array.from(dateRanges)) {
-          filteredDateRanges.set(dateStr, entries);
-          newDataCount += entries.length;
-        }
+  app.post("/api/schedule/jobs/:id/resume", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingJob = await storage.getJob(req.params.id);
+      if (!existingJob || existingJob.userId !== userId) {
+        return res.status(404).json({ message: "Job not found" });
       }
-
-      // Use filtered data to build daily routes, only processing new dates
-      const entriesByDate = new Map();
-      for (const [dateStr, entries] of Array.from(filteredDateRanges)) {
-        for (const row of entries) {
-          const rawDate = row[headerMapping.date];
-          // Handle Excel date format (numeric days since 1900-01-01) 
-          let parsedDate: Date;
-          if (typeof rawDate === 'number') {
-            // Excel dates: Simple conversion using standard JavaScript approach
-            // Excel epoch is January 1, 1900 (serial number 1)
-            // But account for Excel's leap year bug by using Unix epoch instead
-            const excelEpochDiff = 25569; // Days between 1900-01-01 and 1970-01-01
-            const daysFromUnixEpoch = rawDate - excelEpochDiff + 1; // Add 1 day to correct offset
-            parsedDate = new Date(daysFromUnixEpoch * 24 * 60 * 60 * 1000);
-          } else {
-            parsedDate = new Date(rawDate);
-          }
-          const date = parsedDate.toDateString();
-          if (!entriesByDate.has(date)) {
-            entriesByDate.set(date, []);
-          }
-          entriesByDate.get(date).push(row);
-        }
+      if (existingJob.status !== "paused") {
+        return res.status(409).json({ message: "Only paused jobs can be resumed" });
       }
+      const job = await resumeJob(existingJob.id);
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resume schedule job" });
+    }
+  });
 
-      const results = [];
-      let previousHotelAddress = null;
-      
-      // Clear existing schedule entries before adding new ones (optional - or keep to accumulate)
-      // await storage.clearScheduleEntries(userId); // Uncomment to replace vs accumulate
-      
-      // Process each day to build daily routes
-      for (const [dateString, dayEntries] of Array.from(entriesByDate)) {
-        try {
-          const date = new Date(dateString);
-          
-          // Build the route for this day: start -> locations -> end
-          const locations = dayEntries.map((row: any) => ({
-            address: row[headerMapping.startAddress],
-            notes: row[headerMapping.notes] || '',
-            originalData: JSON.parse(JSON.stringify(row))
-          }));
-
-          // Check if this is an off day (skip all calculations)
-          const isOffDay = locations.some((location: any) => detectOffDay(location.notes));
-          if (isOffDay) {
-            const offDayEntry = await storage.createScheduleEntry({
-              userId,
-              date,
-              startAddress: previousHotelAddress || defaultStartAddress,
-              endAddress: defaultEndAddress,
-              notes: `Off day - No travel calculated (${locations.map((l: any) => l.notes).filter((n: any) => n).join(', ')})`,
-              calculatedDistance: 0,
-              calculatedAmount: 0,
-              isHotelStay: false,
-              processingStatus: 'calculated',
-              originalData: dayEntries
-            });
-            results.push(offDayEntry);
-            continue; // Skip to next day
-          }
+  // Import batches: one per processed schedule file
+  app.get("/api/schedule/imports", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      res.json(await getImportBatchSummaries(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch schedule imports" });
+    }
+  });
 
-          let dayStartAddress = previousHotelAddress || defaultStartAddress;
-          let dayEndAddress = defaultEndAddress;
-          let totalDayDistance = 0;
-          let hasHotelStay = false;
-          let hotelAddress = null;
-          let skippedRoutes = [];
-
-          // Check for hotel stays
-          for (const location of locations) {
-            if (detectHotelStay(location.notes)) {
-              hasHotelStay = true;
-              hotelAddress = location.address;
-              dayEndAddress = location.address; // End at hotel
-              break;
-            }
-          }
+  // Revert an import: delete the entries it created and restore the ones it combined into
+  app.delete("/api/schedule/imports/:batchId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const result = await revertImportBatch(userId, req.params.batchId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ImportRevertError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Failed to revert schedule import:", error);
+      res.status(500).json({ message: "Failed to revert schedule import" });
+    }
+  });
 
-          // Calculate total route: start -> all locations -> end
-          if (locations.length > 0) {
-            let currentLocation = dayStartAddress;
-            
-            // Calculate route to each location
-            for (const location of locations) {
-              if (currentLocation !== location.address && location.address) {
-                const routeInfo = await calculateRoute(currentLocation, location.address, apiKey, userId);
-                totalDayDistance += routeInfo.distance;
-                if (routeInfo.skipped) {
-                  skippedRoutes.push(`${currentLocation} → ${location.address}: ${routeInfo.reason}`);
-                }
-              }
-              currentLocation = location.address || currentLocation;
-            }
-            
-            // Calculate route back to end address (if different from last location)
-            if (currentLocation !== dayEndAddress && !hasHotelStay && dayEndAddress) {
-              const routeInfo = await calculateRoute(currentLocation, dayEndAddress, apiKey, userId);
-              totalDayDistance += routeInfo.distance;
-              if (routeInfo.skipped) {
-                skippedRoutes.push(`${currentLocation} → ${dayEndAddress}: ${routeInfo.reason}`);
-              }
-            }
-          }
+  // Saved column mappings, matched to later files by their header signature
+  app.get("/api/schedule/templates", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      res.json(await storage.getScheduleImportTemplates(userId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import templates" });
+    }
+  });
 
-          const calculatedAmount = totalDayDistance * (mileageRate || 0.655);
-          
-          // Check if entry for this date already exists
-          const existingEntries = await storage.getScheduleEntries(userId);
-          const existingEntry = existingEntries.find(entry => 
-            new Date(entry.date).toISOString().split('T')[0] === date.toISOString().split('T')[0]
-          );
-          
-          let entry;
-          if (existingEntry) {
-            // Update existing entry by combining data
-            entry = await storage.updateScheduleEntry(existingEntry.id, {
-              calculatedDistance: (existingEntry.calculatedDistance || 0) + totalDayDistance,
-              calculatedAmount: (existingEntry.calculatedAmount || 0) + calculatedAmount,
-              notes: `${existingEntry.notes} | ${locations.map((l: any) => l.address).join(' → ')} ${hasHotelStay ? '(Hotel stay)' : ''}`,
-              isHotelStay: existingEntry.isHotelStay || hasHotelStay,
-              processingStatus: 'calculated',
-              originalData: [...(existingEntry.originalData as any[] || []), ...dayEntries]
-            });
-          } else {
-            // Create new entry
-            entry = await storage.createScheduleEntry({
-              userId,
-              date,
-              startAddress: dayStartAddress,
-              endAddress: dayEndAddress,
-              notes: `Daily route: ${locations.map((l: any) => l.address).join(' → ')} ${hasHotelStay ? '(Hotel stay)' : ''}${skippedRoutes.length > 0 ? ` | Skipped: ${skippedRoutes.join(', ')}` : ''}`,
-              calculatedDistance: totalDayDistance,
-              calculatedAmount,
-              isHotelStay: hasHotelStay,
-              processingStatus: 'calculated',
-              originalData: dayEntries
-            });
-          }
-          
-          results.push(entry);
-          
-          // Set hotel as next day's starting point
-          if (hasHotelStay) {
-            previousHotelAddress = hotelAddress;
-          } else {
-            previousHotelAddress = null; // Reset to default start address
-          }
-        } catch (error) {
-          // Create error entry for the whole day
-          const errorEntry = await storage.createScheduleEntry({
-            userId,
-            date: new Date(dateString),
-            startAddress: previousHotelAddress || defaultStartAddress,
-            endAddress: defaultEndAddress,
-            notes: `Error processing daily route for ${dateString}`,
-            processingStatus: 'error',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            originalData: dayEntries as any
-          });
-          
-          results.push(errorEntry);
-          
-          // Log error
-          await storage.createErrorLog({
-            userId,
-            errorType: 'daily_route_calculation',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            context: { date: dateString, entriesCount: dayEntries.length },
-            timestamp: new Date()
-          });
-        }
+  app.post("/api/schedule/templates", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const headers = z.array(z.string()).min(1).parse(req.body.headers);
+      const validatedData = insertScheduleImportTemplateSchema.parse({
+        name: req.body.name,
+        headers,
+        headerSignature: getHeaderSignature(headers),
+        mapping: scheduleColumnMappingSchema.parse(req.body.mapping),
+        userId
+      });
+      res.json(await storage.createScheduleImportTemplate(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import template", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to create import template" });
+    }
+  });
 
-      // Record that this file has been processed
-      if (fileHash && fileName) {
-        await storage.createProcessedFile({
-          userId,
-          fileHash,
-          fileName,
-          processedAt: new Date(),
-          recordCount: newDataCount
-        });
+  app.patch("/api/schedule/templates/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingTemplate = await storage.getScheduleImportTemplate(req.params.id);
+      if (!existingTemplate || existingTemplate.userId !== userId) {
+        return res.status(404).json({ message: "Import template not found" });
       }
 
-      // Entries have already been saved to database during processing
+      const updates: Record<string, unknown> = {};
+      if (req.body.name !== undefined) updates.name = req.body.name;
+      if (req.body.mapping !== undefined) updates.mapping = scheduleColumnMappingSchema.parse(req.body.mapping);
+      if (req.body.headers !== undefined) {
+        const headers = z.array(z.string()).min(1).parse(req.body.headers);
+        updates.headers = headers;
+        updates.headerSignature = getHeaderSignature(headers);
+      }
+      const template = await storage.updateScheduleImportTemplate(
+        existingTemplate.id,
+        insertScheduleImportTemplateSchema.partial().parse(updates)
+      );
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import template", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update import template" });
+    }
+  });
 
-      return res.json({
-        message: "Schedule data processed successfully",
-        entriesProcessed: results.length,
-        newDatesProcessed: filteredDateRanges.size,
-        apiCallsMade: Array.from(entriesByDate.values()).reduce((sum, dayEntries) => sum + dayEntries.length, 0),
-        skippedDuplicates: data.length - newDataCount
-      });
-    } catch (error: any) {
-      console.error("Schedule processing error:", error);
-      res.status(500).json({ message: `Failed to process schedule: ${error instanceof Error ? error.message : 'Unknown error'}` });
+  app.delete("/api/schedule/templates/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingTemplate = await storage.getScheduleImportTemplate(req.params.id);
+      if (!existingTemplate || existingTemplate.userId !== userId) {
+        return res.status(404).json({ message: "Import template not found" });
+      }
+      await storage.deleteScheduleImportTemplate(existingTemplate.id);
+      res.json({ message: "Import template deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import template" });
     }
   });
 
@@ -951,10 +1391,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const stats = await storage.getMonthlyApiStats(userId, month);
       const usage = await storage.getApiUsage(userId, month);
+      const budget = await getApiBudgetStatus(userId, await storage.getUserSettings(userId), month);
       
       res.json({
         ...stats,
         usage,
+        budget,
         month
       });
     } catch (error) {
@@ -967,8 +1409,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getCurrentUserId(req);
       const scheduleEntries = await storage.getScheduleEntries(userId);
+      const resolveRate = await createMileageRateResolver(userId);
       
       const totalDistance = scheduleEntries.reduce((sum, entry) => sum + (entry.calculatedDistance || 0), 0);
+      const deductibleDistance = scheduleEntries.reduce((sum, entry) => sum + getDeductibleMiles(entry), 0);
       const totalAmount = scheduleEntries.reduce((sum, entry) => sum + (entry.calculatedAmount || 0), 0);
       const tripDays = scheduleEntries.length;
       const avgDailyDistance = tripDays > 0 ? totalDistance / tripDays : 0;
@@ -987,9 +1431,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         totalDistance,
+        deductibleDistance,
+        commuteDistance: totalDistance - deductibleDistance,
         totalAmount,
         tripDays,
         avgDailyDistance,
+        currentMileageRate: resolveRate(new Date()).rate,
         monthlyTrends: Object.entries(monthlyData).map(([month, data]) => ({
           month,
           ...data,
@@ -1042,12 +1489,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const expenses = await storage.getExpenses(userId);
       const receipts = await storage.getReceipts(userId);
       const schedule = await storage.getScheduleEntries(userId);
+      const vehicles = await storage.getVehicles(userId);
+      const places = await storage.getPlaces(userId);
       
       const exportData = {
         trips,
         expenses,
         receipts,
         schedule,
+        vehicles,
+        places,
         exportDate: new Date()
       };
       
@@ -1093,16 +1544,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getCurrentUserId(req);
       const scheduleEntries = await storage.getScheduleEntries(userId);
+      const vehicles = await storage.getVehicles(userId);
+      const resolveRate = await createMileageRateResolver(userId);
       
       // Format data for IRS compliance
       const irsData = scheduleEntries.map((entry: any) => {
+        const resolvedRate = resolveRate(entry.date, entry.purpose);
+        // Report the rate the entry was actually calculated with
+        const rate = entry.mileageRate ?? resolvedRate.rate;
+        const deductibleMiles = getDeductibleMiles(entry);
+        const milesFor = (purpose: string) => (resolvedRate.purpose === purpose ? deductibleMiles : 0).toFixed(2);
         return {
           'Date': new Date(entry.date).toLocaleDateString('en-US'),
+          'Vehicle': getVehicleName(vehicles, entry.vehicleId),
           'Start Location': entry.startAddress || '',
           'End Location': entry.endAddress || '',
-          'Miles': (entry.calculatedDistance || 0).toFixed(2),
-          'Mileage Rate': '$0.655',
-          'Mileage Deduction': `$${((entry.calculatedDistance || 0) * 0.655).toFixed(2)}`,
+          'Purpose': entry.purpose || 'business',
+          'Total Miles': (entry.calculatedDistance || 0).toFixed(2),
+          'Commute Miles': ((entry.calculatedDistance || 0) - deductibleMiles).toFixed(2),
+          'Deductible Miles': deductibleMiles.toFixed(2),
+          'Business Miles': milesFor('business'),
+          'Medical Miles': milesFor('medical'),
+          'Moving Miles': milesFor('moving'),
+          'Charity Miles': milesFor('charity'),
+          'Personal Miles': milesFor('personal'),
+          'Mileage Rate': `$${rate.toFixed(3)}`,
+          'Rate Source': rate === resolvedRate.rate ? describeMileageRate(resolvedRate) : 'Rate at time of processing',
+          'Mileage Deduction': `$${(deductibleMiles * rate).toFixed(2)}`,
           'Hotel Stay': entry.isHotelStay ? 'Yes' : 'No',
           'Processing Status': entry.processingStatus || 'Pending',
           'Notes': entry.notes || '',
@@ -1110,26 +1578,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
 
-      // Create workbook and worksheet
+      // Create workbook with one sheet per vehicle
       const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(irsData);
       
       // Set column widths for better readability
       const colWidths = [
         { wch: 12 }, // Date
+        { wch: 18 }, // Vehicle
         { wch: 25 }, // Start Location
         { wch: 25 }, // End Location
-        { wch: 12 }, // Miles
+        { wch: 12 }, // Purpose
+        { wch: 12 }, // Total Miles
+        { wch: 14 }, // Commute Miles
+        { wch: 16 }, // Deductible Miles
+        { wch: 12 }, // Business Miles
+        { wch: 12 }, // Medical Miles
+        { wch: 12 }, // Moving Miles
+        { wch: 12 }, // Charity Miles
+        { wch: 12 }, // Personal Miles
         { wch: 12 }, // Mileage Rate
+        { wch: 28 }, // Rate Source
         { wch: 15 }, // Mileage Deduction
         { wch: 12 }, // Hotel Stay
         { wch: 18 }, // Processing Status
         { wch: 30 }, // Notes
         { wch: 20 }  // Error Message
       ];
-      worksheet['!cols'] = colWidths;
-
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'Schedule Report');
+      appendSheetsByVehicle(workbook, irsData, colWidths);
+      XLSX.utils.book_append_sheet(workbook, buildVehicleSummarySheet(await getVehicleUsageSummaries(userId)), 'Vehicle Summary');
       
       // Generate Excel file
       const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
@@ -1152,6 +1628,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getCurrentUserId(req);
       const trips = await storage.getTrips(userId);
       const expenses = await storage.getExpenses(userId);
+      const vehicles = await storage.getVehicles(userId);
+      const userPlaces = await storage.getPlaces(userId);
+      const resolveRate = await createMileageRateResolver(userId);
+      const findPlace = (placeId: string | null) => userPlaces.find(place => place.id === placeId);
       
       // Create expense lookup by trip ID
       const expensesByTrip = expenses.reduce((acc: Record<string, any[]>, expense: any) => {
@@ -1164,55 +1644,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Format data for IRS compliance
       const irsData = trips.map((trip: any) => {
-        const startLocation = trip.startLocation as any;
-        const endLocation = trip.endLocation as any;
         const tripExpenses = expensesByTrip[trip.id] || [];
-        const totalExpenses = tripExpenses.reduce((sum: number, exp: any) => sum + exp.amount, 0);
+        const resolvedRate = resolveRate(trip.startTime, trip.purpose);
+        // Personal trips deduct nothing; meals count at 50%, so only the meal part of a split receipt is limited
+        const totalExpenses = resolvedRate.purpose === 'personal'
+          ? 0
+          : tripExpenses.reduce((sum: number, exp: any) => sum + getDeductibleAmount(exp), 0);
+        const milesFor = (purpose: string) => (resolvedRate.purpose === purpose ? trip.distance || 0 : 0).toFixed(2);
         
         return {
           'Date': new Date(trip.startTime).toLocaleDateString('en-US'),
           'Start Time': new Date(trip.startTime).toLocaleTimeString('en-US'),
           'End Time': trip.endTime ? new Date(trip.endTime).toLocaleTimeString('en-US') : 'In Progress',
-          'Start Location': startLocation?.address || `${startLocation?.lat}, ${startLocation?.lng}`,
-          'End Location': endLocation?.address || `${endLocation?.lat}, ${endLocation?.lng}`,
+          'Vehicle': getVehicleName(vehicles, trip.vehicleId),
+          'Start Location': describeLocation(trip.startLocation, findPlace(trip.startPlaceId)),
+          'End Location': describeLocation(trip.endLocation, findPlace(trip.endPlaceId)),
           'Business Purpose': trip.purpose || 'Business',
           'Total Miles': (trip.distance || 0).toFixed(2),
-          'Business Miles': (trip.distance || 0).toFixed(2),
-          'Personal Miles': '0.00',
-          'Mileage Rate': '$0.655',
-          'Mileage Deduction': `$${((trip.distance || 0) * 0.655).toFixed(2)}`,
+          'Business Miles': milesFor('business'),
+          'Medical Miles': milesFor('medical'),
+          'Moving Miles': milesFor('moving'),
+          'Charity Miles': milesFor('charity'),
+          'Personal Miles': milesFor('personal'),
+          'Mileage Rate': `$${resolvedRate.rate.toFixed(3)}`,
+          'Rate Source': describeMileageRate(resolvedRate),
+          'Mileage Deduction': `$${((trip.distance || 0) * resolvedRate.rate).toFixed(2)}`,
           'Additional Expenses': `$${totalExpenses.toFixed(2)}`,
-          'Total Deduction': `$${((trip.distance || 0) * 0.655 + totalExpenses).toFixed(2)}`,
+          'Total Deduction': `$${((trip.distance || 0) * resolvedRate.rate + totalExpenses).toFixed(2)}`,
           'Notes': trip.notes || '',
           'Auto Detected': trip.autoDetected ? 'Yes' : 'No'
         };
       });
 
-      // Create workbook and worksheet
+      // Create workbook with one sheet per vehicle
       const workbook = XLSX.utils.book_new();
-      const worksheet = XLSX.utils.json_to_sheet(irsData);
       
       // Set column widths for better readability
       const colWidths = [
         { wch: 12 }, // Date
         { wch: 12 }, // Start Time
         { wch: 12 }, // End Time
+        { wch: 18 }, // Vehicle
         { wch: 25 }, // Start Location
         { wch: 25 }, // End Location
         { wch: 15 }, // Business Purpose
         { wch: 12 }, // Total Miles
         { wch: 12 }, // Business Miles
+        { wch: 12 }, // Medical Miles
+        { wch: 12 }, // Moving Miles
+        { wch: 12 }, // Charity Miles
         { wch: 12 }, // Personal Miles
         { wch: 12 }, // Mileage Rate
+        { wch: 28 }, // Rate Source
         { wch: 15 }, // Mileage Deduction
         { wch: 18 }, // Additional Expenses
         { wch: 15 }, // Total Deduction
         { wch: 30 }, // Notes
         { wch: 12 }  // Auto Detected
       ];
-      worksheet['!cols'] = colWidths;
-
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'IRS Mileage Report');
+      appendSheetsByVehicle(workbook, irsData, colWidths);
+      XLSX.utils.book_append_sheet(workbook, buildVehicleSummarySheet(await getVehicleUsageSummaries(userId)), 'Vehicle Summary');
+
+      // Expenses with a linked receipt are substantiated
+      if (expenses.length > 0) {
+        const expenseSheet = XLSX.utils.json_to_sheet(expenses.map(expense => ({
+          'Date': new Date(expense.date).toLocaleDateString('en-US'),
+          'Category': expense.category,
+          'Merchant': expense.merchant || '',
+          'Amount': `$${expense.amount.toFixed(2)}`,
+          'Deductible': `$${getDeductibleAmount(expense).toFixed(2)}`,
+          'Receipt': expense.receiptId ? 'Yes' : 'No',
+          'Notes': expense.notes || ''
+        })));
+        expenseSheet['!cols'] = [{ wch: 12 }, { wch: 12 }, { wch: 25 }, { wch: 12 }, { wch: 12 }, { wch: 10 }, { wch: 30 }];
+        XLSX.utils.book_append_sheet(workbook, expenseSheet, 'Expenses');
+      }
       
       // Generate Excel file
       const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
@@ -1263,6 +1769,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      await unlinkReceipt(receipt);
       await storage.deleteReceipt(receiptId);
       res.json({ message: "Receipt deleted successfully" });
     } catch (error) {
@@ -1370,7 +1877,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const receiptId = req.params.id;
       const userId = getCurrentUserId(req);
-      const updateData = req.body;
+      // Expense links change through the link endpoints, which update both sides
+      const { expenseId, ...updateData } = req.body;
 
       // Get receipt first to check ownership
       const receipt = await storage.getReceipt(receiptId);
@@ -1402,6 +1910,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getCurrentUserId(req);
       const rateData = insertYearlyRateSchema.parse({
         ...req.body,
+        effectiveDate: parseEffectiveDate(req.body.effectiveDate),
         userId
       });
       const rate = await storage.createYearlyRate(rateData);
@@ -1414,8 +1923,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/yearly-rates/:id", isAuthenticated, async (req, res) => {
     try {
+      const userId = getCurrentUserId(req);
       const { id } = req.params;
-      const updates = req.body;
+      const existingRates = await storage.getYearlyRates(userId);
+      if (!existingRates.some(rate => rate.id === id)) {
+        return res.status(404).json({ message: "Yearly rate not found" });
+      }
+      const { userId: _userId, id: _id, ...updates } = req.body;
+      if ('effectiveDate' in updates) {
+        updates.effectiveDate = parseEffectiveDate(updates.effectiveDate);
+      }
       const rate = await storage.updateYearlyRate(id, updates);
       if (!rate) {
         return res.status(404).json({ message: "Yearly rate not found" });
@@ -1429,7 +1946,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/yearly-rates/:id", isAuthenticated, async (req, res) => {
     try {
+      const userId = getCurrentUserId(req);
       const { id } = req.params;
+      const existingRates = await storage.getYearlyRates(userId);
+      if (!existingRates.some(rate => rate.id === id)) {
+        return res.status(404).json({ message: "Yearly rate not found" });
+      }
       const success = await storage.deleteYearlyRate(id);
       if (!success) {
         return res.status(404).json({ message: "Yearly rate not found" });
@@ -1441,6 +1963,246 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Re-apply current yearly rates to stored schedule entries
+  app.post("/api/yearly-rates/recompute", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const year = req.body?.year ? parseInt(req.body.year) : undefined;
+      const updatedCount = await recomputeScheduleAmounts(userId, year);
+      res.json({ updatedCount });
+    } catch (error) {
+      console.error("Failed to recompute schedule amounts:", error);
+      res.status(500).json({ message: "Failed to recompute schedule amounts" });
+    }
+  });
+
+  // Vehicles routes
+  app.get("/api/vehicles", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const vehicles = await storage.getVehicles(userId);
+      res.json(vehicles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch vehicles" });
+    }
+  });
+
+  app.get("/api/vehicles/usage", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const summaries = await getVehicleUsageSummaries(userId, year);
+      res.json(summaries);
+    } catch (error) {
+      console.error("Failed to compute vehicle usage:", error);
+      res.status(500).json({ message: "Failed to compute vehicle usage" });
+    }
+  });
+
+  app.post("/api/vehicles", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const validatedData = insertVehicleSchema.parse({
+        ...req.body,
+        placedInServiceDate: req.body.placedInServiceDate ? new Date(req.body.placedInServiceDate) : null,
+        userId
+      });
+      const vehicle = await storage.createVehicle(validatedData);
+      res.json(vehicle);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid vehicle data" });
+    }
+  });
+
+  app.patch("/api/vehicles/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingVehicle = await storage.getVehicle(req.params.id);
+      if (!existingVehicle || existingVehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const { userId: _userId, id: _id, createdAt: _createdAt, ...body } = req.body;
+      if ('placedInServiceDate' in body) {
+        body.placedInServiceDate = body.placedInServiceDate ? new Date(body.placedInServiceDate) : null;
+      }
+      const updates = insertVehicleSchema.partial().parse(body);
+      const vehicle = await storage.updateVehicle(req.params.id, updates);
+      res.json(vehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vehicle data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update vehicle" });
+    }
+  });
+
+  app.delete("/api/vehicles/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingVehicle = await storage.getVehicle(req.params.id);
+      if (!existingVehicle || existingVehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      await storage.deleteVehicle(req.params.id);
+
+      const settings = await storage.getUserSettings(userId);
+      if (settings?.defaultVehicleId === req.params.id) {
+        await storage.createOrUpdateSettings({ userId, defaultVehicleId: null });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete vehicle" });
+    }
+  });
+
+  app.get("/api/vehicles/:id/odometer", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const vehicle = await storage.getVehicle(req.params.id);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const readings = await storage.getOdometerReadings(vehicle.id);
+      res.json(readings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch odometer readings" });
+    }
+  });
+
+  // Start/end-of-year odometer for one vehicle; replaces the reading stored for that year
+  app.put("/api/vehicles/:id/odometer/:year", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const vehicle = await storage.getVehicle(req.params.id);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const year = parseInt(req.params.year);
+      if (isNaN(year)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+      const parseReading = (value: unknown) =>
+        value === undefined ? undefined : value === null || value === '' ? null : Number(value);
+      const startOdometer = parseReading(req.body.startOdometer);
+      const endOdometer = parseReading(req.body.endOdometer);
+      if ([startOdometer, endOdometer].some(value => value != null && isNaN(value))) {
+        return res.status(400).json({ message: "Odometer readings must be numbers" });
+      }
+      if (startOdometer != null && endOdometer != null && endOdometer < startOdometer) {
+        return res.status(400).json({ message: "End odometer cannot be lower than start odometer" });
+      }
+      const reading = await storage.saveOdometerReading({ vehicleId: vehicle.id, year, startOdometer, endOdometer });
+      res.json(reading);
+    } catch (error) {
+      console.error("Failed to save odometer reading:", error);
+      res.status(500).json({ message: "Failed to save odometer reading" });
+    }
+  });
+
+  // Match every trip endpoint again after a place changes; endpoints that lost a place's address
+  // get their own address looked up again
+  const refreshTripPlaces = async (userId: string) => {
+    for (const trip of await matchTripsToPlaces(userId, true)) {
+      await fillTripAddresses(userId, trip);
+    }
+  };
+
+  // Places routes
+  app.get("/api/places", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const userPlaces = await storage.getPlaces(userId);
+      res.json(userPlaces);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch places" });
+    }
+  });
+
+  app.post("/api/places", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const validatedData = insertPlaceSchema.parse({ ...req.body, userId });
+      if (!validatedData.address && (validatedData.latitude == null || validatedData.longitude == null)) {
+        return res.status(400).json({ message: "A place needs an address or coordinates" });
+      }
+      // Trips can only be matched to places with coordinates
+      if (validatedData.latitude == null || validatedData.longitude == null) {
+        const coordinates = await geocodePlaceAddress(validatedData.address!, await storage.getUserSettings(userId));
+        if (coordinates) {
+          validatedData.latitude = coordinates.lat;
+          validatedData.longitude = coordinates.lng;
+        }
+      }
+      const place = await storage.createPlace(validatedData);
+      await matchTripsToPlaces(userId);
+      res.json(place);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid place data" });
+    }
+  });
+
+  app.patch("/api/places/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingPlace = await storage.getPlace(req.params.id);
+      if (!existingPlace || existingPlace.userId !== userId) {
+        return res.status(404).json({ message: "Place not found" });
+      }
+      const { userId: _userId, id: _id, createdAt: _createdAt, ...body } = req.body;
+      const updates = insertPlaceSchema.partial().parse(body);
+      const merged = { ...existingPlace, ...updates };
+      if (!merged.address && (merged.latitude == null || merged.longitude == null)) {
+        return res.status(400).json({ message: "A place needs an address or coordinates" });
+      }
+      // A new address without new coordinates is geocoded like a new place; the old coordinates
+      // belong to the old address, so they are cleared when it can't be
+      const addressChanged = updates.address !== undefined && updates.address !== existingPlace.address;
+      if (addressChanged && updates.address && updates.latitude === undefined && updates.longitude === undefined) {
+        const coordinates = await geocodePlaceAddress(updates.address, await storage.getUserSettings(userId));
+        updates.latitude = coordinates?.lat ?? null;
+        updates.longitude = coordinates?.lng ?? null;
+      }
+      const place = await storage.updatePlace(existingPlace.id, updates);
+      // The radius, position, name or address may have changed, so every endpoint is matched again
+      await refreshTripPlaces(userId);
+      res.json(place);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid place data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update place" });
+    }
+  });
+
+  app.delete("/api/places/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getCurrentUserId(req);
+      const existingPlace = await storage.getPlace(req.params.id);
+      if (!existingPlace || existingPlace.userId !== userId) {
+        return res.status(404).json({ message: "Place not found" });
+      }
+      await storage.deletePlace(existingPlace.id);
+      await refreshTripPlaces(userId);
+
+      const settings = await storage.getUserSettings(userId);
+      if (settings?.defaultStartPlaceId === existingPlace.id || settings?.defaultEndPlaceId === existingPlace.id) {
+        await storage.createOrUpdateSettings({
+          userId,
+          defaultStartPlaceId: settings.defaultStartPlaceId === existingPlace.id ? null : settings.defaultStartPlaceId,
+          defaultEndPlaceId: settings.defaultEndPlaceId === existingPlace.id ? null : settings.defaultEndPlaceId
+        });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete place" });
+    }
+  });
+
+  // Continue schedule jobs that were interrupted by a restart
+  resumeUnfinishedJobs().catch(error => {
+    console.error("Failed to resume schedule jobs:", error);
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,812 @@
+import type { Place, ScheduleEntry } from "@shared/schema";
+import { parseRowDate } from "@shared/scheduleMapping";
+import { storage } from "./storage";
+import { calculateRoute, createDistanceProvider, findCachedRoute, getRouteCacheTtlDays, isSameAddress, normalizeAddress, type RouteResult } from "./distance";
+import { createMileageRateResolver } from "./mileageRates";
+import { findPlaceByName, getDefaultAddresses, resolvePlaceLocation } from "./places";
+import { checkAddress, cleanAddress, type AddressIssue } from "./addresses";
+import { getCommuteMiles, isCommuteLeg, type RouteLeg } from "./commute";
+import { recordMergedEntry } from "./importBatches";
+import { ApiBudgetExceededError, describeBudgetUsage, getApiBudgetStatus, getRemainingCalls, type ApiBudgetStatus } from "./apiBudget";
+
+export interface ScheduleProcessRequest {
+  data: any[];
+  headerMapping: Record<string, string>;
+  vehicleId?: string | null;
+  fileHash?: string;
+  fileName?: string;
+  forceReprocess?: boolean;
+  // Return the plan from previewSchedulePlan instead of processing it
+  dryRun?: boolean;
+}
+
+// Everything needed to process an import, computed up front so a job can be resumed from it
+export interface SchedulePlan {
+  days: Array<{ date: string; rows: any[] }>;
+  headerMapping: Record<string, string>;
+  vehicleId?: string | null;
+  fileHash?: string;
+  fileName?: string;
+  totalRows: number;
+  newDataCount: number;
+  // Dates left out because they already have schedule entries
+  skippedDates?: string[];
+  // Set by startImportBatch; entries written by the run are tagged with it
+  importBatchId?: string | null;
+}
+
+export interface ScheduleDayResult {
+  date: string;
+  status: "calculated" | "off_day" | "error";
+  entryId?: string;
+  distance: number;
+  commuteMiles?: number;
+  amount: number;
+  hotelAddress?: string | null;
+  errorMessage?: string;
+}
+
+export interface ScheduleRunSummary {
+  entriesProcessed: number;
+  newDatesProcessed: number;
+  apiCallsMade: number;
+  cacheHits: number;
+  skippedDuplicates: number;
+  cancelled: boolean;
+  // Set when the monthly API budget ran out; the unfinished days can be resumed later
+  paused: boolean;
+  pauseReason?: string;
+}
+
+// Pre-flight count of the routing calls an import would make
+export interface ScheduleEstimate {
+  days: number;
+  legs: number;
+  cachedLegs: number;
+  uncachedLegs: number;
+  estimatedCost: number;
+  remainingCalls: number | null;
+  withinBudget: boolean;
+  budget: ApiBudgetStatus;
+  // Rows whose address is incomplete or ambiguous
+  addressIssues: number;
+}
+
+export interface DryRunLeg {
+  from: string;
+  to: string;
+  // cached: in the route cache; uncached: needs a provider call; skipped: same start and end
+  status: "cached" | "uncached" | "skipped";
+  distance: number | null;
+  commute: boolean;
+  error?: string;
+}
+
+export interface DryRunDay {
+  date: string;
+  status: "process" | "off_day";
+  stops: string[];
+  notes: string[];
+  startAddress: string;
+  endAddress: string | null;
+  hotelStay: boolean;
+  // A schedule entry exists for the date and would be combined with this one
+  mergesWithExisting: boolean;
+  addressIssues: Array<AddressIssue & { address: string }>;
+  legs: DryRunLeg[];
+  miles: number | null;
+  commuteMiles: number | null;
+  mileageRate: number | null;
+  estimatedAmount: number | null;
+}
+
+export interface ScheduleDryRun {
+  dryRun: true;
+  days: DryRunDay[];
+  skippedDates: string[];
+  totals: {
+    days: number;
+    offDays: number;
+    hotelStays: number;
+    legs: number;
+    cachedLegs: number;
+    uncachedLegs: number;
+    skippedLegs: number;
+    knownMiles: number;
+    knownAmount: number;
+    daysMissingMiles: number;
+    estimatedCost: number;
+    addressIssues: number;
+  };
+  remainingCalls: number | null;
+  withinBudget: boolean;
+  budget: ApiBudgetStatus;
+}
+
+interface PlannedLeg {
+  from: string;
+  to: string;
+  fromHome: boolean;
+  toHome: boolean;
+}
+
+interface DayRoutePlan {
+  startAddress: string;
+  endAddress: string | null;
+  legs: PlannedLeg[];
+  hasHotelStay: boolean;
+  hotelAddress: string | null;
+}
+
+export interface ScheduleRunHooks {
+  // Days finished by an earlier, interrupted run of the same plan
+  completedDays?: ScheduleDayResult[];
+  isCancelled?: () => Promise<boolean>;
+  onDayProcessed?: (result: ScheduleDayResult) => Promise<void>;
+}
+
+// Rejects a request before any processing starts; carries the HTTP status and response body
+export class ScheduleRequestError extends Error {
+  constructor(public status: number, public body: Record<string, unknown>) {
+    super(String(body.message));
+  }
+}
+
+// A stop from the file: a saved place by name, otherwise the cleaned address and anything wrong with it
+function resolveScheduleLocation(places: Place[], text: unknown): { address: string; label: string; addressIssue: AddressIssue | null } {
+  const rawText = String(text ?? '').trim();
+  if (findPlaceByName(places, rawText)) {
+    return { ...resolvePlaceLocation(places, rawText), addressIssue: null };
+  }
+  const address = cleanAddress(rawText);
+  return { address, label: address, addressIssue: checkAddress(address) };
+}
+
+export function detectOffDay(notes: string): boolean {
+  if (!notes) return false;
+  const lowerNotes = notes.toLowerCase();
+  const offDayKeywords = [
+    'off', 'off day', 'off-day', 'day off',
+    'vacation', 'holiday', 'sick', 'sick day',
+    'personal', 'pto', 'time off', 'not working',
+    'no work', 'rest day', 'break'
+  ];
+  return offDayKeywords.some(keyword => lowerNotes.includes(keyword));
+}
+
+export function detectHotelStay(notes: string): boolean {
+  if (!notes) return false;
+  const lowerNotes = notes.toLowerCase();
+  return lowerNotes.includes('hotel') || lowerNotes.includes('motel') || lowerNotes.includes('stay') || lowerNotes.includes('lodging');
+}
+
+// Legs of one day: start -> each location -> end, or start -> locations -> hotel on an overnight stay.
+// endsAtHome is false when the caller already knows the end address is a hotel.
+function planDayRoute(
+  locations: Array<{ address: string; notes: string }>,
+  startAddress: string,
+  endAddress: string | null,
+  startsAtHome: boolean,
+  endsAtHome = true
+): DayRoutePlan {
+  const hotelLocation = locations.find(location => detectHotelStay(location.notes));
+  const dayEndAddress = hotelLocation ? hotelLocation.address : endAddress;
+  const legs: PlannedLeg[] = [];
+
+  let currentLocation = startAddress;
+  let atHome = startsAtHome;
+  for (const location of locations) {
+    if (currentLocation !== location.address && location.address) {
+      legs.push({ from: currentLocation, to: location.address, fromHome: atHome, toHome: false });
+      atHome = false;
+    }
+    currentLocation = location.address || currentLocation;
+  }
+
+  // Route to the end address (if different from the last location); a day without stops is a single leg
+  if (currentLocation !== dayEndAddress && !hotelLocation && dayEndAddress) {
+    legs.push({ from: currentLocation, to: dayEndAddress, fromHome: atHome, toHome: endsAtHome });
+  }
+
+  return {
+    startAddress,
+    endAddress: dayEndAddress,
+    legs,
+    hasHotelStay: Boolean(hotelLocation),
+    hotelAddress: hotelLocation?.address ?? null
+  };
+}
+
+// Validate the request and group the rows that still need processing by day
+export async function planSchedule(userId: string, request: ScheduleProcessRequest): Promise<SchedulePlan> {
+  const { data, headerMapping, vehicleId, fileHash, fileName, forceReprocess } = request;
+
+  const userSettings = await storage.getUserSettings(userId);
+  try {
+    createDistanceProvider(userSettings);
+  } catch (error) {
+    throw new ScheduleRequestError(400, { message: error instanceof Error ? error.message : 'Distance provider not configured' });
+  }
+
+  const { startAddress: defaultStartAddress } = getDefaultAddresses(userSettings, await storage.getPlaces(userId));
+  if (!defaultStartAddress) {
+    throw new ScheduleRequestError(400, { message: "Default start address not configured in settings" });
+  }
+
+  if (vehicleId) {
+    const vehicle = await storage.getVehicle(vehicleId);
+    if (!vehicle || vehicle.userId !== userId) {
+      throw new ScheduleRequestError(400, { message: "Vehicle not found" });
+    }
+  }
+
+  // Check for duplicate file processing using hash (unless forcing reprocess)
+  if (fileHash && !forceReprocess) {
+    const existingFileProcess = await storage.getProcessedFileHash(userId, fileHash);
+    if (existingFileProcess) {
+      throw new ScheduleRequestError(409, {
+        message: "This file has already been processed",
+        processedAt: existingFileProcess.processedAt,
+        recordCount: existingFileProcess.recordCount
+      });
+    }
+  }
+
+  // Check for existing data in date ranges to avoid unnecessary API calls
+  const dateRanges = new Map<string, any[]>();
+  for (const row of data) {
+    const date = new Date(row[headerMapping.date]);
+    if (!isNaN(date.getTime())) {
+      const dateStr = date.toISOString().split('T')[0];
+      if (!dateRanges.has(dateStr)) {
+        dateRanges.set(dateStr, []);
+      }
+      dateRanges.get(dateStr)!.push(row);
+    }
+  }
+
+  // Filter out dates that already have complete data
+  const existingSchedule = await storage.getScheduleEntries(userId);
+  const existingDates = new Set(existingSchedule.map(entry =>
+    new Date(entry.date).toISOString().split('T')[0]
+  ));
+
+  let newDataCount = 0;
+  const filteredDateRanges = new Map<string, any[]>();
+  const skippedDates: string[] = [];
+  for (const [dateStr, entries] of Array.from(dateRanges)) {
+    if (forceReprocess || !existingDates.has(dateStr)) {
+      filteredDateRanges.set(dateStr, entries);
+      newDataCount += entries.length;
+    } else {
+      skippedDates.push(dateStr);
+    }
+  }
+
+  if (filteredDateRanges.size === 0 && !forceReprocess) {
+    throw new ScheduleRequestError(409, {
+      message: "All dates in this file have already been processed",
+      skippedCount: data.length
+    });
+  }
+
+  // Use filtered data to build daily routes, only processing new dates
+  const entriesByDate = new Map<string, any[]>();
+  for (const entries of Array.from(filteredDateRanges.values())) {
+    for (const row of entries) {
+      const date = parseRowDate(row[headerMapping.date]).toDateString();
+      if (!entriesByDate.has(date)) {
+        entriesByDate.set(date, []);
+      }
+      entriesByDate.get(date)!.push(row);
+    }
+  }
+
+  return {
+    days: Array.from(entriesByDate).map(([date, rows]) => ({ date, rows })),
+    headerMapping,
+    vehicleId,
+    fileHash,
+    fileName,
+    totalRows: data.length,
+    newDataCount,
+    skippedDates
+  };
+}
+
+// Calculate and store one schedule entry per planned day
+export async function runSchedulePlan(userId: string, plan: SchedulePlan, hooks: ScheduleRunHooks = {}): Promise<ScheduleRunSummary> {
+  const { headerMapping } = plan;
+  const userSettings = await storage.getUserSettings(userId);
+  const resolveRate = await createMileageRateResolver(userId);
+  const vehicleId = plan.vehicleId || userSettings?.defaultVehicleId || null;
+  const distanceProvider = createDistanceProvider(userSettings);
+  const userPlaces = await storage.getPlaces(userId);
+  const { startAddress: defaultStartAddress, endAddress: defaultEndAddress } = getDefaultAddresses(userSettings, userPlaces);
+  if (!defaultStartAddress) {
+    throw new Error("Default start address not configured in settings");
+  }
+
+  const importBatchId = plan.importBatchId ?? null;
+
+  const completedDays = hooks.completedDays || [];
+  const completedDates = new Set(completedDays.map(result => result.date));
+  let entriesProcessed = completedDays.length;
+  let previousHotelAddress: string | null = completedDays.length > 0
+    ? completedDays[completedDays.length - 1].hotelAddress || null
+    : null;
+  let apiCallsMade = 0;
+  let cacheHits = 0;
+  const routeCacheTtlDays = getRouteCacheTtlDays(userSettings);
+  const getRoute = async (from: string, to: string): Promise<RouteResult> => {
+    const routeInfo = await calculateRoute(from, to, distanceProvider, userId, routeCacheTtlDays);
+    if (routeInfo.cached) {
+      cacheHits++;
+    } else if (!routeInfo.skipped) {
+      apiCallsMade++;
+    }
+    return routeInfo;
+  };
+
+  // Process each day to build daily routes
+  for (const { date: dateString, rows: dayEntries } of plan.days) {
+    if (completedDates.has(dateString)) continue;
+    if (hooks.isCancelled && await hooks.isCancelled()) {
+      return { entriesProcessed, newDatesProcessed: plan.days.length, apiCallsMade, cacheHits, skippedDuplicates: plan.totalRows - plan.newDataCount, cancelled: true, paused: false };
+    }
+
+    let dayResult: ScheduleDayResult;
+    try {
+      const date = new Date(dateString);
+
+      // Build the route for this day: start -> locations -> end
+      const locations = dayEntries.map((row: any) => ({
+        ...resolveScheduleLocation(userPlaces, row[headerMapping.startAddress]),
+        notes: row[headerMapping.notes] || '',
+        originalData: JSON.parse(JSON.stringify(row))
+      }));
+
+      // Check if this is an off day (skip all calculations)
+      const isOffDay = locations.some((location: any) => detectOffDay(location.notes));
+      if (isOffDay) {
+        const offDayEntry = await storage.createScheduleEntry({
+          userId,
+          vehicleId,
+          date,
+          startAddress: previousHotelAddress || defaultStartAddress,
+          endAddress: defaultEndAddress,
+          stops: locations.map((l: any) => l.label).filter(Boolean),
+          notes: `Off day - No travel calculated (${locations.map((l: any) => l.notes).filter((n: any) => n).join(', ')})`,
+          calculatedDistance: 0,
+          calculatedAmount: 0,
+          isHotelStay: false,
+          isOffDay: true,
+          processingStatus: 'calculated',
+          originalData: dayEntries,
+          importBatchId
+        });
+        entriesProcessed++;
+        dayResult = { date: dateString, status: 'off_day', entryId: offDayEntry.id, distance: 0, amount: 0, hotelAddress: previousHotelAddress };
+        await hooks.onDayProcessed?.(dayResult);
+        continue; // Skip to next day
+      }
+
+      // The day starts at home unless the previous night was spent at a hotel
+      const {
+        startAddress: dayStartAddress,
+        endAddress: dayEndAddress,
+        legs: plannedLegs,
+        hasHotelStay,
+        hotelAddress
+      } = planDayRoute(locations, previousHotelAddress || defaultStartAddress, defaultEndAddress, !previousHotelAddress);
+
+      let totalDayDistance = 0;
+      const legs: RouteLeg[] = [];
+      const skippedRoutes: string[] = [];
+      for (const leg of plannedLegs) {
+        const routeInfo = await getRoute(leg.from, leg.to);
+        totalDayDistance += routeInfo.distance;
+        legs.push({ distance: routeInfo.distance, fromHome: leg.fromHome, toHome: leg.toHome });
+        if (routeInfo.skipped) {
+          skippedRoutes.push(`${leg.from} → ${leg.to}: ${routeInfo.reason}`);
+        }
+      }
+
+      const commuteMiles = getCommuteMiles(legs, userSettings);
+      const mileageRate = resolveRate(date).rate;
+      const calculatedAmount = (totalDayDistance - commuteMiles) * mileageRate;
+
+      // Check if entry for this date already exists
+      const existingEntries = await storage.getScheduleEntries(userId);
+      const existingEntry = existingEntries.find(entry =>
+        new Date(entry.date).toISOString().split('T')[0] === date.toISOString().split('T')[0]
+      );
+
+      let entry: ScheduleEntry | undefined;
+      if (existingEntry) {
+        // Update existing entry by combining data
+        if (importBatchId) {
+          await recordMergedEntry(importBatchId, existingEntry);
+        }
+        const combinedDistance = (existingEntry.calculatedDistance || 0) + totalDayDistance;
+        const combinedCommuteMiles = (existingEntry.commuteMiles || 0) + commuteMiles;
+        // The merged day keeps its purpose, so it keeps that purpose's rate
+        const existingRate = resolveRate(date, existingEntry.purpose).rate;
+        entry = await storage.updateScheduleEntry(existingEntry.id, {
+          calculatedDistance: combinedDistance,
+          commuteMiles: combinedCommuteMiles,
+          calculatedAmount: (combinedDistance - combinedCommuteMiles) * existingRate,
+          mileageRate: existingRate,
+          stops: [...((existingEntry.stops as string[] | null) || []), ...locations.map((l: any) => l.label).filter(Boolean)],
+          notes: `${existingEntry.notes} | ${locations.map((l: any) => l.label).join(' → ')} ${hasHotelStay ? '(Hotel stay)' : ''}`,
+          isHotelStay: existingEntry.isHotelStay || hasHotelStay,
+          processingStatus: 'calculated',
+          originalData: [...(existingEntry.originalData as any[] || []), ...dayEntries],
+          importBatchId: importBatchId ?? existingEntry.importBatchId
+        });
+      } else {
+        // Create new entry
+        entry = await storage.createScheduleEntry({
+          userId,
+          vehicleId,
+          date,
+          startAddress: dayStartAddress,
+          endAddress: dayEndAddress,
+          stops: locations.map((l: any) => l.label).filter(Boolean),
+          notes: `Daily route: ${locations.map((l: any) => l.label).join(' → ')} ${hasHotelStay ? '(Hotel stay)' : ''}${skippedRoutes.length > 0 ? ` | Skipped: ${skippedRoutes.join(', ')}` : ''}`,
+          calculatedDistance: totalDayDistance,
+          commuteMiles,
+          calculatedAmount,
+          mileageRate,
+          isHotelStay: hasHotelStay,
+          processingStatus: 'calculated',
+          originalData: dayEntries,
+          importBatchId
+        });
+      }
+
+      entriesProcessed++;
+
+      // Set hotel as next day's starting point
+      if (hasHotelStay) {
+        previousHotelAddress = hotelAddress;
+      } else {
+        previousHotelAddress = null; // Reset to default start address
+      }
+
+      dayResult = {
+        date: dateString,
+        status: 'calculated',
+        entryId: entry?.id,
+        distance: totalDayDistance,
+        commuteMiles,
+        amount: calculatedAmount,
+        hotelAddress: previousHotelAddress
+      };
+    } catch (error) {
+      // Stop before the next billed call; the day is redone when the job resumes
+      if (error instanceof ApiBudgetExceededError) {
+        return {
+          entriesProcessed,
+          newDatesProcessed: plan.days.length,
+          apiCallsMade,
+          cacheHits,
+          skippedDuplicates: plan.totalRows - plan.newDataCount,
+          cancelled: false,
+          paused: true,
+          pauseReason: error.message
+        };
+      }
+
+      // Create error entry for the whole day
+      const errorEntry = await storage.createScheduleEntry({
+        userId,
+        vehicleId,
+        date: new Date(dateString),
+        startAddress: previousHotelAddress || defaultStartAddress,
+        endAddress: defaultEndAddress,
+        notes: `Error processing daily route for ${dateString}`,
+        processingStatus: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        originalData: dayEntries as any,
+        importBatchId
+      });
+
+      entriesProcessed++;
+
+      // Log error
+      await storage.createErrorLog({
+        userId,
+        errorType: 'daily_route_calculation',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        context: { date: dateString, entriesCount: dayEntries.length },
+        timestamp: new Date()
+      });
+
+      dayResult = {
+        date: dateString,
+        status: 'error',
+        entryId: errorEntry.id,
+        distance: 0,
+        amount: 0,
+        hotelAddress: previousHotelAddress,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    await hooks.onDayProcessed?.(dayResult);
+  }
+
+  // Record that this file has been processed
+  if (plan.fileHash && plan.fileName) {
+    await storage.createProcessedFile({
+      userId,
+      fileHash: plan.fileHash,
+      fileName: plan.fileName,
+      processedAt: new Date(),
+      recordCount: plan.newDataCount,
+      importBatchId
+    });
+  }
+
+  return {
+    entriesProcessed,
+    newDatesProcessed: plan.days.length,
+    apiCallsMade,
+    cacheHits,
+    skippedDuplicates: plan.totalRows - plan.newDataCount,
+    cancelled: false,
+    paused: false
+  };
+}
+
+// Recompute one entry's distance, commute miles and amount from its start, stops and end. Used after
+// the entry is edited, so fixing a day doesn't mean reimporting the whole file.
+export async function recalculateScheduleEntry(userId: string, entry: ScheduleEntry): Promise<ScheduleEntry | undefined> {
+  const date = new Date(entry.date);
+  const resolveRate = await createMileageRateResolver(userId);
+  const mileageRate = resolveRate(date, entry.purpose).rate;
+
+  if (entry.isOffDay) {
+    return storage.updateScheduleEntry(entry.id, {
+      calculatedDistance: 0,
+      commuteMiles: 0,
+      calculatedAmount: 0,
+      mileageRate,
+      processingStatus: 'calculated',
+      errorMessage: null
+    });
+  }
+
+  // Failures are stored on the entry, the same way an import records a day it couldn't route
+  try {
+    return await routeScheduleEntry(userId, entry, mileageRate);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await storage.createErrorLog({
+      userId,
+      errorType: 'daily_route_calculation',
+      errorMessage,
+      context: { entryId: entry.id, date: date.toISOString().split('T')[0] },
+      timestamp: new Date()
+    });
+    return storage.updateScheduleEntry(entry.id, { processingStatus: 'error', errorMessage });
+  }
+}
+
+async function routeScheduleEntry(userId: string, entry: ScheduleEntry, mileageRate: number): Promise<ScheduleEntry | undefined> {
+  const date = new Date(entry.date);
+  const userSettings = await storage.getUserSettings(userId);
+  const distanceProvider = createDistanceProvider(userSettings);
+  const routeCacheTtlDays = getRouteCacheTtlDays(userSettings);
+  const userPlaces = await storage.getPlaces(userId);
+  const resolveAddress = (text: string) => resolveScheduleLocation(userPlaces, text).address;
+
+  // The day starts at the hotel when the previous day ended at one
+  const previousDay = new Date(date.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const startsAtHotel = (await storage.getScheduleEntries(userId)).some(other =>
+    other.id !== entry.id && other.isHotelStay && new Date(other.date).toISOString().split('T')[0] === previousDay
+  );
+
+  const stops = ((entry.stops as string[] | null) || []).filter(Boolean);
+  const { legs: plannedLegs } = planDayRoute(
+    stops.map(stop => ({ address: resolveAddress(stop), notes: '' })),
+    resolveAddress(entry.startAddress),
+    entry.endAddress ? resolveAddress(entry.endAddress) : null,
+    !startsAtHotel,
+    !entry.isHotelStay
+  );
+
+  let distance = 0;
+  const legs: RouteLeg[] = [];
+  for (const leg of plannedLegs) {
+    const routeInfo = await calculateRoute(leg.from, leg.to, distanceProvider, userId, routeCacheTtlDays);
+    distance += routeInfo.distance;
+    legs.push({ distance: routeInfo.distance, fromHome: leg.fromHome, toHome: leg.toHome });
+  }
+
+  const commuteMiles = getCommuteMiles(legs, userSettings);
+  return storage.updateScheduleEntry(entry.id, {
+    calculatedDistance: distance,
+    commuteMiles,
+    calculatedAmount: (distance - commuteMiles) * mileageRate,
+    mileageRate,
+    processingStatus: 'calculated',
+    errorMessage: null
+  });
+}
+
+// Walk the plan the way runSchedulePlan does without writing anything. Cached legs use the cached
+// distance; legs that would need a billed call have no distance yet. With routeFreeLegs, legs for
+// free providers (self-hosted or straight-line) are routed so their miles are exact.
+export async function previewSchedulePlan(
+  userId: string,
+  plan: SchedulePlan,
+  { routeFreeLegs = false }: { routeFreeLegs?: boolean } = {}
+): Promise<ScheduleDryRun> {
+  const { headerMapping } = plan;
+  const userSettings = await storage.getUserSettings(userId);
+  const distanceProvider = createDistanceProvider(userSettings);
+  const routeCacheTtlDays = getRouteCacheTtlDays(userSettings);
+  const resolveRate = await createMileageRateResolver(userId);
+  const userPlaces = await storage.getPlaces(userId);
+  const { startAddress: defaultStartAddress, endAddress: defaultEndAddress } = getDefaultAddresses(userSettings, userPlaces);
+  if (!defaultStartAddress) {
+    throw new ScheduleRequestError(400, { message: "Default start address not configured in settings" });
+  }
+
+  const existingDates = new Set((await storage.getScheduleEntries(userId)).map(entry =>
+    new Date(entry.date).toISOString().split('T')[0]
+  ));
+  const costPerCall = distanceProvider.usage?.costPerCall ?? 0;
+
+  // Repeated legs are only routed once; the first call caches them for the rest of the import
+  const seenLegs = new Map<string, { distance: number | null; error?: string }>();
+  const previewLeg = async (from: string, to: string): Promise<DryRunLeg> => {
+    if (isSameAddress(from, to)) {
+      return { from, to, status: "skipped", distance: 0, commute: false };
+    }
+    const legKey = `${normalizeAddress(from)}|${normalizeAddress(to)}`;
+    const seen = seenLegs.get(legKey);
+    if (seen) {
+      return { from, to, status: "cached", commute: false, ...seen };
+    }
+
+    const cachedRoute = await findCachedRoute(from, to, distanceProvider, userId, routeCacheTtlDays);
+    if (cachedRoute) {
+      seenLegs.set(legKey, { distance: cachedRoute.distance });
+      return { from, to, status: "cached", distance: cachedRoute.distance, commute: false };
+    }
+
+    let result: { distance: number | null; error?: string } = { distance: null };
+    if (routeFreeLegs && !distanceProvider.usage) {
+      try {
+        result = { distance: (await distanceProvider.getRoute(from, to)).distance };
+      } catch (error) {
+        result = { distance: null, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+    seenLegs.set(legKey, result);
+    return { from, to, status: "uncached", commute: false, ...result };
+  };
+
+  const days: DryRunDay[] = [];
+  let previousHotelAddress: string | null = null;
+  for (const { date: dateString, rows } of plan.days) {
+    const date = new Date(dateString);
+    const locations = rows.map((row: any) => ({
+      ...resolveScheduleLocation(userPlaces, row[headerMapping.startAddress]),
+      notes: row[headerMapping.notes] || ''
+    }));
+    const dayBase = {
+      date: dateString,
+      stops: locations.map(location => location.label).filter(Boolean),
+      notes: locations.map(location => location.notes).filter(Boolean),
+      mergesWithExisting: existingDates.has(date.toISOString().split('T')[0]),
+      addressIssues: locations.flatMap(location =>
+        location.addressIssue ? [{ ...location.addressIssue, address: location.address }] : []
+      )
+    };
+
+    if (locations.some(location => detectOffDay(location.notes))) {
+      days.push({
+        ...dayBase,
+        status: "off_day",
+        startAddress: previousHotelAddress || defaultStartAddress,
+        endAddress: defaultEndAddress,
+        hotelStay: false,
+        legs: [],
+        miles: 0,
+        commuteMiles: 0,
+        mileageRate: null,
+        estimatedAmount: 0
+      });
+      continue;
+    }
+
+    const dayRoute = planDayRoute(locations, previousHotelAddress || defaultStartAddress, defaultEndAddress, !previousHotelAddress);
+    const legs: DryRunLeg[] = [];
+    for (const plannedLeg of dayRoute.legs) {
+      const leg = await previewLeg(plannedLeg.from, plannedLeg.to);
+      legs.push({ ...leg, commute: isCommuteLeg(plannedLeg, userSettings) });
+    }
+
+    // Miles are only known once every leg has a distance
+    const complete = legs.every(leg => leg.distance !== null);
+    const miles = complete ? legs.reduce((sum, leg) => sum + leg.distance!, 0) : null;
+    const commuteMiles = complete
+      ? getCommuteMiles(dayRoute.legs.map((leg, index) => ({ ...leg, distance: legs[index].distance! })), userSettings)
+      : null;
+    const mileageRate = resolveRate(date).rate;
+
+    days.push({
+      ...dayBase,
+      status: "process",
+      startAddress: dayRoute.startAddress,
+      endAddress: dayRoute.endAddress,
+      hotelStay: dayRoute.hasHotelStay,
+      legs,
+      miles,
+      commuteMiles,
+      mileageRate,
+      estimatedAmount: miles !== null && commuteMiles !== null ? (miles - commuteMiles) * mileageRate : null
+    });
+    previousHotelAddress = dayRoute.hotelAddress;
+  }
+
+  const allLegs = days.flatMap(day => day.legs);
+  const uncachedLegs = allLegs.filter(leg => leg.status === "uncached").length;
+  const budget = await getApiBudgetStatus(userId, userSettings);
+  const remainingCalls = costPerCall > 0 ? getRemainingCalls(budget, costPerCall) : null;
+
+  return {
+    dryRun: true,
+    days,
+    skippedDates: plan.skippedDates || [],
+    totals: {
+      days: days.length,
+      offDays: days.filter(day => day.status === "off_day").length,
+      hotelStays: days.filter(day => day.hotelStay).length,
+      legs: allLegs.filter(leg => leg.status !== "skipped").length,
+      cachedLegs: allLegs.filter(leg => leg.status === "cached").length,
+      uncachedLegs,
+      skippedLegs: allLegs.filter(leg => leg.status === "skipped").length,
+      knownMiles: allLegs.reduce((sum, leg) => sum + (leg.distance || 0), 0),
+      knownAmount: days.reduce((sum, day) => sum + (day.estimatedAmount || 0), 0),
+      daysMissingMiles: days.filter(day => day.miles === null).length,
+      estimatedCost: uncachedLegs * costPerCall,
+      // Off days are never routed, so their addresses don't matter
+      addressIssues: days.filter(day => day.status === "process").reduce((sum, day) => sum + day.addressIssues.length, 0)
+    },
+    remainingCalls,
+    withinBudget: remainingCalls === null || uncachedLegs <= remainingCalls,
+    budget
+  };
+}
+
+export async function estimateSchedulePlan(userId: string, plan: SchedulePlan): Promise<ScheduleEstimate> {
+  const preview = await previewSchedulePlan(userId, plan);
+  return {
+    days: preview.totals.days,
+    legs: preview.totals.legs,
+    cachedLegs: preview.totals.cachedLegs,
+    uncachedLegs: preview.totals.uncachedLegs,
+    estimatedCost: preview.totals.estimatedCost,
+    remainingCalls: preview.remainingCalls,
+    withinBudget: preview.withinBudget,
+    budget: preview.budget,
+    addressIssues: preview.totals.addressIssues
+  };
+}
+
+// Refuse an import whose uncached legs would not fit in what is left of the monthly budget
+export async function assertPlanWithinBudget(userId: string, plan: SchedulePlan): Promise<ScheduleEstimate> {
+  const estimate = await estimateSchedulePlan(userId, plan);
+  if (!estimate.withinBudget) {
+    throw new ScheduleRequestError(429, {
+      message: `This import needs about ${estimate.uncachedLegs} API calls but only ${estimate.remainingCalls} fit in this month's budget (${describeBudgetUsage(estimate.budget)})`,
+      estimate
+    });
+  }
+  return estimate;
+}
@@ -77,6 +77,7 @@ export function setupSecurity(app: Express) {
   });
   app.use('/api/receipts/upload', uploadLimiter);
   app.use('/api/schedule/import', uploadLimiter);
+  app.use('/api/trips/import', uploadLimiter);
 }
 
 // Middleware to sanitize user input
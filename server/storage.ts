@@ -3,18 +3,33 @@ import {
   trips,
   expenses,
   receipts,
+  receiptCorrections,
   scheduleEntries,
   appSettings,
   errorLogs,
   type User,
   type UpsertUser,
   type InsertUser,
+  vehicles,
+  type Vehicle,
+  type InsertVehicle,
+  odometerReadings,
+  type OdometerReading,
+  type InsertOdometerReading,
+  places,
+  type Place,
+  type InsertPlace,
   type Trip,
   type InsertTrip,
+  tripPoints,
+  type TripPoint,
+  type InsertTripPoint,
   type Expense,
   type InsertExpense,
   type Receipt,
   type InsertReceipt,
+  type ReceiptCorrection,
+  type InsertReceiptCorrection,
   type ScheduleEntry,
   type InsertScheduleEntry,
   type AppSettings,
@@ -24,17 +39,35 @@ import {
   type ProcessedFile,
   type InsertProcessedFile,
   processedFiles,
+  importBatches,
+  type ImportBatch,
+  type InsertImportBatch,
+  scheduleImportTemplates,
+  type ScheduleImportTemplate,
+  type InsertScheduleImportTemplate,
   type InsertApiUsage,
   type ApiUsage,
   apiUsage,
   yearlyRates,
   type YearlyRate,
-  type InsertYearlyRate
+  type InsertYearlyRate,
+  routeCache,
+  type RouteCacheEntry,
+  type InsertRouteCacheEntry,
+  geocodeCache,
+  type GeocodeCacheEntry,
+  type InsertGeocodeCacheEntry,
+  jobs,
+  type Job,
+  type InsertJob
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// apiUsage providers that record cache hits rather than requests to a paid API
+const CACHE_USAGE_PROVIDERS = ['route_cache', 'geocode_cache'];
+
 export interface IStorage {
   // Users (for custom authentication)
   getUser(id: string): Promise<User | undefined>;
@@ -43,6 +76,22 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   
+  // Vehicles
+  getVehicles(userId: string): Promise<Vehicle[]>;
+  getVehicle(id: string): Promise<Vehicle | undefined>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(id: string, vehicle: Partial<Vehicle>): Promise<Vehicle | undefined>;
+  deleteVehicle(id: string): Promise<boolean>;
+  getOdometerReadings(vehicleId: string): Promise<OdometerReading[]>;
+  saveOdometerReading(reading: InsertOdometerReading): Promise<OdometerReading>;
+  
+  // Places
+  getPlaces(userId: string): Promise<Place[]>;
+  getPlace(id: string): Promise<Place | undefined>;
+  createPlace(place: InsertPlace): Promise<Place>;
+  updatePlace(id: string, place: Partial<Place>): Promise<Place | undefined>;
+  deletePlace(id: string): Promise<boolean>;
+  
   // Trips
   getTrips(userId: string): Promise<Trip[]>;
   getTrip(id: string): Promise<Trip | undefined>;
@@ -50,6 +99,8 @@ export interface IStorage {
   updateTrip(id: string, trip: Partial<Trip>): Promise<Trip | undefined>;
   deleteTrip(id: string): Promise<boolean>;
   getActiveTrip(userId: string): Promise<Trip | undefined>;
+  getTripPoints(tripId: string): Promise<TripPoint[]>;
+  addTripPoints(points: InsertTripPoint[]): Promise<number>;
   
   // Expenses
   getExpenses(userId: string): Promise<Expense[]>;
@@ -64,6 +115,8 @@ export interface IStorage {
   createReceipt(receipt: InsertReceipt): Promise<Receipt>;
   updateReceipt(id: string, receipt: Partial<Receipt>): Promise<Receipt | undefined>;
   deleteReceipt(id: string): Promise<boolean>;
+  getReceiptCorrections(userId: string): Promise<ReceiptCorrection[]>;
+  createReceiptCorrection(correction: InsertReceiptCorrection): Promise<ReceiptCorrection>;
   
   // Schedule Entries
   getScheduleEntries(userId: string): Promise<ScheduleEntry[]>;
@@ -83,11 +136,38 @@ export interface IStorage {
   // File processing redundancy
   getProcessedFileHash(userId: string, fileHash: string): Promise<ProcessedFile | undefined>;
   createProcessedFile(file: InsertProcessedFile): Promise<ProcessedFile>;
+  deleteProcessedFilesByImportBatch(importBatchId: string): Promise<boolean>;
+  
+  // Import batches
+  getImportBatches(userId: string): Promise<ImportBatch[]>;
+  getImportBatch(id: string): Promise<ImportBatch | undefined>;
+  createImportBatch(batch: InsertImportBatch): Promise<ImportBatch>;
+  updateImportBatch(id: string, batch: Partial<ImportBatch>): Promise<ImportBatch | undefined>;
+  
+  // Schedule import templates
+  getScheduleImportTemplates(userId: string): Promise<ScheduleImportTemplate[]>;
+  getScheduleImportTemplate(id: string): Promise<ScheduleImportTemplate | undefined>;
+  createScheduleImportTemplate(template: InsertScheduleImportTemplate): Promise<ScheduleImportTemplate>;
+  updateScheduleImportTemplate(id: string, template: Partial<InsertScheduleImportTemplate>): Promise<ScheduleImportTemplate | undefined>;
+  deleteScheduleImportTemplate(id: string): Promise<boolean>;
   
   // API Usage tracking
   getApiUsage(userId: string, month?: string): Promise<ApiUsage[]>;
   trackApiCall(usage: InsertApiUsage): Promise<ApiUsage>;
-  getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number}>;
+  getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number, cacheHits: number}>;
+  
+  // Route cache
+  getCachedRoute(userId: string, originKey: string, destinationKey: string, provider: string): Promise<RouteCacheEntry | undefined>;
+  saveCachedRoute(entry: InsertRouteCacheEntry): Promise<RouteCacheEntry>;
+  getCachedGeocode(userId: string, coordinateKey: string, provider: string): Promise<GeocodeCacheEntry | undefined>;
+  saveCachedGeocode(entry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry>;
+  
+  // Background jobs
+  getJobs(userId: string): Promise<Job[]>;
+  getJob(id: string): Promise<Job | undefined>;
+  getUnfinishedJobs(): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: string, job: Partial<Job>): Promise<Job | undefined>;
   
   // Yearly Rates
   getYearlyRates(userId: string): Promise<YearlyRate[]>;
@@ -138,6 +218,87 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Vehicles
+  async getVehicles(userId: string): Promise<Vehicle[]> {
+    return await db.select().from(vehicles).where(eq(vehicles.userId, userId));
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.id, id));
+    return vehicle;
+  }
+
+  async createVehicle(insertVehicle: InsertVehicle): Promise<Vehicle> {
+    const [vehicle] = await db.insert(vehicles).values(insertVehicle).returning();
+    return vehicle;
+  }
+
+  async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle | undefined> {
+    const [vehicle] = await db
+      .update(vehicles)
+      .set(updates)
+      .where(eq(vehicles.id, id))
+      .returning();
+    return vehicle;
+  }
+
+  async deleteVehicle(id: string): Promise<boolean> {
+    const result = await db.delete(vehicles).where(eq(vehicles.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getOdometerReadings(vehicleId: string): Promise<OdometerReading[]> {
+    return await db.select().from(odometerReadings).where(eq(odometerReadings.vehicleId, vehicleId));
+  }
+
+  async saveOdometerReading(reading: InsertOdometerReading): Promise<OdometerReading> {
+    const [existing] = await db
+      .select()
+      .from(odometerReadings)
+      .where(and(eq(odometerReadings.vehicleId, reading.vehicleId), eq(odometerReadings.year, reading.year)));
+
+    if (existing) {
+      const [updated] = await db
+        .update(odometerReadings)
+        .set(reading)
+        .where(eq(odometerReadings.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(odometerReadings).values(reading).returning();
+    return created;
+  }
+
+  // Places
+  async getPlaces(userId: string): Promise<Place[]> {
+    return await db.select().from(places).where(eq(places.userId, userId));
+  }
+
+  async getPlace(id: string): Promise<Place | undefined> {
+    const [place] = await db.select().from(places).where(eq(places.id, id));
+    return place;
+  }
+
+  async createPlace(insertPlace: InsertPlace): Promise<Place> {
+    const [place] = await db.insert(places).values(insertPlace).returning();
+    return place;
+  }
+
+  async updatePlace(id: string, updates: Partial<Place>): Promise<Place | undefined> {
+    const [place] = await db
+      .update(places)
+      .set(updates)
+      .where(eq(places.id, id))
+      .returning();
+    return place;
+  }
+
+  async deletePlace(id: string): Promise<boolean> {
+    const result = await db.delete(places).where(eq(places.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Trips
   async getTrips(userId: string): Promise<Trip[]> {
     return await db.select().from(trips).where(eq(trips.userId, userId));
@@ -171,10 +332,25 @@ export class DatabaseStorage implements IStorage {
     const [trip] = await db
       .select()
       .from(trips)
-      .where(eq(trips.userId, userId) && eq(trips.isActive, true));
+      .where(and(eq(trips.userId, userId), eq(trips.isActive, true)));
     return trip;
   }
 
+  // Trip points
+  async getTripPoints(tripId: string): Promise<TripPoint[]> {
+    return await db
+      .select()
+      .from(tripPoints)
+      .where(eq(tripPoints.tripId, tripId))
+      .orderBy(tripPoints.recordedAt);
+  }
+
+  async addTripPoints(points: InsertTripPoint[]): Promise<number> {
+    if (points.length === 0) return 0;
+    const inserted = await db.insert(tripPoints).values(points).returning({ id: tripPoints.id });
+    return inserted.length;
+  }
+
   // Expenses
   async getExpenses(userId: string): Promise<Expense[]> {
     return await db.select().from(expenses).where(eq(expenses.userId, userId));
@@ -228,6 +404,15 @@ export class DatabaseStorage implements IStorage {
     return receipt;
   }
 
+  async getReceiptCorrections(userId: string): Promise<ReceiptCorrection[]> {
+    return await db.select().from(receiptCorrections).where(eq(receiptCorrections.userId, userId));
+  }
+
+  async createReceiptCorrection(insertCorrection: InsertReceiptCorrection): Promise<ReceiptCorrection> {
+    const [correction] = await db.insert(receiptCorrections).values(insertCorrection).returning();
+    return correction;
+  }
+
   async deleteReceipt(id: string): Promise<boolean> {
     const result = await db.delete(receipts).where(eq(receipts.id, id));
     return (result.rowCount || 0) > 0;
@@ -316,6 +501,64 @@ export class DatabaseStorage implements IStorage {
     return file;
   }
 
+  async deleteProcessedFilesByImportBatch(importBatchId: string): Promise<boolean> {
+    const result = await db.delete(processedFiles).where(eq(processedFiles.importBatchId, importBatchId));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Import batches
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    return await db.select().from(importBatches).where(eq(importBatches.userId, userId));
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch | undefined> {
+    const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, id));
+    return batch;
+  }
+
+  async createImportBatch(insertBatch: InsertImportBatch): Promise<ImportBatch> {
+    const [batch] = await db.insert(importBatches).values(insertBatch).returning();
+    return batch;
+  }
+
+  async updateImportBatch(id: string, updates: Partial<ImportBatch>): Promise<ImportBatch | undefined> {
+    const [batch] = await db
+      .update(importBatches)
+      .set(updates)
+      .where(eq(importBatches.id, id))
+      .returning();
+    return batch;
+  }
+
+  // Schedule import templates
+  async getScheduleImportTemplates(userId: string): Promise<ScheduleImportTemplate[]> {
+    return await db.select().from(scheduleImportTemplates).where(eq(scheduleImportTemplates.userId, userId));
+  }
+
+  async getScheduleImportTemplate(id: string): Promise<ScheduleImportTemplate | undefined> {
+    const [template] = await db.select().from(scheduleImportTemplates).where(eq(scheduleImportTemplates.id, id));
+    return template;
+  }
+
+  async createScheduleImportTemplate(insertTemplate: InsertScheduleImportTemplate): Promise<ScheduleImportTemplate> {
+    const [template] = await db.insert(scheduleImportTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateScheduleImportTemplate(id: string, updates: Partial<InsertScheduleImportTemplate>): Promise<ScheduleImportTemplate | undefined> {
+    const [template] = await db
+      .update(scheduleImportTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scheduleImportTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteScheduleImportTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(scheduleImportTemplates).where(eq(scheduleImportTemplates.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   // API Usage tracking
   async getApiUsage(userId: string, month?: string): Promise<ApiUsage[]> {
     if (month) {
@@ -354,11 +597,107 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number}> {
+  async getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number, cacheHits: number}> {
     const usage = await this.getApiUsage(userId, month);
-    const totalCalls = usage.reduce((sum, u) => sum + (u.callCount || 0), 0);
-    const totalCost = usage.reduce((sum, u) => sum + (u.totalCost || 0), 0);
-    return { totalCalls, totalCost };
+    // Cache hits are recorded alongside API calls but are not billed requests
+    const apiCalls = usage.filter(u => !CACHE_USAGE_PROVIDERS.includes(u.apiProvider));
+    const totalCalls = apiCalls.reduce((sum, u) => sum + (u.callCount || 0), 0);
+    const totalCost = apiCalls.reduce((sum, u) => sum + (u.totalCost || 0), 0);
+    const cacheHits = usage
+      .filter(u => CACHE_USAGE_PROVIDERS.includes(u.apiProvider))
+      .reduce((sum, u) => sum + (u.callCount || 0), 0);
+    return { totalCalls, totalCost, cacheHits };
+  }
+
+  // Route cache
+  async getCachedRoute(userId: string, originKey: string, destinationKey: string, provider: string): Promise<RouteCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(routeCache)
+      .where(and(
+        eq(routeCache.userId, userId),
+        eq(routeCache.originKey, originKey),
+        eq(routeCache.destinationKey, destinationKey),
+        eq(routeCache.provider, provider)
+      ));
+    return entry;
+  }
+
+  async saveCachedRoute(insertEntry: InsertRouteCacheEntry): Promise<RouteCacheEntry> {
+    const existing = await this.getCachedRoute(insertEntry.userId!, insertEntry.originKey, insertEntry.destinationKey, insertEntry.provider);
+
+    if (existing) {
+      const [updated] = await db
+        .update(routeCache)
+        .set({
+          distance: insertEntry.distance,
+          duration: insertEntry.duration,
+          cachedAt: insertEntry.cachedAt
+        })
+        .where(eq(routeCache.id, existing.id))
+        .returning();
+      return updated;
+    } else {
+      const [entry] = await db.insert(routeCache).values(insertEntry).returning();
+      return entry;
+    }
+  }
+
+  // Geocode cache
+  async getCachedGeocode(userId: string, coordinateKey: string, provider: string): Promise<GeocodeCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(geocodeCache)
+      .where(and(
+        eq(geocodeCache.userId, userId),
+        eq(geocodeCache.coordinateKey, coordinateKey),
+        eq(geocodeCache.provider, provider)
+      ));
+    return entry;
+  }
+
+  async saveCachedGeocode(insertEntry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry> {
+    const existing = await this.getCachedGeocode(insertEntry.userId!, insertEntry.coordinateKey, insertEntry.provider);
+
+    if (existing) {
+      const [updated] = await db
+        .update(geocodeCache)
+        .set({ address: insertEntry.address, cachedAt: insertEntry.cachedAt })
+        .where(eq(geocodeCache.id, existing.id))
+        .returning();
+      return updated;
+    } else {
+      const [entry] = await db.insert(geocodeCache).values(insertEntry).returning();
+      return entry;
+    }
+  }
+
+  // Background jobs
+  async getJobs(userId: string): Promise<Job[]> {
+    return await db.select().from(jobs).where(eq(jobs.userId, userId));
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return await db.select().from(jobs).where(inArray(jobs.status, ["queued", "running"]));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set(updates)
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
   }
 
   // Yearly Rates
@@ -482,6 +821,127 @@ class MemStorage implements IStorage {
     }
   }
 
+  // Vehicles (in-memory implementation)
+  private vehicles: Map<string, Vehicle> = new Map();
+  private odometerReadings: Map<string, OdometerReading> = new Map();
+
+  async getVehicles(userId: string): Promise<Vehicle[]> {
+    return Array.from(this.vehicles.values()).filter(vehicle => vehicle.userId === userId);
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
+    return this.vehicles.get(id);
+  }
+
+  async createVehicle(insertVehicle: InsertVehicle): Promise<Vehicle> {
+    const id = randomUUID();
+    const vehicle: Vehicle = {
+      id,
+      userId: insertVehicle.userId ?? null,
+      name: insertVehicle.name,
+      make: insertVehicle.make ?? null,
+      model: insertVehicle.model ?? null,
+      licensePlate: insertVehicle.licensePlate ?? null,
+      placedInServiceDate: insertVehicle.placedInServiceDate ?? null,
+      createdAt: new Date()
+    };
+    this.vehicles.set(id, vehicle);
+    return vehicle;
+  }
+
+  async updateVehicle(id: string, updates: Partial<Vehicle>): Promise<Vehicle | undefined> {
+    const existing = this.vehicles.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.vehicles.set(id, updated);
+    return updated;
+  }
+
+  async deleteVehicle(id: string): Promise<boolean> {
+    Array.from(this.odometerReadings.values())
+      .filter(reading => reading.vehicleId === id)
+      .forEach(reading => this.odometerReadings.delete(reading.id));
+    // Mirror the database's ON DELETE SET NULL
+    Array.from(this.trips.values())
+      .filter(trip => trip.vehicleId === id)
+      .forEach(trip => this.trips.set(trip.id, { ...trip, vehicleId: null }));
+    Array.from(this.expenses.values())
+      .filter(expense => expense.vehicleId === id)
+      .forEach(expense => this.expenses.set(expense.id, { ...expense, vehicleId: null }));
+    Array.from(this.scheduleEntries.values())
+      .filter(entry => entry.vehicleId === id)
+      .forEach(entry => this.scheduleEntries.set(entry.id, { ...entry, vehicleId: null }));
+    return this.vehicles.delete(id);
+  }
+
+  async getOdometerReadings(vehicleId: string): Promise<OdometerReading[]> {
+    return Array.from(this.odometerReadings.values()).filter(reading => reading.vehicleId === vehicleId);
+  }
+
+  async saveOdometerReading(reading: InsertOdometerReading): Promise<OdometerReading> {
+    const existing = Array.from(this.odometerReadings.values())
+      .find(candidate => candidate.vehicleId === reading.vehicleId && candidate.year === reading.year);
+    const saved: OdometerReading = {
+      id: existing?.id ?? randomUUID(),
+      vehicleId: reading.vehicleId,
+      year: reading.year,
+      // Omitted readings keep their saved value, like a partial database update
+      startOdometer: reading.startOdometer !== undefined ? reading.startOdometer : existing?.startOdometer ?? null,
+      endOdometer: reading.endOdometer !== undefined ? reading.endOdometer : existing?.endOdometer ?? null
+    };
+    this.odometerReadings.set(saved.id, saved);
+    return saved;
+  }
+
+  // Places (in-memory implementation)
+  private places: Map<string, Place> = new Map();
+
+  async getPlaces(userId: string): Promise<Place[]> {
+    return Array.from(this.places.values()).filter(place => place.userId === userId);
+  }
+
+  async getPlace(id: string): Promise<Place | undefined> {
+    return this.places.get(id);
+  }
+
+  async createPlace(insertPlace: InsertPlace): Promise<Place> {
+    const id = randomUUID();
+    const place: Place = {
+      id,
+      userId: insertPlace.userId ?? null,
+      name: insertPlace.name,
+      address: insertPlace.address ?? null,
+      latitude: insertPlace.latitude ?? null,
+      longitude: insertPlace.longitude ?? null,
+      radiusMeters: insertPlace.radiusMeters ?? 150,
+      createdAt: new Date()
+    };
+    this.places.set(id, place);
+    return place;
+  }
+
+  async updatePlace(id: string, updates: Partial<Place>): Promise<Place | undefined> {
+    const existing = this.places.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.places.set(id, updated);
+    return updated;
+  }
+
+  async deletePlace(id: string): Promise<boolean> {
+    // Mirror the database's ON DELETE SET NULL
+    Array.from(this.trips.values())
+      .filter(trip => trip.startPlaceId === id || trip.endPlaceId === id)
+      .forEach(trip => this.trips.set(trip.id, {
+        ...trip,
+        startPlaceId: trip.startPlaceId === id ? null : trip.startPlaceId,
+        endPlaceId: trip.endPlaceId === id ? null : trip.endPlaceId
+      }));
+    return this.places.delete(id);
+  }
+
   // Trips
   async getTrips(userId: string): Promise<Trip[]> {
     return Array.from(this.trips.values()).filter(trip => trip.userId === userId);
@@ -496,8 +956,11 @@ class MemStorage implements IStorage {
     const trip: Trip = { 
       id,
       userId: insertTrip.userId ?? null,
+      vehicleId: insertTrip.vehicleId ?? null,
       startLocation: insertTrip.startLocation,
       endLocation: insertTrip.endLocation ?? null,
+      startPlaceId: insertTrip.startPlaceId ?? null,
+      endPlaceId: insertTrip.endPlaceId ?? null,
       startTime: insertTrip.startTime,
       endTime: insertTrip.endTime ?? null,
       distance: insertTrip.distance ?? null,
@@ -520,6 +983,9 @@ class MemStorage implements IStorage {
   }
 
   async deleteTrip(id: string): Promise<boolean> {
+    Array.from(this.tripPoints.values())
+      .filter(point => point.tripId === id)
+      .forEach(point => this.tripPoints.delete(point.id));
     return this.trips.delete(id);
   }
 
@@ -529,6 +995,31 @@ class MemStorage implements IStorage {
     );
   }
 
+  // Trip points (in-memory implementation)
+  private tripPoints: Map<string, TripPoint> = new Map();
+
+  async getTripPoints(tripId: string): Promise<TripPoint[]> {
+    return Array.from(this.tripPoints.values())
+      .filter(point => point.tripId === tripId)
+      .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+  }
+
+  async addTripPoints(points: InsertTripPoint[]): Promise<number> {
+    for (const insertPoint of points) {
+      const id = randomUUID();
+      this.tripPoints.set(id, {
+        id,
+        tripId: insertPoint.tripId,
+        latitude: insertPoint.latitude,
+        longitude: insertPoint.longitude,
+        accuracy: insertPoint.accuracy ?? null,
+        speed: insertPoint.speed ?? null,
+        recordedAt: insertPoint.recordedAt
+      });
+    }
+    return points.length;
+  }
+
   // Expenses
   async getExpenses(userId: string): Promise<Expense[]> {
     return Array.from(this.expenses.values()).filter(expense => expense.userId === userId);
@@ -544,6 +1035,7 @@ class MemStorage implements IStorage {
       id,
       userId: insertExpense.userId ?? null,
       tripId: insertExpense.tripId ?? null,
+      vehicleId: insertExpense.vehicleId ?? null,
       amount: insertExpense.amount,
       category: insertExpense.category,
       merchant: insertExpense.merchant ?? null,
@@ -586,6 +1078,9 @@ class MemStorage implements IStorage {
       imageUrl: insertReceipt.imageUrl,
       ocrText: insertReceipt.ocrText ?? null,
       extractedData: insertReceipt.extractedData,
+      confidence: insertReceipt.confidence ?? null,
+      reviewStatus: insertReceipt.reviewStatus ?? null,
+      pageThumbnails: insertReceipt.pageThumbnails ?? [],
       uploadDate: insertReceipt.uploadDate
     };
     this.receipts.set(id, receipt);
@@ -602,9 +1097,36 @@ class MemStorage implements IStorage {
   }
 
   async deleteReceipt(id: string): Promise<boolean> {
+    this.receiptCorrections.forEach(correction => {
+      if (correction.receiptId === id) correction.receiptId = null;
+    });
     return this.receipts.delete(id);
   }
 
+  // Receipt corrections (in-memory implementation)
+  private receiptCorrections: Map<string, ReceiptCorrection> = new Map();
+
+  async getReceiptCorrections(userId: string): Promise<ReceiptCorrection[]> {
+    return Array.from(this.receiptCorrections.values()).filter(correction => correction.userId === userId);
+  }
+
+  async createReceiptCorrection(insertCorrection: InsertReceiptCorrection): Promise<ReceiptCorrection> {
+    const id = randomUUID();
+    const correction: ReceiptCorrection = {
+      id,
+      userId: insertCorrection.userId ?? null,
+      receiptId: insertCorrection.receiptId ?? null,
+      field: insertCorrection.field,
+      extractedValue: insertCorrection.extractedValue ?? null,
+      confirmedValue: insertCorrection.confirmedValue ?? null,
+      confidence: insertCorrection.confidence ?? null,
+      source: insertCorrection.source ?? null,
+      createdAt: new Date()
+    };
+    this.receiptCorrections.set(id, correction);
+    return correction;
+  }
+
   // Schedule Entries
   async getScheduleEntries(userId: string): Promise<ScheduleEntry[]> {
     return Array.from(this.scheduleEntries.values()).filter(entry => entry.userId === userId);
@@ -619,16 +1141,23 @@ class MemStorage implements IStorage {
     const entry: ScheduleEntry = { 
       id,
       userId: insertEntry.userId || null,
+      vehicleId: insertEntry.vehicleId ?? null,
       date: insertEntry.date,
       startAddress: insertEntry.startAddress,
       endAddress: insertEntry.endAddress ?? null,
+      stops: insertEntry.stops ?? [],
       notes: insertEntry.notes ?? null,
       calculatedDistance: insertEntry.calculatedDistance ?? null,
+      commuteMiles: insertEntry.commuteMiles ?? null,
       calculatedAmount: insertEntry.calculatedAmount ?? null,
+      mileageRate: insertEntry.mileageRate ?? null,
+      purpose: insertEntry.purpose ?? "business",
       isHotelStay: insertEntry.isHotelStay ?? null,
+      isOffDay: insertEntry.isOffDay ?? null,
       processingStatus: insertEntry.processingStatus ?? null,
       errorMessage: insertEntry.errorMessage ?? null,
-      originalData: insertEntry.originalData
+      originalData: insertEntry.originalData,
+      importBatchId: insertEntry.importBatchId ?? null
     };
     this.scheduleEntries.set(id, entry);
     return entry;
@@ -666,14 +1195,34 @@ class MemStorage implements IStorage {
         userId: insertSettings.userId ?? null,
         googleApiKey: insertSettings.googleApiKey ?? null,
         openaiApiKey: insertSettings.openaiApiKey ?? null,
+        receiptProvider: insertSettings.receiptProvider ?? null,
+        receiptServiceUrl: insertSettings.receiptServiceUrl ?? null,
+        receiptServiceApiKey: insertSettings.receiptServiceApiKey ?? null,
+        receiptModel: insertSettings.receiptModel ?? null,
+        receiptPrompt: insertSettings.receiptPrompt ?? null,
         mileageRate: insertSettings.mileageRate ?? null,
         autoDetectionEnabled: insertSettings.autoDetectionEnabled ?? null,
         detectionSensitivity: insertSettings.detectionSensitivity ?? null,
+        autoStopDwellMinutes: insertSettings.autoStopDwellMinutes ?? null,
         darkMode: insertSettings.darkMode ?? null,
         pushNotifications: insertSettings.pushNotifications ?? null,
         autoBackup: insertSettings.autoBackup ?? null,
         defaultStartAddress: insertSettings.defaultStartAddress ?? null,
-        defaultEndAddress: insertSettings.defaultEndAddress ?? null
+        defaultEndAddress: insertSettings.defaultEndAddress ?? null,
+        defaultStartPlaceId: insertSettings.defaultStartPlaceId ?? null,
+        commutePolicy: insertSettings.commutePolicy ?? null,
+        normalCommuteMiles: insertSettings.normalCommuteMiles ?? null,
+        defaultEndPlaceId: insertSettings.defaultEndPlaceId ?? null,
+        defaultVehicleId: insertSettings.defaultVehicleId ?? null,
+        distanceProvider: insertSettings.distanceProvider ?? null,
+        routingServiceUrl: insertSettings.routingServiceUrl ?? null,
+        geocodingServiceUrl: insertSettings.geocodingServiceUrl ?? null,
+        geocodingProvider: insertSettings.geocodingProvider ?? null,
+        roadFactor: insertSettings.roadFactor ?? null,
+        routeCacheTtlDays: insertSettings.routeCacheTtlDays ?? null,
+        monthlyApiCallBudget: insertSettings.monthlyApiCallBudget ?? null,
+        monthlyApiCostBudget: insertSettings.monthlyApiCostBudget ?? null,
+        apiBudgetAlertPercent: insertSettings.apiBudgetAlertPercent ?? null
       };
       this.appSettings.set(id, settings);
       return settings;
@@ -713,13 +1262,102 @@ class MemStorage implements IStorage {
       fileHash: insertFile.fileHash,
       fileName: insertFile.fileName,
       processedAt: insertFile.processedAt,
-      recordCount: insertFile.recordCount || 0
+      recordCount: insertFile.recordCount || 0,
+      importBatchId: insertFile.importBatchId ?? null
     };
     const key = `${insertFile.userId}-${insertFile.fileHash}`;
     this.processedFiles.set(key, file);
     return file;
   }
 
+  async deleteProcessedFilesByImportBatch(importBatchId: string): Promise<boolean> {
+    let deleted = false;
+    for (const [key, file] of Array.from(this.processedFiles.entries())) {
+      if (file.importBatchId === importBatchId) {
+        this.processedFiles.delete(key);
+        deleted = true;
+      }
+    }
+    return deleted;
+  }
+
+  // Import batches (in-memory implementation)
+  private importBatches: Map<string, ImportBatch> = new Map();
+
+  async getImportBatches(userId: string): Promise<ImportBatch[]> {
+    return Array.from(this.importBatches.values()).filter(batch => batch.userId === userId);
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch | undefined> {
+    return this.importBatches.get(id);
+  }
+
+  async createImportBatch(insertBatch: InsertImportBatch): Promise<ImportBatch> {
+    const id = randomUUID();
+    const batch: ImportBatch = {
+      id,
+      userId: insertBatch.userId ?? null,
+      jobId: insertBatch.jobId ?? null,
+      fileName: insertBatch.fileName ?? null,
+      fileHash: insertBatch.fileHash ?? null,
+      status: insertBatch.status ?? "active",
+      mergedEntries: insertBatch.mergedEntries ?? [],
+      createdAt: new Date(),
+      revertedAt: insertBatch.revertedAt ?? null
+    };
+    this.importBatches.set(id, batch);
+    return batch;
+  }
+
+  async updateImportBatch(id: string, updates: Partial<ImportBatch>): Promise<ImportBatch | undefined> {
+    const existing = this.importBatches.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.importBatches.set(id, updated);
+    return updated;
+  }
+
+  // Schedule import templates (in-memory implementation)
+  private scheduleImportTemplates: Map<string, ScheduleImportTemplate> = new Map();
+
+  async getScheduleImportTemplates(userId: string): Promise<ScheduleImportTemplate[]> {
+    return Array.from(this.scheduleImportTemplates.values()).filter(template => template.userId === userId);
+  }
+
+  async getScheduleImportTemplate(id: string): Promise<ScheduleImportTemplate | undefined> {
+    return this.scheduleImportTemplates.get(id);
+  }
+
+  async createScheduleImportTemplate(insertTemplate: InsertScheduleImportTemplate): Promise<ScheduleImportTemplate> {
+    const id = randomUUID();
+    const template: ScheduleImportTemplate = {
+      id,
+      userId: insertTemplate.userId ?? null,
+      name: insertTemplate.name,
+      headerSignature: insertTemplate.headerSignature,
+      headers: insertTemplate.headers ?? [],
+      mapping: insertTemplate.mapping,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.scheduleImportTemplates.set(id, template);
+    return template;
+  }
+
+  async updateScheduleImportTemplate(id: string, updates: Partial<InsertScheduleImportTemplate>): Promise<ScheduleImportTemplate | undefined> {
+    const existing = this.scheduleImportTemplates.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
+    this.scheduleImportTemplates.set(id, updated);
+    return updated;
+  }
+
+  async deleteScheduleImportTemplate(id: string): Promise<boolean> {
+    return this.scheduleImportTemplates.delete(id);
+  }
+
   // API Usage tracking
   async getApiUsage(userId: string, month?: string): Promise<ApiUsage[]> {
     const allUsage = Array.from(this.apiUsage.values()).filter(usage => usage.userId === userId);
@@ -758,11 +1396,106 @@ class MemStorage implements IStorage {
     }
   }
 
-  async getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number}> {
+  async getMonthlyApiStats(userId: string, month: string): Promise<{totalCalls: number, totalCost: number, cacheHits: number}> {
     const usage = await this.getApiUsage(userId, month);
-    const totalCalls = usage.reduce((sum, u) => sum + (u.callCount || 0), 0);
-    const totalCost = usage.reduce((sum, u) => sum + (u.totalCost || 0), 0);
-    return { totalCalls, totalCost };
+    // Cache hits are recorded alongside API calls but are not billed requests
+    const apiCalls = usage.filter(u => !CACHE_USAGE_PROVIDERS.includes(u.apiProvider));
+    const totalCalls = apiCalls.reduce((sum, u) => sum + (u.callCount || 0), 0);
+    const totalCost = apiCalls.reduce((sum, u) => sum + (u.totalCost || 0), 0);
+    const cacheHits = usage
+      .filter(u => CACHE_USAGE_PROVIDERS.includes(u.apiProvider))
+      .reduce((sum, u) => sum + (u.callCount || 0), 0);
+    return { totalCalls, totalCost, cacheHits };
+  }
+
+  // Route cache
+  private routeCache: Map<string, RouteCacheEntry> = new Map();
+
+  async getCachedRoute(userId: string, originKey: string, destinationKey: string, provider: string): Promise<RouteCacheEntry | undefined> {
+    return this.routeCache.get(`${userId}-${provider}-${originKey}-${destinationKey}`);
+  }
+
+  async saveCachedRoute(insertEntry: InsertRouteCacheEntry): Promise<RouteCacheEntry> {
+    const key = `${insertEntry.userId}-${insertEntry.provider}-${insertEntry.originKey}-${insertEntry.destinationKey}`;
+    const entry: RouteCacheEntry = {
+      id: this.routeCache.get(key)?.id ?? randomUUID(),
+      userId: insertEntry.userId ?? null,
+      originKey: insertEntry.originKey,
+      destinationKey: insertEntry.destinationKey,
+      provider: insertEntry.provider,
+      distance: insertEntry.distance,
+      duration: insertEntry.duration,
+      cachedAt: insertEntry.cachedAt
+    };
+    this.routeCache.set(key, entry);
+    return entry;
+  }
+
+  // Geocode cache
+  private geocodeCache: Map<string, GeocodeCacheEntry> = new Map();
+
+  async getCachedGeocode(userId: string, coordinateKey: string, provider: string): Promise<GeocodeCacheEntry | undefined> {
+    return this.geocodeCache.get(`${userId}-${provider}-${coordinateKey}`);
+  }
+
+  async saveCachedGeocode(insertEntry: InsertGeocodeCacheEntry): Promise<GeocodeCacheEntry> {
+    const key = `${insertEntry.userId}-${insertEntry.provider}-${insertEntry.coordinateKey}`;
+    const entry: GeocodeCacheEntry = {
+      id: this.geocodeCache.get(key)?.id ?? randomUUID(),
+      userId: insertEntry.userId ?? null,
+      coordinateKey: insertEntry.coordinateKey,
+      provider: insertEntry.provider,
+      address: insertEntry.address,
+      cachedAt: insertEntry.cachedAt
+    };
+    this.geocodeCache.set(key, entry);
+    return entry;
+  }
+
+  // Background jobs
+  private jobs: Map<string, Job> = new Map();
+
+  async getJobs(userId: string): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.userId === userId);
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.status === "queued" || job.status === "running");
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = randomUUID();
+    const job: Job = {
+      id,
+      userId: insertJob.userId ?? null,
+      type: insertJob.type,
+      status: insertJob.status ?? "queued",
+      payload: insertJob.payload,
+      totalCount: insertJob.totalCount ?? 0,
+      processedCount: insertJob.processedCount ?? 0,
+      results: insertJob.results ?? [],
+      summary: insertJob.summary ?? null,
+      errorMessage: insertJob.errorMessage ?? null,
+      cancelRequested: insertJob.cancelRequested ?? false,
+      createdAt: new Date(),
+      startedAt: insertJob.startedAt ?? null,
+      completedAt: insertJob.completedAt ?? null
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const existing = this.jobs.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.jobs.set(id, updated);
+    return updated;
   }
 
   // Yearly Rates (in-memory implementation)
@@ -788,6 +1521,8 @@ class MemStorage implements IStorage {
       userId: insertRate.userId ?? null,
       year: insertRate.year,
       mileageRate: insertRate.mileageRate,
+      medicalRate: insertRate.medicalRate ?? null,
+      movingRate: insertRate.movingRate ?? null,
       effectiveDate: insertRate.effectiveDate || null,
       notes: insertRate.notes || null,
       createdAt: new Date()
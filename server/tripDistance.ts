@@ -0,0 +1,46 @@
+import type { TripPoint } from "@shared/schema";
+import { haversineMeters } from "./distance";
+
+const METERS_PER_MILE = 1609.34;
+// Fixes less precise than this are mostly noise from cell/wifi positioning
+const MAX_POINT_ACCURACY_METERS = 50;
+// Movement below this between accepted points is treated as GPS jitter
+const MIN_MOVEMENT_METERS = 10;
+// Faster than ~200 mph between two fixes means one of them is wrong
+const MAX_PLAUSIBLE_SPEED_MPS = 90;
+
+type DistancePoint = Pick<TripPoint, "latitude" | "longitude" | "accuracy" | "recordedAt">;
+
+// Sum the recorded polyline, ignoring inaccurate fixes, jitter while stationary
+// and impossible jumps. Returns miles.
+export function computeTripDistance(points: DistancePoint[]): number {
+  const sortedPoints = points
+    .filter(point => point.accuracy == null || point.accuracy <= MAX_POINT_ACCURACY_METERS)
+    .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+
+  let totalMeters = 0;
+  let lastPoint: DistancePoint | null = null;
+
+  for (const point of sortedPoints) {
+    if (!lastPoint) {
+      lastPoint = point;
+      continue;
+    }
+
+    const meters = haversineMeters(
+      { lat: lastPoint.latitude, lng: lastPoint.longitude },
+      { lat: point.latitude, lng: point.longitude }
+    );
+    // A move smaller than the fixes' own uncertainty is indistinguishable from standing still
+    const jitterThreshold = Math.max(MIN_MOVEMENT_METERS, lastPoint.accuracy || 0, point.accuracy || 0);
+    if (meters < jitterThreshold) continue;
+
+    const seconds = (new Date(point.recordedAt).getTime() - new Date(lastPoint.recordedAt).getTime()) / 1000;
+    if (seconds > 0 && meters / seconds > MAX_PLAUSIBLE_SPEED_MPS) continue;
+
+    totalMeters += meters;
+    lastPoint = point;
+  }
+
+  return totalMeters / METERS_PER_MILE;
+}
@@ -0,0 +1,138 @@
+import XLSX from "xlsx";
+import type { Vehicle } from "@shared/schema";
+import { storage } from "./storage";
+import { getDeductibleMiles } from "./commute";
+
+const UNASSIGNED_VEHICLE = "Unassigned";
+
+export interface VehicleUsageSummary {
+  vehicleId: string | null;
+  vehicleName: string;
+  year: number;
+  startOdometer: number | null;
+  endOdometer: number | null;
+  // Odometer difference; null until both readings are entered
+  totalMiles: number | null;
+  businessMiles: number;
+  loggedMiles: number;
+  businessUsePercent: number | null;
+}
+
+export function getVehicleName(vehicles: Vehicle[], vehicleId: string | null | undefined): string {
+  return vehicles.find(vehicle => vehicle.id === vehicleId)?.name || UNASSIGNED_VEHICLE;
+}
+
+// Miles per vehicle and year from trips and schedule entries, compared to the odometer
+export async function getVehicleUsageSummaries(userId: string, year?: number): Promise<VehicleUsageSummary[]> {
+  const [vehicles, trips, scheduleEntries] = await Promise.all([
+    storage.getVehicles(userId),
+    storage.getTrips(userId),
+    storage.getScheduleEntries(userId)
+  ]);
+
+  const summaries = new Map<string, VehicleUsageSummary>();
+  const getSummary = (vehicleId: string | null, summaryYear: number) => {
+    const key = `${vehicleId ?? ''}-${summaryYear}`;
+    if (!summaries.has(key)) {
+      summaries.set(key, {
+        vehicleId,
+        vehicleName: getVehicleName(vehicles, vehicleId),
+        year: summaryYear,
+        startOdometer: null,
+        endOdometer: null,
+        totalMiles: null,
+        businessMiles: 0,
+        loggedMiles: 0,
+        businessUsePercent: null
+      });
+    }
+    return summaries.get(key)!;
+  };
+
+  // Commuting is personal use, so it counts toward logged but not business miles
+  const addMiles = (vehicleId: string | null, date: Date, miles: number, purpose: string, commuteMiles = 0) => {
+    if (year !== undefined && date.getFullYear() !== year) return;
+    const summary = getSummary(vehicleId, date.getFullYear());
+    summary.loggedMiles += miles;
+    if (purpose === "business") {
+      summary.businessMiles += miles - commuteMiles;
+    }
+  };
+
+  trips.forEach(trip => addMiles(trip.vehicleId, new Date(trip.startTime), trip.distance || 0, trip.purpose));
+  scheduleEntries.forEach(entry => addMiles(
+    entry.vehicleId,
+    new Date(entry.date),
+    entry.calculatedDistance || 0,
+    entry.purpose,
+    (entry.calculatedDistance || 0) - getDeductibleMiles(entry)
+  ));
+
+  for (const vehicle of vehicles) {
+    const readings = await storage.getOdometerReadings(vehicle.id);
+    for (const reading of readings) {
+      if (year !== undefined && reading.year !== year) continue;
+      const summary = getSummary(vehicle.id, reading.year);
+      summary.startOdometer = reading.startOdometer;
+      summary.endOdometer = reading.endOdometer;
+    }
+  }
+
+  return Array.from(summaries.values())
+    .map(summary => {
+      if (summary.startOdometer == null || summary.endOdometer == null) return summary;
+      const totalMiles = summary.endOdometer - summary.startOdometer;
+      return {
+        ...summary,
+        totalMiles,
+        businessUsePercent: totalMiles > 0 ? Math.min(100, summary.businessMiles / totalMiles * 100) : null
+      };
+    })
+    .sort((a, b) => a.year - b.year || a.vehicleName.localeCompare(b.vehicleName));
+}
+
+export function buildVehicleSummarySheet(summaries: VehicleUsageSummary[]): XLSX.WorkSheet {
+  const worksheet = XLSX.utils.json_to_sheet(summaries.map(summary => ({
+    'Vehicle': summary.vehicleName,
+    'Year': summary.year,
+    'Start Odometer': summary.startOdometer ?? '',
+    'End Odometer': summary.endOdometer ?? '',
+    'Total Miles (Odometer)': summary.totalMiles != null ? summary.totalMiles.toFixed(1) : 'Odometer not recorded',
+    'Logged Miles': summary.loggedMiles.toFixed(2),
+    'Business Miles': summary.businessMiles.toFixed(2),
+    'Business Use %': summary.businessUsePercent != null ? `${summary.businessUsePercent.toFixed(1)}%` : ''
+  })));
+  worksheet['!cols'] = [
+    { wch: 20 }, // Vehicle
+    { wch: 8 },  // Year
+    { wch: 15 }, // Start Odometer
+    { wch: 15 }, // End Odometer
+    { wch: 22 }, // Total Miles (Odometer)
+    { wch: 14 }, // Logged Miles
+    { wch: 14 }, // Business Miles
+    { wch: 14 }  // Business Use %
+  ];
+  return worksheet;
+}
+
+// Add one worksheet per vehicle, named after it
+export function appendSheetsByVehicle<T extends { 'Vehicle': string }>(
+  workbook: XLSX.WorkBook,
+  rows: T[],
+  columnWidths: XLSX.ColInfo[]
+) {
+  const rowsByVehicle = new Map<string, T[]>();
+  rows.forEach(row => {
+    if (!rowsByVehicle.has(row['Vehicle'])) rowsByVehicle.set(row['Vehicle'], []);
+    rowsByVehicle.get(row['Vehicle'])!.push(row);
+  });
+  if (rowsByVehicle.size === 0) rowsByVehicle.set(UNASSIGNED_VEHICLE, []);
+
+  Array.from(rowsByVehicle.entries()).forEach(([vehicleName, vehicleRows], index) => {
+    const worksheet = XLSX.utils.json_to_sheet(vehicleRows);
+    worksheet['!cols'] = columnWidths;
+    // Excel sheet names are limited to 31 characters and must be unique
+    const sheetName = `${index + 1} ${vehicleName.replace(/[\[\]:*?\/\\]/g, ' ')}`.slice(0, 31);
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  });
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+
+export const EXPENSE_CATEGORIES = ["gas", "parking", "tolls", "meals", "lodging", "other"] as const;
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+
+// Business meals are 50% deductible; every other category is deducted in full
+export const MEALS_DEDUCTIBLE_SHARE = 0.5;
+
+export const receiptLineItemSchema = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  unitPrice: z.number().finite().nullable(),
+  total: z.number().finite(),
+  category: z.enum(EXPENSE_CATEGORIES),
+});
+
+export type ReceiptLineItem = z.infer<typeof receiptLineItemSchema>;
+
+// Receipt lines that belong to one category, with that category's share of the receipt total
+export interface LineItemGroup {
+  category: ExpenseCategory;
+  items: ReceiptLineItem[];
+  amount: number;
+}
+
+// Checked in order, so "room service" is a meal before "room" is lodging
+const LINE_ITEM_KEYWORDS: Array<[ExpenseCategory, RegExp]> = [
+  ["meals", /\b(breakfast|lunch|dinner|brunch|restaurant|room service|food|beverages?|bar|cafe|coffee|mini-?bar|dining|meals?|snacks?|drinks?)\b/i],
+  ["parking", /\b(parking|valet|garage)\b/i],
+  ["tolls", /\b(tolls?|turnpike)\b/i],
+  ["gas", /\b(fuel|gasoline|unleaded|diesel|gal|gallons?)\b/i],
+  ["lodging", /\b(room|lodging|accommodations?|nights?|occupancy|resort fee|suite)\b/i],
+];
+
+const LINE_AMOUNT = /\$?\s?-?(\d{1,3}(?:,\d{3})+|\d+)\.\d{2}\b/g;
+// Totals, payments and change are not items; receipt-wide tax is spread over the items instead
+const NOT_AN_ITEM = /total|balance|gift\s*card|\bchange\b|tender|\bcash\b|payment|\bpaid\b|visa|mastercard|\bamex\b|discover|debit|credit|approval|auth|acct|account|points|rewards/i;
+const TAX_LINE = /\b(tax|hst|vat|gst)\b/i;
+const QUANTITY_AT_PRICE = /\b(\d{1,3})\s*(?:@|x)\s*\$?(\d[\d,]*\.\d{2})\b/i;
+const LEADING_QUANTITY = /^(\d{1,3})\s*x?\s+(?=[a-z])/i;
+const AT_UNIT_PRICE = /@\s*\$?(\d[\d,]*\.\d{2})\b/;
+// Folio lines often start with the posting date
+const LEADING_DATE = /^\d{1,2}[\/\-]\d{1,2}(?:[\/\-]\d{2,4})?\s+/;
+
+function parseMoney(text: string): number {
+  return parseFloat(text.replace(/[^\d.-]/g, ''));
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The category a line names, or null when its description says nothing about it
+export function guessLineItemCategory(description: string): ExpenseCategory | null {
+  const match = LINE_ITEM_KEYWORDS.find(([, pattern]) => pattern.test(description));
+  return match ? match[0] : null;
+}
+
+// One receipt line as an item; null for lines without an amount or a description
+function parseLineItem(line: string, fallbackCategory: ExpenseCategory): ReceiptLineItem | null {
+  const amounts = line.match(LINE_AMOUNT);
+  if (!amounts) return null;
+  const totalText = amounts[amounts.length - 1];
+  const total = parseMoney(totalText);
+
+  let rest = line.slice(0, line.lastIndexOf(totalText)).replace(LEADING_DATE, '');
+  let quantity = 1;
+  let unitPrice: number | null = total;
+
+  // "Coffee 2 @ 3.50", or "2 x Coffee" with an optional "@ 3.50"
+  const atPrice = rest.match(QUANTITY_AT_PRICE);
+  const leading = rest.match(LEADING_QUANTITY);
+  if (atPrice) {
+    quantity = parseInt(atPrice[1]);
+    unitPrice = parseMoney(atPrice[2]);
+    rest = rest.replace(atPrice[0], ' ');
+  } else if (leading) {
+    quantity = parseInt(leading[1]);
+    unitPrice = roundCents(total / quantity);
+    rest = rest.slice(leading[0].length);
+    const at = rest.match(AT_UNIT_PRICE);
+    if (at) {
+      unitPrice = parseMoney(at[1]);
+      rest = rest.replace(at[0], ' ');
+    }
+  }
+
+  const description = rest.replace(/[\s$:.\-]+$/, '').replace(/\s+/g, ' ').trim();
+  if ((description.match(/[a-z]/gi) || []).length < 2 || quantity <= 0) return null;
+
+  return {
+    description,
+    quantity,
+    unitPrice,
+    total,
+    category: guessLineItemCategory(description) ?? fallbackCategory
+  };
+}
+
+// Items from OCR text; tax lines are kept only when they name a category, like a folio's occupancy tax
+export function parseLineItems(text: string, fallbackCategory: ExpenseCategory = "other"): ReceiptLineItem[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !NOT_AN_ITEM.test(line))
+    .filter(line => !TAX_LINE.test(line) || guessLineItemCategory(line) !== null)
+    .map(line => parseLineItem(line, fallbackCategory))
+    .filter((item): item is ReceiptLineItem => item !== null);
+}
+
+const rawMoneySchema = z.preprocess(
+  value => typeof value === "string" ? parseFloat(value.replace(/[^\d.-]/g, '')) : value,
+  z.number().finite()
+).nullable().catch(null);
+
+const rawTextSchema = z.string().trim().min(1).nullable().catch(null);
+
+// Line items as models and older receipts store them: plain strings, or objects with varying key names
+const rawLineItemSchema = z.object({
+  description: rawTextSchema,
+  name: rawTextSchema,
+  item: rawTextSchema,
+  quantity: rawMoneySchema,
+  qty: rawMoneySchema,
+  unitPrice: rawMoneySchema,
+  unit_price: rawMoneySchema,
+  price: rawMoneySchema,
+  total: rawMoneySchema,
+  amount: rawMoneySchema,
+  line_total: rawMoneySchema,
+  category: z.enum(EXPENSE_CATEGORIES).nullable().catch(null),
+});
+
+export function normalizeLineItems(raw: unknown, fallbackCategory: ExpenseCategory = "other"): ReceiptLineItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    if (typeof entry === "string") {
+      const item = parseLineItem(entry, fallbackCategory);
+      return item ? [item] : [];
+    }
+    const parsed = rawLineItemSchema.safeParse(entry);
+    if (!parsed.success) return [];
+    const item = parsed.data;
+    const description = item.description ?? item.name ?? item.item;
+    const quantity = item.quantity ?? item.qty ?? 1;
+    const unitPrice = item.unitPrice ?? item.unit_price ?? item.price;
+    const total = item.total ?? item.line_total ?? item.amount ?? (unitPrice !== null ? roundCents(unitPrice * quantity) : null);
+    if (!description || total === null || quantity <= 0) return [];
+    return [{
+      description,
+      quantity,
+      unitPrice: unitPrice ?? roundCents(total / quantity),
+      total,
+      category: item.category ?? guessLineItemCategory(description) ?? fallbackCategory
+    }];
+  });
+}
+
+// Items grouped by category, in order of first appearance. When a receipt total is known, the difference
+// from the item sum (usually sales tax) is spread over the groups in proportion, so the groups add up to it.
+export function groupLineItemsByCategory(items: ReceiptLineItem[], receiptTotal: number | null): LineItemGroup[] {
+  const groups: LineItemGroup[] = [];
+  for (const item of items) {
+    const group = groups.find(candidate => candidate.category === item.category);
+    if (group) {
+      group.items.push(item);
+      group.amount += item.total;
+    } else {
+      groups.push({ category: item.category, items: [item], amount: item.total });
+    }
+  }
+
+  const itemsTotal = groups.reduce((sum, group) => sum + group.amount, 0);
+  const scale = receiptTotal !== null && itemsTotal > 0 ? receiptTotal / itemsTotal : 1;
+  for (const group of groups) {
+    group.amount = roundCents(group.amount * scale);
+  }
+
+  // Rounding leftovers go to the largest group
+  if (receiptTotal !== null && itemsTotal > 0 && groups.length > 0) {
+    const largest = groups.reduce((a, b) => b.amount > a.amount ? b : a);
+    const allocated = groups.reduce((sum, group) => sum + group.amount, 0);
+    largest.amount = roundCents(largest.amount + receiptTotal - allocated);
+  }
+  return groups;
+}
+
+export function getDeductibleAmount(expense: { amount: number; category: string }): number {
+  return expense.category === "meals" ? roundCents(expense.amount * MEALS_DEDUCTIBLE_SHARE) : expense.amount;
+}
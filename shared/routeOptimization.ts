@@ -0,0 +1,2 @@
+// Every ordered pair of stops is a routing request, so keep the matrix bounded
+export const MAX_OPTIMIZE_STOPS = 25;
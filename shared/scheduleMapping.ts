@@ -0,0 +1,123 @@
+import moment from "moment";
+import { z } from "zod";
+
+// Fields the schedule processor reads from each row
+export const SCHEDULE_FIELDS = ["date", "startAddress", "notes"] as const;
+export type ScheduleField = typeof SCHEDULE_FIELDS[number];
+
+// How one field is built from a row: columns joined in order (e.g. street, city, zip), a constant, or both
+export const scheduleFieldMappingSchema = z.object({
+  columns: z.array(z.string()).default([]),
+  separator: z.string().optional(), // between joined columns; defaults to ", "
+  constant: z.string().optional(), // used for every row, or appended after the columns
+  dateFormat: z.string().optional(), // moment format of the date column, e.g. "M/D/YY"
+});
+
+export const scheduleColumnMappingSchema = z.object({
+  date: scheduleFieldMappingSchema.optional(),
+  startAddress: scheduleFieldMappingSchema.optional(),
+  notes: scheduleFieldMappingSchema.optional(),
+});
+
+export type ScheduleFieldMapping = z.infer<typeof scheduleFieldMappingSchema>;
+export type ScheduleColumnMapping = z.infer<typeof scheduleColumnMappingSchema>;
+
+// Dates are rewritten in the format the processor already parses as a local date
+const OUTPUT_DATE_FORMAT = "MM/DD/YYYY";
+const MAPPED_COLUMN_PREFIX = "mapped:";
+
+// A row's date: Excel serial numbers or anything the Date constructor parses
+export function parseRowDate(rawDate: any): Date {
+  // Handle Excel date format (numeric days since 1900-01-01)
+  if (typeof rawDate === 'number') {
+    // Excel dates: Simple conversion using standard JavaScript approach
+    // Excel epoch is January 1, 1900 (serial number 1)
+    // But account for Excel's leap year bug by using Unix epoch instead
+    const excelEpochDiff = 25569; // Days between 1900-01-01 and 1970-01-01
+    const daysFromUnixEpoch = rawDate - excelEpochDiff + 1; // Add 1 day to correct offset
+    return new Date(daysFromUnixEpoch * 24 * 60 * 60 * 1000);
+  }
+  return new Date(rawDate);
+}
+
+// Identifies a file layout regardless of column order or header casing
+export function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map(header => header.trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+    .join("|");
+}
+
+// Every column that appears in any row; spreadsheet rows omit empty cells
+export function getRowHeaders(data: Record<string, any>[]): string[] {
+  const headers = new Set<string>();
+  for (const row of data) {
+    Object.keys(row).forEach(header => headers.add(header));
+  }
+  return Array.from(headers);
+}
+
+// Turn a detected { field: column } mapping into an editable column mapping
+export function mappingFromHeaders(headerMapping: Partial<Record<string, string>>): ScheduleColumnMapping {
+  const mapping: ScheduleColumnMapping = {};
+  for (const field of SCHEDULE_FIELDS) {
+    const column = headerMapping[field];
+    if (column) mapping[field] = { columns: [column] };
+  }
+  return mapping;
+}
+
+function isPlainColumn(fieldMapping: ScheduleFieldMapping): boolean {
+  return fieldMapping.columns.length === 1 && !fieldMapping.constant && !fieldMapping.dateFormat;
+}
+
+function buildFieldValue(row: Record<string, any>, field: ScheduleField, fieldMapping: ScheduleFieldMapping): any {
+  if (field === "date" && fieldMapping.columns.length === 1 && !fieldMapping.constant) {
+    const rawDate = row[fieldMapping.columns[0]];
+    // Excel serial dates are converted by the processor
+    if (typeof rawDate === "number" || !fieldMapping.dateFormat) return rawDate;
+    const parsed = moment(String(rawDate ?? "").trim(), fieldMapping.dateFormat, true);
+    return parsed.isValid() ? parsed.format(OUTPUT_DATE_FORMAT) : rawDate;
+  }
+
+  const parts = fieldMapping.columns
+    .map(column => String(row[column] ?? "").trim())
+    .filter(Boolean);
+  if (fieldMapping.constant) parts.push(fieldMapping.constant);
+  return parts.join(fieldMapping.separator ?? ", ");
+}
+
+// Add the mapped values to each row and point the header mapping at them. Single-column fields
+// keep pointing at the file's own column, so rows are unchanged when nothing is transformed.
+export function applyColumnMapping(
+  data: Record<string, any>[],
+  mapping: ScheduleColumnMapping
+): { data: Record<string, any>[]; headerMapping: Partial<Record<ScheduleField, string>> } {
+  const headerMapping: Partial<Record<ScheduleField, string>> = {};
+  const derivedFields: ScheduleField[] = [];
+
+  for (const field of SCHEDULE_FIELDS) {
+    const fieldMapping = mapping[field];
+    if (!fieldMapping || (fieldMapping.columns.length === 0 && !fieldMapping.constant)) continue;
+    if (isPlainColumn(fieldMapping)) {
+      headerMapping[field] = fieldMapping.columns[0];
+    } else {
+      headerMapping[field] = `${MAPPED_COLUMN_PREFIX}${field}`;
+      derivedFields.push(field);
+    }
+  }
+
+  if (derivedFields.length === 0) return { data, headerMapping };
+
+  return {
+    data: data.map(row => {
+      const mappedRow = { ...row };
+      for (const field of derivedFields) {
+        mappedRow[headerMapping[field]!] = buildFieldValue(row, field, mapping[field]!);
+      }
+      return mappedRow;
+    }),
+    headerMapping
+  };
+}
@@ -26,11 +26,50 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const vehicles = pgTable("vehicles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  make: text("make"),
+  model: text("model"),
+  licensePlate: text("license_plate"),
+  placedInServiceDate: timestamp("placed_in_service_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Start and end of year odometer readings, one row per vehicle and tax year
+export const odometerReadings = pgTable(
+  "odometer_readings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+    year: integer("year").notNull(),
+    startOdometer: real("start_odometer"),
+    endOdometer: real("end_odometer"),
+  },
+  (table) => [index("IDX_odometer_vehicle_year").on(table.vehicleId, table.year)],
+);
+
+// Named locations (Home, Office, clients) that label trip endpoints within their radius
+export const places = pgTable("places", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  address: text("address"),
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  radiusMeters: real("radius_meters").notNull().default(150),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const trips = pgTable("trips", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
   startLocation: jsonb("start_location").notNull(),
   endLocation: jsonb("end_location"),
+  startPlaceId: varchar("start_place_id").references(() => places.id, { onDelete: "set null" }),
+  endPlaceId: varchar("end_place_id").references(() => places.id, { onDelete: "set null" }),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
   distance: real("distance"),
@@ -40,10 +79,26 @@ export const trips = pgTable("trips", {
   autoDetected: boolean("auto_detected").default(false),
 });
 
+// GPS breadcrumbs recorded while a trip is active
+export const tripPoints = pgTable(
+  "trip_points",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tripId: varchar("trip_id").references(() => trips.id, { onDelete: "cascade" }).notNull(),
+    latitude: real("latitude").notNull(),
+    longitude: real("longitude").notNull(),
+    accuracy: real("accuracy"), // meters
+    speed: real("speed"), // meters per second
+    recordedAt: timestamp("recorded_at").notNull(),
+  },
+  (table) => [index("IDX_trip_points_trip").on(table.tripId, table.recordedAt)],
+);
+
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   tripId: varchar("trip_id").references(() => trips.id),
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }), // fuel expenses
   amount: real("amount").notNull(),
   category: text("category").notNull(),
   merchant: text("merchant"),
@@ -59,22 +114,70 @@ export const receipts = pgTable("receipts", {
   imageUrl: text("image_url").notNull(),
   ocrText: text("ocr_text"),
   extractedData: jsonb("extracted_data"),
+  confidence: jsonb("confidence"), // ReceiptConfidence: extraction source and a 0-1 score per field
+  reviewStatus: text("review_status"), // needs_review, confirmed; null when extraction was confident
+  pageThumbnails: jsonb("page_thumbnails").default([]), // JPEG data URLs, one per page of a PDF receipt
   uploadDate: timestamp("upload_date").notNull(),
 });
 
+// A reviewed receipt field as extracted and as confirmed by the user, kept to measure extraction accuracy
+export const receiptCorrections = pgTable("receipt_corrections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  receiptId: varchar("receipt_id").references(() => receipts.id, { onDelete: "set null" }),
+  field: text("field").notNull(), // merchant, amount, date, tax
+  extractedValue: text("extracted_value"),
+  confirmedValue: text("confirmed_value"),
+  confidence: real("confidence"), // score the extracted value was given
+  source: text("source"), // ai, ocr
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One run of a schedule file; entries it created or combined into point back to it so it can be reverted
+export const importBatches = pgTable("import_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  jobId: varchar("job_id"), // background job that ran the import, if any
+  fileName: text("file_name"),
+  fileHash: text("file_hash"),
+  status: text("status").notNull().default("active"), // active, reverted
+  mergedEntries: jsonb("merged_entries").default([]), // existing entries as they were before this import combined into them
+  createdAt: timestamp("created_at").defaultNow(),
+  revertedAt: timestamp("reverted_at"),
+});
+
+// Saved column mapping for a recurring schedule file layout, matched on the file's header signature
+export const scheduleImportTemplates = pgTable("schedule_import_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  headerSignature: text("header_signature").notNull(), // sorted, lowercased header names
+  headers: jsonb("headers").default([]), // header names as they appear in the file
+  mapping: jsonb("mapping").notNull(), // ScheduleColumnMapping
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const scheduleEntries = pgTable("schedule_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
   date: timestamp("date").notNull(),
   startAddress: text("start_address").notNull(),
   endAddress: text("end_address"),
+  stops: jsonb("stops").default([]), // addresses or saved place names visited between start and end, in order
   notes: text("notes"),
   calculatedDistance: real("calculated_distance"),
+  commuteMiles: real("commute_miles").default(0), // non-deductible part of calculatedDistance
   calculatedAmount: real("calculated_amount"),
-  isHotelStay: boolean("is_hotel_stay").default(false),
+  mileageRate: real("mileage_rate"), // rate applied to calculatedAmount
+  purpose: text("purpose").notNull().default("business"), // business, medical, moving, charity, personal
+  isHotelStay: boolean("is_hotel_stay").default(false), // the day ends at the hotel in endAddress
+  isOffDay: boolean("is_off_day").default(false),
   processingStatus: text("processing_status").default("pending"), // pending, calculated, error
   errorMessage: text("error_message"),
   originalData: jsonb("original_data"),
+  importBatchId: varchar("import_batch_id").references(() => importBatches.id, { onDelete: "set null" }),
 });
 
 export const appSettings = pgTable("app_settings", {
@@ -82,14 +185,34 @@ export const appSettings = pgTable("app_settings", {
   userId: varchar("user_id").references(() => users.id),
   googleApiKey: text("google_api_key"),
   openaiApiKey: text("openai_api_key"),
+  receiptProvider: text("receipt_provider").default("openai"), // openai, openai_compatible, tesseract; openai without a key uses tesseract
+  receiptServiceUrl: text("receipt_service_url"), // base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+  receiptServiceApiKey: text("receipt_service_api_key"),
+  receiptModel: text("receipt_model"), // defaults to gpt-4o
+  receiptPrompt: text("receipt_prompt"),
   mileageRate: real("mileage_rate").default(0.655),
   autoDetectionEnabled: boolean("auto_detection_enabled").default(true),
   detectionSensitivity: real("detection_sensitivity").default(3),
+  autoStopDwellMinutes: integer("auto_stop_dwell_minutes").default(5), // stationary time that ends a detected trip
   darkMode: boolean("dark_mode").default(false),
   pushNotifications: boolean("push_notifications").default(true),
   autoBackup: boolean("auto_backup").default(true),
   defaultStartAddress: text("default_start_address"),
   defaultEndAddress: text("default_end_address"),
+  defaultStartPlaceId: varchar("default_start_place_id"), // takes precedence over defaultStartAddress
+  defaultEndPlaceId: varchar("default_end_place_id"),
+  defaultVehicleId: varchar("default_vehicle_id"),
+  commutePolicy: text("commute_policy").default("home_office"), // home_office, first_last_leg, beyond_normal_commute
+  normalCommuteMiles: real("normal_commute_miles"), // one way, for beyond_normal_commute
+  distanceProvider: text("distance_provider").default("google"), // google, osrm, graphhopper, haversine
+  routingServiceUrl: text("routing_service_url"),
+  geocodingServiceUrl: text("geocoding_service_url"),
+  geocodingProvider: text("geocoding_provider").default("none"), // google, nominatim, none; labels tracked trips
+  roadFactor: real("road_factor").default(1.2),
+  routeCacheTtlDays: integer("route_cache_ttl_days").default(90), // 0 disables the route cache
+  monthlyApiCallBudget: integer("monthly_api_call_budget"), // billed calls per month; null for no limit
+  monthlyApiCostBudget: real("monthly_api_cost_budget"), // dollars per month; null for no limit
+  apiBudgetAlertPercent: integer("api_budget_alert_percent").default(80),
 });
 
 export const errorLogs = pgTable("error_logs", {
@@ -108,6 +231,7 @@ export const processedFiles = pgTable("processed_files", {
   fileName: text("file_name").notNull(),
   processedAt: timestamp("processed_at").notNull(),
   recordCount: integer("record_count").default(0),
+  importBatchId: varchar("import_batch_id").references(() => importBatches.id, { onDelete: "set null" }),
 });
 
 export const apiUsage = pgTable("api_usage", {
@@ -125,12 +249,60 @@ export const yearlyRates = pgTable("yearly_rates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   year: integer("year").notNull(),
-  mileageRate: real("mileage_rate").notNull(),
+  mileageRate: real("mileage_rate").notNull(), // business rate
+  medicalRate: real("medical_rate"),
+  movingRate: real("moving_rate"), // charity is fixed by statute, not stored
   effectiveDate: timestamp("effective_date"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const routeCache = pgTable(
+  "route_cache",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").references(() => users.id),
+    originKey: text("origin_key").notNull(), // normalized address
+    destinationKey: text("destination_key").notNull(), // normalized address
+    provider: text("provider").notNull(),
+    distance: real("distance").notNull(), // miles
+    duration: real("duration").notNull(), // seconds
+    cachedAt: timestamp("cached_at").notNull(),
+  },
+  (table) => [index("IDX_route_cache_pair").on(table.userId, table.originKey, table.destinationKey)],
+);
+
+// Reverse geocoding results keyed by coordinates rounded to ~11 m
+export const geocodeCache = pgTable(
+  "geocode_cache",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").references(() => users.id),
+    coordinateKey: text("coordinate_key").notNull(), // "lat,lng" with 4 decimals
+    provider: text("provider").notNull(),
+    address: text("address").notNull(),
+    cachedAt: timestamp("cached_at").notNull(),
+  },
+  (table) => [index("IDX_geocode_cache_key").on(table.userId, table.coordinateKey)],
+);
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  type: text("type").notNull(), // schedule_process
+  status: text("status").notNull().default("queued"), // queued, running, paused, completed, failed, cancelled
+  payload: jsonb("payload").notNull(),
+  totalCount: integer("total_count").default(0),
+  processedCount: integer("processed_count").default(0),
+  results: jsonb("results").default([]), // per-day results
+  summary: jsonb("summary"),
+  errorMessage: text("error_message"),
+  cancelRequested: boolean("cancel_requested").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -143,10 +315,28 @@ export const upsertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertVehicleSchema = createInsertSchema(vehicles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOdometerReadingSchema = createInsertSchema(odometerReadings).omit({
+  id: true,
+});
+
+export const insertPlaceSchema = createInsertSchema(places).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTripSchema = createInsertSchema(trips).omit({
   id: true,
 });
 
+export const insertTripPointSchema = createInsertSchema(tripPoints).omit({
+  id: true,
+});
+
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
   id: true,
 });
@@ -155,6 +345,11 @@ export const insertReceiptSchema = createInsertSchema(receipts).omit({
   id: true,
 });
 
+export const insertReceiptCorrectionSchema = createInsertSchema(receiptCorrections).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertScheduleEntrySchema = createInsertSchema(scheduleEntries).omit({
   id: true,
 });
@@ -167,6 +362,17 @@ export const insertErrorLogSchema = createInsertSchema(errorLogs).omit({
   id: true,
 });
 
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScheduleImportTemplateSchema = createInsertSchema(scheduleImportTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertProcessedFileSchema = createInsertSchema(processedFiles).omit({
   id: true,
 });
@@ -180,25 +386,58 @@ export const insertYearlyRateSchema = createInsertSchema(yearlyRates).omit({
   createdAt: true,
 });
 
+export const insertRouteCacheSchema = createInsertSchema(routeCache).omit({
+  id: true,
+});
+
+export const insertGeocodeCacheSchema = createInsertSchema(geocodeCache).omit({
+  id: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertOdometerReading = z.infer<typeof insertOdometerReadingSchema>;
+export type OdometerReading = typeof odometerReadings.$inferSelect;
+export type InsertPlace = z.infer<typeof insertPlaceSchema>;
+export type Place = typeof places.$inferSelect;
 export type InsertTrip = z.infer<typeof insertTripSchema>;
 export type Trip = typeof trips.$inferSelect;
+export type InsertTripPoint = z.infer<typeof insertTripPointSchema>;
+export type TripPoint = typeof tripPoints.$inferSelect;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Expense = typeof expenses.$inferSelect;
 export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
 export type Receipt = typeof receipts.$inferSelect;
+export type InsertReceiptCorrection = z.infer<typeof insertReceiptCorrectionSchema>;
+export type ReceiptCorrection = typeof receiptCorrections.$inferSelect;
 export type InsertScheduleEntry = z.infer<typeof insertScheduleEntrySchema>;
 export type ScheduleEntry = typeof scheduleEntries.$inferSelect;
 export type InsertAppSettings = z.infer<typeof insertAppSettingsSchema>;
 export type AppSettings = typeof appSettings.$inferSelect;
 export type InsertErrorLog = z.infer<typeof insertErrorLogSchema>;
 export type ErrorLog = typeof errorLogs.$inferSelect;
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertScheduleImportTemplate = z.infer<typeof insertScheduleImportTemplateSchema>;
+export type ScheduleImportTemplate = typeof scheduleImportTemplates.$inferSelect;
 export type InsertProcessedFile = z.infer<typeof insertProcessedFileSchema>;
 export type ProcessedFile = typeof processedFiles.$inferSelect;
 export type InsertApiUsage = z.infer<typeof insertApiUsageSchema>;
 export type ApiUsage = typeof apiUsage.$inferSelect;
 export type InsertYearlyRate = z.infer<typeof insertYearlyRateSchema>;
 export type YearlyRate = typeof yearlyRates.$inferSelect;
+export type InsertRouteCacheEntry = z.infer<typeof insertRouteCacheSchema>;
+export type RouteCacheEntry = typeof routeCache.$inferSelect;
+export type InsertGeocodeCacheEntry = z.infer<typeof insertGeocodeCacheSchema>;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
\ No newline at end of file